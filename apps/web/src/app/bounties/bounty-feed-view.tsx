@@ -1,10 +1,11 @@
 "use client";
 
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 
 import { authClient } from "@/lib/auth-client";
+import { useDwellTime } from "@/lib/dwell";
 import { trpc } from "@/utils/trpc";
 import { UserProfileCard } from "@/components/user-profile-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -53,16 +54,68 @@ export default function BountyFeedView({
   const queryClient = useQueryClient();
   const [sortBy, setSortBy] = useState<SortOption>("relevance");
   const [tierFilter, setTierFilter] = useState<Tier[]>([]);
+  const [networkOnly, setNetworkOnly] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
-
-  // Fetch bounty feed
-  const feed = useQuery(
-    trpc.recommendation.getBountyFeed.queryOptions({
-      sortBy,
-      tierFilter: tierFilter.length > 0 ? tierFilter : undefined,
-      limit: 50,
-    })
+  const [strategy, setStrategy] = useState<string | undefined>(undefined);
+  const [diversity, setDiversity] = useState(0);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+  const searching = searchQuery.length > 0;
+
+  // Fetch bounty feed (cursor pages over a pinned ranking snapshot)
+  const feed = useInfiniteQuery(
+    trpc.recommendation.getBountyFeed.infiniteQueryOptions(
+      {
+        sortBy,
+        tierFilter: tierFilter.length > 0 ? tierFilter : undefined,
+        hasMutualActivity: networkOnly,
+        limit: 20,
+        strategy,
+        diversity: sortBy === "relevance" ? diversity : 0,
+      },
+      { getNextPageParam: (lastPage) => lastPage.pagination.nextCursor ?? undefined }
+    )
   );
+  const feedInfo = feed.data?.pages[0];
+  const feedBounties = feed.data?.pages.flatMap((page) => page.bounties) ?? [];
+
+  // Load the next page when the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = feed;
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage || searching) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, searching]);
+
+  // Full-text search, personalized (replaces the feed while a query is set)
+  const search = useQuery({
+    ...trpc.recommendation.searchBounties.queryOptions({ query: searchQuery, strategy }),
+    enabled: searching,
+  });
+  const visibleBounties = searching ? (search.data?.bounties ?? []) : feedBounties;
+
+  // Fetch scoring strategies (debug only)
+  const strategies = useQuery({
+    ...trpc.recommendation.getScoringStrategies.queryOptions(),
+    enabled: showDebug,
+  });
 
   // Fetch user tags for the sidebar
   const userTags = useQuery(trpc.recommendation.getUserTags.queryOptions());
@@ -71,6 +124,7 @@ export default function BountyFeedView({
   const recordView = useMutation(
     trpc.recommendation.recordView.mutationOptions({
       onSuccess: (data) => {
+        if (data.avgPrice === null) return; // Already counted recently
         toast.success(`View recorded! Avg price: $${data.avgPrice.toFixed(0)}`);
         feed.refetch();
       },
@@ -80,8 +134,8 @@ export default function BountyFeedView({
   // Record like mutation
   const recordLike = useMutation(
     trpc.recommendation.recordInteraction.mutationOptions({
-      onSuccess: (data) => {
-        toast.success(`Liked! Engagement: ${data.newEngagementScore}`);
+      onSuccess: () => {
+        toast.success("Liked!");
         feed.refetch();
       },
     })
@@ -93,8 +147,8 @@ export default function BountyFeedView({
     );
   };
 
-  const isLoading = feed.isLoading || userTags.isLoading;
-  const error = feed.error || userTags.error;
+  const isLoading = feed.isLoading || userTags.isLoading || (searching && search.isLoading);
+  const error = feed.error || userTags.error || search.error;
 
   if (error) {
     return (
@@ -117,7 +171,9 @@ export default function BountyFeedView({
         <div>
           <h1 className="text-2xl font-bold">Bounty Feed</h1>
           <p className="text-muted-foreground">
-            {feed.data?.pagination.total ?? 0} bounties available
+            {searching
+              ? `${search.data?.bounties.length ?? 0} results`
+              : `${feedInfo?.pagination.total ?? 0} bounties available`}
           </p>
         </div>
         <div className="flex items-center gap-3">
@@ -157,7 +213,7 @@ export default function BountyFeedView({
             </Card>
           ) : (
             <UserProfileCard
-              profile={feed.data?.userProfile ?? null}
+              profile={feedInfo?.userProfile ?? null}
               tags={userTags.data ?? []}
               userName={session.user.name}
             />
@@ -212,13 +268,47 @@ export default function BountyFeedView({
                 </div>
               </div>
 
+              {/* Network Filter */}
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="network-only"
+                  checked={networkOnly}
+                  onCheckedChange={(checked) => setNetworkOnly(checked === true)}
+                />
+                <Label htmlFor="network-only" className="text-sm font-normal cursor-pointer">
+                  Engaged by your network
+                </Label>
+              </div>
+
+              {/* Diversity (relevance sort only) */}
+              {sortBy === "relevance" && (
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">
+                    Diversity: {Math.round(diversity * 100)}%
+                  </Label>
+                  <Slider
+                    value={[diversity]}
+                    onValueChange={(v) => {
+                      const val = Array.isArray(v) ? v[0] : v;
+                      setDiversity(val ?? 0);
+                    }}
+                    min={0}
+                    max={1}
+                    step={0.1}
+                  />
+                </div>
+              )}
+
               {/* Clear Filters */}
-              {tierFilter.length > 0 && (
+              {(tierFilter.length > 0 || networkOnly) && (
                 <Button
                   variant="ghost"
                   size="sm"
                   className="w-full"
-                  onClick={() => setTierFilter([])}
+                  onClick={() => {
+                    setTierFilter([]);
+                    setNetworkOnly(false);
+                  }}
                 >
                   Clear Filters
                 </Button>
@@ -236,24 +326,64 @@ export default function BountyFeedView({
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="text-xs space-y-2">
-                  <div className="space-y-1">
-                    <div className="flex justify-between">
-                      <span>Skills match</span>
-                      <span className="font-mono">55%</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Price fit</span>
-                      <span className="font-mono">20%</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Social proof</span>
-                      <span className="font-mono">15%</span>
+                  {/* Strategy picker */}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      className="w-full flex items-center justify-between rounded-md border border-input bg-background px-2 py-1.5 text-xs hover:bg-accent hover:text-accent-foreground"
+                    >
+                      {feedInfo?.strategy.label ?? "Default"}
+                      <ChevronDownIcon className="w-3 h-3 ml-2" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-56">
+                      {strategies.data?.map((s) => (
+                        <DropdownMenuItem key={s.id} onClick={() => setStrategy(s.id)}>
+                          <div className="flex flex-col">
+                            <span>{s.label}</span>
+                            <span className="text-[10px] text-muted-foreground">{s.description}</span>
+                          </div>
+                          {feedInfo?.strategy.id === s.id && <CheckIcon className="w-4 h-4 ml-auto" />}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  {feedInfo?.strategy && (
+                    <div className="space-y-1">
+                      <div className="flex justify-between">
+                        <span>Skills match</span>
+                        <span className="font-mono">{formatWeight(feedInfo.strategy.weights.relevance)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Price fit</span>
+                        <span className="font-mono">{formatWeight(feedInfo.strategy.weights.price)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Social proof</span>
+                        <span className="font-mono">{formatWeight(feedInfo.strategy.weights.social)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Popularity</span>
+                        <span className="font-mono">{formatWeight(feedInfo.strategy.weights.engagement)}</span>
+                      </div>
+                      {feedInfo.strategy.weights.freshness > 0 && (
+                        <div className="flex justify-between">
+                          <span>Freshness</span>
+                          <span className="font-mono">{formatWeight(feedInfo.strategy.weights.freshness)}</span>
+                        </div>
+                      )}
+                      {feedInfo.strategy.weights.collaborative > 0 && (
+                        <div className="flex justify-between">
+                          <span>Collaborative</span>
+                          <span className="font-mono">{formatWeight(feedInfo.strategy.weights.collaborative)}</span>
+                        </div>
+                      )}
+                      {feedInfo.strategy.weights.preference > 0 && (
+                        <div className="flex justify-between">
+                          <span>Preferences</span>
+                          <span className="font-mono">{formatWeight(feedInfo.strategy.weights.preference)}</span>
+                        </div>
+                      )}
                     </div>
-                    <div className="flex justify-between">
-                      <span>Popularity</span>
-                      <span className="font-mono">10%</span>
-                    </div>
-                  </div>
+                  )}
                   <div className="border-t pt-2 mt-2 text-muted-foreground">
                     <p>Min skill match: 3/10</p>
                   </div>
@@ -261,9 +391,9 @@ export default function BountyFeedView({
               </Card>
 
               {/* Debug Profile Editor */}
-              {feed.data?.userProfile && userTags.data && (
+              {feedInfo?.userProfile && userTags.data && (
                 <DebugProfileEditor
-                  profile={feed.data.userProfile}
+                  profile={feedInfo.userProfile}
                   tags={userTags.data}
                   onUpdate={() => {
                     feed.refetch();
@@ -277,6 +407,20 @@ export default function BountyFeedView({
 
         {/* Main Content - Bounty Grid */}
         <div className="lg:col-span-3">
+          {/* Search */}
+          <div className="mb-4 space-y-1">
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search bounties, e.g. auth flow tag:nextjs tier:middle price:100-500"
+            />
+            {searching && search.data && search.data.query.unknownTags.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Unknown tags: {search.data.query.unknownTags.join(", ")}
+              </p>
+            )}
+          </div>
+
           {isLoading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {Array.from({ length: 6 }).map((_, i) => (
@@ -291,22 +435,23 @@ export default function BountyFeedView({
                 </Card>
               ))}
             </div>
-          ) : feed.data?.bounties.length === 0 ? (
+          ) : visibleBounties.length === 0 ? (
             <Card>
               <CardContent className="py-12 text-center text-muted-foreground">
-                No bounties found matching your filters.
+                {searching ? "No bounties match your search." : "No bounties found matching your filters."}
               </CardContent>
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {feed.data?.bounties.map((bounty, index) => (
+              {visibleBounties.map((bounty, index) => (
                 <FeedBountyCard
                   key={bounty.id}
                   bounty={bounty}
-                  rank={sortBy === "relevance" ? index + 1 : undefined}
+                  rank={sortBy === "relevance" || searching ? index + 1 : undefined}
                   showDebug={showDebug}
-                  userTags={feed.data?.userTags ?? []}
-                  avgPriceViewed={feed.data?.userProfile?.avgPriceViewed ?? 0}
+                  userTags={feedInfo?.userTags ?? []}
+                  avgPriceViewed={feedInfo?.userProfile?.avgPriceViewed ?? 0}
+                  weights={feedInfo?.strategy.weights}
                   onView={() => recordView.mutate({ bountyId: bounty.id })}
                   onLike={() => recordLike.mutate({ bountyId: bounty.id, type: "like" })}
                 />
@@ -314,11 +459,13 @@ export default function BountyFeedView({
             </div>
           )}
 
-          {/* Pagination info */}
-          {feed.data && feed.data.pagination.total > feed.data.pagination.limit && (
+          {/* Infinite scroll sentinel and pagination info */}
+          <div ref={loadMoreRef} />
+          {!searching && feedInfo && feedInfo.pagination.total > 0 && (
             <div className="mt-6 text-center text-sm text-muted-foreground">
-              Showing {Math.min(feed.data.pagination.limit, feed.data.pagination.total)} of{" "}
-              {feed.data.pagination.total} bounties
+              {isFetchingNextPage
+                ? "Loading more..."
+                : `Showing ${feedBounties.length} of ${feedInfo.pagination.total} bounties`}
             </div>
           )}
         </div>
@@ -329,36 +476,93 @@ export default function BountyFeedView({
 
 // ============ Feed Bounty Card with Debug Overlay ============
 
+interface ScoringWeights {
+  relevance: number;
+  social: number;
+  price: number;
+  engagement: number;
+  freshness: number;
+  preference: number;
+  collaborative: number;
+}
+
+const formatWeight = (weight: number) => `${Math.round(weight * 100)}%`;
+
+// Relative time, e.g. "3d ago" or "in 5h"
+const formatAge = (date: string) => {
+  const diffHours = (new Date(date).getTime() - Date.now()) / (1000 * 60 * 60);
+  const abs = Math.abs(diffHours);
+  const text = abs < 1 ? `${Math.round(abs * 60)}m` : abs < 48 ? `${Math.round(abs)}h` : `${Math.round(abs / 24)}d`;
+  return diffHours < 0 ? `${text} ago` : `in ${text}`;
+};
+
+// Dwell time, e.g. "45s" or "2m 10s"
+const formatDuration = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  return rounded < 60 ? `${rounded}s` : `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+};
+
 interface TagMatch {
   tagId: number;
   tagName: string;
   userScore: number;
+  explicitScore: number;
+  implicitScore: number;
+  matchScore: number;
+  partial: string | null;
   bountyWeight: number;
   contribution: number;
 }
 
+interface CollaborativeScore {
+  score: number;
+  sources: number[];
+  reason: string | null;
+}
+
+interface PreferenceFit {
+  score: number;
+  type: number | null;
+  deadline: number | null;
+  risk: number | null;
+}
+
 interface FeedBounty {
   id: number;
   title: string;
   description: string;
   price: number;
   tier: "basic" | "middle" | "high";
-  status: "open" | "claimed" | "completed" | "expired";
+  type: "bug_fix" | "feature" | "full_project" | "code_review" | "docs";
+  status: "open" | "claimed" | "completed" | "expired" | "closed";
   views: number;
+  uniqueViewers: number;
   submissions: number;
   likes: number;
   engagementScore: number;
+  createdAt: string;
+  expiresAt: string | null;
   tags: { name: string; weight: number }[];
   scores: {
     relevance: number;
+    tagMatch: number;
+    embedding: number | null;
     social: number;
     price: number;
+    freshness: number;
+    preference: number;
+    collaborative: number;
     final: number;
   };
   debug: {
     tagMatches: TagMatch[];
     priceRatio: number | null;
     mutualCount: number;
+    tagDwell: { tagName: string; avgSeconds: number; views: number }[];
+    preference: PreferenceFit;
+    collaborative: CollaborativeScore;
+    position: number;
+    rawPosition: number;
   };
 }
 
@@ -368,6 +572,7 @@ interface FeedBountyCardProps {
   showDebug: boolean;
   userTags: { tagId: number; tagName: string; score: number }[];
   avgPriceViewed: number;
+  weights?: ScoringWeights;
   onView: () => void;
   onLike: () => void;
 }
@@ -378,9 +583,20 @@ function FeedBountyCard({
   showDebug,
   userTags,
   avgPriceViewed,
+  weights,
   onView,
   onLike,
 }: FeedBountyCardProps) {
+  // Expanded cards show the full description; visible time while expanded is
+  // reported as dwell time
+  const [expanded, setExpanded] = useState(false);
+  const cardRef = useDwellTime<HTMLDivElement>(bounty.id, expanded);
+
+  const toggleExpanded = () => {
+    if (!expanded) onView();
+    setExpanded(!expanded);
+  };
+
   // Determine score quality for color coding (max final score is now ~10)
   const getScoreColor = (score: number, max: number) => {
     const ratio = score / max;
@@ -390,7 +606,7 @@ function FeedBountyCard({
   };
 
   return (
-    <Card className="relative overflow-hidden transition-all hover:shadow-md">
+    <Card ref={cardRef} className="relative overflow-hidden transition-all hover:shadow-md">
       {/* Rank badge for relevance sort */}
       {rank && rank <= 3 && (
         <div
@@ -430,7 +646,9 @@ function FeedBountyCard({
       </CardHeader>
 
       <CardContent className="space-y-3">
-        <p className="text-xs text-muted-foreground line-clamp-2">{bounty.description}</p>
+        <p className={`text-xs text-muted-foreground ${expanded ? "whitespace-pre-line" : "line-clamp-2"}`}>
+          {bounty.description}
+        </p>
 
         {/* Tags */}
         <div className="flex flex-wrap gap-1">
@@ -460,6 +678,7 @@ function FeedBountyCard({
         {/* Mini stats */}
         <div className="flex gap-4 text-xs text-muted-foreground">
           <span>{bounty.views} views</span>
+          <span>{bounty.uniqueViewers} viewers</span>
           <span>{bounty.submissions} submissions</span>
           <span>{bounty.likes} likes</span>
         </div>
@@ -469,13 +688,14 @@ function FeedBountyCard({
           <DebugWhyThisBounty
             bounty={bounty}
             avgPriceViewed={avgPriceViewed}
+            weights={weights}
           />
         )}
 
         {/* Actions */}
         <div className="flex gap-2 pt-2">
-          <Button variant="outline" size="sm" onClick={onView} className="flex-1">
-            View
+          <Button variant="outline" size="sm" onClick={toggleExpanded} className="flex-1">
+            {expanded ? "Collapse" : "View"}
           </Button>
           <Button variant="ghost" size="sm" onClick={onLike}>
             <HeartIcon className="w-4 h-4" />
@@ -491,12 +711,15 @@ function FeedBountyCard({
 function DebugWhyThisBounty({
   bounty,
   avgPriceViewed,
+  weights,
 }: {
   bounty: FeedBounty;
   avgPriceViewed: number;
+  weights?: ScoringWeights;
 }) {
   const matchedTags = bounty.debug.tagMatches.filter((m) => m.userScore > 0);
-  const missingTags = bounty.debug.tagMatches.filter((m) => m.userScore === 0);
+  const partialTags = bounty.debug.tagMatches.filter((m) => m.userScore === 0 && m.partial);
+  const missingTags = bounty.debug.tagMatches.filter((m) => m.userScore === 0 && !m.partial);
 
   // Skill match quality
   const getSkillVerdict = () => {
@@ -526,9 +749,14 @@ function DebugWhyThisBounty({
           <span className={`font-medium ${skillVerdict.color}`}>
             {skillVerdict.text} ({bounty.scores.relevance.toFixed(1)}/10)
           </span>
+          {bounty.scores.embedding !== null && (
+            <span className="text-muted-foreground">
+              {" "}[tags {bounty.scores.tagMatch.toFixed(1)}, <span className="text-blue-600">embedding {bounty.scores.embedding.toFixed(1)}</span>]
+            </span>
+          )}
           {matchedTags.length > 0 && (
             <span className="text-muted-foreground">
-              {" "}- you know {matchedTags.map((m) => `${m.tagName} (${m.userScore}/5)`).join(", ")}
+              {" "}- you know {matchedTags.map((m) => `${m.tagName} (${m.userScore.toFixed(1)}/5)`).join(", ")}
             </span>
           )}
           {missingTags.length > 0 && (
@@ -539,6 +767,57 @@ function DebugWhyThisBounty({
         </div>
       </div>
 
+      {/* Partial credit through related tags */}
+      {partialTags.length > 0 && (
+        <div className="flex items-start gap-2">
+          <span className="text-muted-foreground w-12 shrink-0">Related</span>
+          <div className="flex-1 space-y-0.5">
+            {partialTags.map((m) => (
+              <div key={m.tagId} className="flex justify-between gap-2">
+                <span>{m.tagName}</span>
+                <span className="font-mono text-muted-foreground">
+                  {m.partial} = {m.matchScore.toFixed(1)}/5
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Explicit vs implicit split of each matched tag */}
+      {matchedTags.length > 0 && (
+        <div className="flex items-start gap-2">
+          <span className="text-muted-foreground w-12 shrink-0">Blend</span>
+          <div className="flex-1 space-y-0.5">
+            {matchedTags.map((m) => (
+              <div key={m.tagId} className="flex justify-between gap-2">
+                <span>{m.tagName}</span>
+                <span className="font-mono text-muted-foreground">
+                  {m.explicitScore.toFixed(1)} profile + <span className="text-blue-600">{m.implicitScore.toFixed(1)} activity</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Average time spent reading bounties with these tags */}
+      {bounty.debug.tagDwell.length > 0 && (
+        <div className="flex items-start gap-2">
+          <span className="text-muted-foreground w-12 shrink-0">Dwell</span>
+          <div className="flex-1 space-y-0.5">
+            {bounty.debug.tagDwell.map((d) => (
+              <div key={d.tagName} className="flex justify-between gap-2">
+                <span>{d.tagName}</span>
+                <span className="font-mono text-muted-foreground">
+                  {formatDuration(d.avgSeconds)} avg over {d.views} view{d.views === 1 ? "" : "s"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Price */}
       <div className="flex items-start gap-2">
         <span className="text-muted-foreground w-12 shrink-0">Price</span>
@@ -568,14 +847,91 @@ function DebugWhyThisBounty({
         </div>
       )}
 
+      {/* Freshness (only show when it moves the score) */}
+      {bounty.scores.freshness !== 0 && (weights?.freshness ?? 0) > 0 && (
+        <div className="flex items-start gap-2">
+          <span className="text-muted-foreground w-12 shrink-0">Fresh</span>
+          <div className="flex-1">
+            <span className={`font-medium ${bounty.scores.freshness > 0 ? "text-emerald-600" : "text-orange-500"}`}>
+              {bounty.scores.freshness > 0 ? "+" : ""}
+              {bounty.scores.freshness.toFixed(2)}
+            </span>
+            <span className="text-muted-foreground">
+              {" "}- posted {formatAge(bounty.createdAt)}
+              {bounty.expiresAt && <>, expires {formatAge(bounty.expiresAt)}</>}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Collaborative filtering (only when neighbors voted) */}
+      {bounty.debug.collaborative.reason && (
+        <div className="flex items-start gap-2">
+          <span className="text-muted-foreground w-12 shrink-0">Similar</span>
+          <div className="flex-1">
+            <span className="font-medium text-blue-600">{bounty.scores.collaborative.toFixed(2)}</span>
+            <span className="text-muted-foreground">
+              {" "}- {bounty.debug.collaborative.reason} (#{bounty.debug.collaborative.sources.slice(0, 3).join(", #")})
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Onboarding preference fit (only when the user has answers) */}
+      {(weights?.preference ?? 0) > 0 && bounty.debug.preference.score !== 0.5 && (
+        <div className="flex items-start gap-2">
+          <span className="text-muted-foreground w-12 shrink-0">Prefs</span>
+          <div className="flex-1">
+            <span className={`font-medium ${bounty.scores.preference >= 0.5 ? "text-emerald-600" : "text-orange-500"}`}>
+              {bounty.scores.preference.toFixed(2)}
+            </span>
+            <span className="text-muted-foreground">
+              {" "}- {bounty.type.replace("_", " ")}
+              {[
+                bounty.debug.preference.type !== null && `type ${bounty.debug.preference.type.toFixed(1)}`,
+                bounty.debug.preference.deadline !== null && `deadline ${bounty.debug.preference.deadline.toFixed(1)}`,
+                bounty.debug.preference.risk !== null && `risk ${bounty.debug.preference.risk.toFixed(1)}`,
+              ]
+                .filter(Boolean)
+                .map((part) => `, ${part}`)}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Diversity re-ranking (only when it moved the bounty) */}
+      {bounty.debug.position !== bounty.debug.rawPosition && (
+        <div className="flex items-start gap-2">
+          <span className="text-muted-foreground w-12 shrink-0">Rank</span>
+          <div className="flex-1">
+            <span
+              className={`font-medium ${
+                bounty.debug.position < bounty.debug.rawPosition ? "text-emerald-600" : "text-orange-500"
+              }`}
+            >
+              {bounty.debug.position < bounty.debug.rawPosition ? "↑" : "↓"}
+              {Math.abs(bounty.debug.rawPosition - bounty.debug.position)}
+            </span>
+            <span className="text-muted-foreground">
+              {" "}- #{bounty.debug.position} after diversity, #{bounty.debug.rawPosition} by raw score
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Final score */}
       <div className="flex items-start gap-2 pt-1 border-t border-dashed">
         <span className="text-muted-foreground w-12 shrink-0">Score</span>
         <div className="flex-1">
           <span className="font-mono font-medium">{bounty.scores.final.toFixed(2)}</span>
-          <span className="text-muted-foreground">
-            {" "}= skills×55% + price×20% + social×15% + popularity×10%
-          </span>
+          {weights && (
+            <span className="text-muted-foreground">
+              {" "}= skills×{formatWeight(weights.relevance)} + price×{formatWeight(weights.price)} + social×{formatWeight(weights.social)} + popularity×{formatWeight(weights.engagement)}
+              {weights.freshness > 0 && <> + freshness×{formatWeight(weights.freshness)}</>}
+              {weights.preference > 0 && <> + prefs×{formatWeight(weights.preference)}</>}
+              {weights.collaborative > 0 && <> + collaborative×{formatWeight(weights.collaborative)}</>}
+            </span>
+          )}
         </div>
       </div>
     </div>
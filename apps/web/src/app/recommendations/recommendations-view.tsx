@@ -29,6 +29,7 @@ export default function RecommendationsView({
   const recordView = useMutation(
     trpc.recommendation.recordView.mutationOptions({
       onSuccess: (data) => {
+        if (data.avgPrice === null) return; // Already counted recently
         toast.success(`View recorded! Avg price: $${data.avgPrice.toFixed(0)}`);
         recommendations.refetch();
         userProfile.refetch();
@@ -42,8 +43,8 @@ export default function RecommendationsView({
   // Record like mutation
   const recordLike = useMutation(
     trpc.recommendation.recordInteraction.mutationOptions({
-      onSuccess: (data) => {
-        toast.success(`Liked! Engagement score: ${data.newEngagementScore}`);
+      onSuccess: () => {
+        toast.success("Liked!");
         recommendations.refetch();
         userProfile.refetch();
       },
@@ -141,6 +142,7 @@ export default function RecommendationsView({
                   <span className="text-xs text-muted-foreground">(High Relevance)</span>
                 </div>
                 <BountyCard
+                  key={recommendations.data.primary.id}
                   {...recommendations.data.primary}
                   variant="primary"
                   onView={() => recordView.mutate({ bountyId: recommendations.data!.primary.id })}
@@ -161,6 +163,7 @@ export default function RecommendationsView({
                   <span className="text-xs text-muted-foreground">(Lower Relevance)</span>
                 </div>
                 <BountyCard
+                  key={recommendations.data.secondary.id}
                   {...recommendations.data.secondary}
                   variant="secondary"
                   onView={() =>
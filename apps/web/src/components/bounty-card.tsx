@@ -1,5 +1,8 @@
 "use client";
 
+import { useState } from "react";
+
+import { useDwellTime } from "@/lib/dwell";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -23,13 +26,14 @@ interface BountyCardProps {
   description: string;
   price: number;
   tier: "basic" | "middle" | "high";
-  status: "open" | "claimed" | "completed" | "expired";
+  status: "open" | "claimed" | "completed" | "expired" | "closed";
   views: number;
   submissions: number;
   likes: number;
   engagementScore: number;
   tags: BountyTag[];
   scores?: BountyScores;
+  reason?: string | null; // Why it was recommended, e.g. collaborative filtering
   variant?: "primary" | "secondary";
   onLike?: () => void;
   onView?: () => void;
@@ -60,14 +64,25 @@ export function BountyCard({
   engagementScore,
   tags,
   scores,
+  reason,
   variant = "primary",
   onLike,
   onView,
 }: BountyCardProps) {
   const isPrimary = variant === "primary";
 
+  // Opened with View Details; visible time while open is reported as dwell time
+  const [expanded, setExpanded] = useState(false);
+  const cardRef = useDwellTime<HTMLDivElement>(id, expanded);
+
+  const toggleExpanded = () => {
+    if (!expanded) onView?.();
+    setExpanded(!expanded);
+  };
+
   return (
     <Card
+      ref={cardRef}
       className={`${isPrimary ? "border-primary/50 bg-primary/5" : "border-border"} transition-all hover:shadow-md`}
     >
       <CardHeader className="pb-2">
@@ -86,7 +101,9 @@ export function BountyCard({
       </CardHeader>
 
       <CardContent className="space-y-4">
-        <p className="text-sm text-muted-foreground line-clamp-2">{description}</p>
+        <p className={`text-sm text-muted-foreground ${expanded ? "whitespace-pre-line" : "line-clamp-2"}`}>
+          {description}
+        </p>
 
         {/* Tags */}
         <div className="flex flex-wrap gap-1.5">
@@ -119,6 +136,8 @@ export function BountyCard({
           </div>
         </div>
 
+        {reason && <p className="text-xs text-muted-foreground italic">{reason}</p>}
+
         {/* Scores (if available) */}
         {scores && (
           <div className="space-y-2 pt-2 border-t">
@@ -152,8 +171,8 @@ export function BountyCard({
       </CardContent>
 
       <CardFooter className="gap-2">
-        <Button variant="outline" size="sm" onClick={onView} className="flex-1">
-          View Details
+        <Button variant="outline" size="sm" onClick={toggleExpanded} className="flex-1">
+          {expanded ? "Hide Details" : "View Details"}
         </Button>
         <Button variant="ghost" size="sm" onClick={onLike}>
           <HeartIcon className="w-4 h-4 mr-1" />
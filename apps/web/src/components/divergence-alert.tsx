@@ -22,10 +22,10 @@ export function DivergenceAlert() {
 
   const respond = useMutation(
     trpc.recommendation.respondToDivergence.mutationOptions({
-      onSuccess: () => {
+      onSuccess: (_data, variables) => {
         queryClient.invalidateQueries();
         alerts.refetch();
-        toast.success("Profile updated!");
+        toast.success(RESPONSE_TOASTS[variables.action] ?? "Profile updated!");
       },
     })
   );
@@ -35,6 +35,93 @@ export function DivergenceAlert() {
 
   if (!alert) return null;
 
+  const promptId = alert.promptId;
+
+  // Shared by every prompt: come back later, or stop asking about this
+  const laterButtons = (subject: string) => (
+    <div className="flex w-full justify-between text-xs">
+      <Button
+        variant="link"
+        size="sm"
+        className="px-0 text-muted-foreground"
+        onClick={() => respond.mutate({ promptId, action: "snooze" })}
+        disabled={respond.isPending}
+      >
+        Ask me later
+      </Button>
+      <Button
+        variant="link"
+        size="sm"
+        className="px-0 text-muted-foreground"
+        onClick={() => respond.mutate({ promptId, action: "never" })}
+        disabled={respond.isPending}
+      >
+        Never ask about {subject}
+      </Button>
+    </div>
+  );
+
+  if (alert.type === "price_range") {
+    return (
+      <Dialog open={!!alert}>
+        <DialogContent showCloseButton={false} className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Price range check</DialogTitle>
+            <DialogDescription>{alert.message}</DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <div className="p-4 bg-muted rounded-lg text-sm space-y-1">
+              <div className="text-muted-foreground">
+                Your profile:{" "}
+                <span className="text-foreground font-medium">
+                  {formatPrice(alert.explicitMin)} – {formatPrice(alert.explicitMax)}
+                </span>
+              </div>
+              <div className="text-muted-foreground">
+                Your behavior:{" "}
+                <span className="text-amber-600 font-medium">
+                  around {formatPrice(alert.typicalPrice)}
+                </span>
+              </div>
+              <div className="text-muted-foreground">
+                Suggested:{" "}
+                <span className="text-emerald-600 font-medium">
+                  {formatPrice(alert.suggestedMin)} – {formatPrice(alert.suggestedMax)}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="flex-col sm:flex-row gap-2">
+            <Button
+              variant="outline"
+              onClick={() => respond.mutate({ promptId, action: "keep" })}
+              disabled={respond.isPending}
+            >
+              Keep my range
+            </Button>
+            <Button
+              onClick={() =>
+                respond.mutate({
+                  promptId,
+                  action: "update_range",
+                  priceRangeMin: alert.suggestedMin,
+                  priceRangeMax: alert.suggestedMax,
+                })
+              }
+              disabled={respond.isPending}
+            >
+              Use {formatPrice(alert.suggestedMin)} – {formatPrice(alert.suggestedMax)}
+            </Button>
+          </DialogFooter>
+
+          {laterButtons("my price range")}
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   const isNewInterest = alert.type === "new_interest";
 
   return (
@@ -77,7 +164,8 @@ export function DivergenceAlert() {
                     Your behavior:{" "}
                     <span className="text-amber-600 font-medium">
                       {alert.implicitScore.toFixed(1)}/10 engagement
-                    </span>
+                    </span>{" "}
+                    across {alert.exposure} shown
                   </div>
                 </div>
               )}
@@ -91,7 +179,7 @@ export function DivergenceAlert() {
               <Button
                 variant="outline"
                 onClick={() =>
-                  respond.mutate({ tagId: alert.tagId, action: "dismiss" })
+                  respond.mutate({ promptId, action: "dismiss" })
                 }
                 disabled={respond.isPending}
               >
@@ -100,7 +188,7 @@ export function DivergenceAlert() {
               <Button
                 onClick={() =>
                   respond.mutate({
-                    tagId: alert.tagId,
+                    promptId,
                     action: "add_skill",
                     newScore: 3,
                   })
@@ -115,7 +203,7 @@ export function DivergenceAlert() {
               <Button
                 variant="outline"
                 onClick={() =>
-                  respond.mutate({ tagId: alert.tagId, action: "keep" })
+                  respond.mutate({ promptId, action: "keep" })
                 }
                 disabled={respond.isPending}
               >
@@ -124,7 +212,7 @@ export function DivergenceAlert() {
               <Button
                 variant="destructive"
                 onClick={() =>
-                  respond.mutate({ tagId: alert.tagId, action: "remove_skill" })
+                  respond.mutate({ promptId, action: "remove_skill" })
                 }
                 disabled={respond.isPending}
               >
@@ -133,7 +221,18 @@ export function DivergenceAlert() {
             </>
           )}
         </DialogFooter>
+
+        {laterButtons(alert.tagName)}
       </DialogContent>
     </Dialog>
   );
 }
+
+const formatPrice = (price: number) => `$${price.toLocaleString()}`;
+
+const RESPONSE_TOASTS: Partial<Record<string, string>> = {
+  snooze: "We'll ask again later",
+  never: "We won't ask about this again",
+  keep: "Got it, nothing changed",
+  dismiss: "Got it, nothing changed",
+};
@@ -0,0 +1,100 @@
+import { useEffect, useRef } from "react";
+
+// Sent with sendBeacon so it survives navigation and tab close
+const DWELL_ENDPOINT = "/api/trpc/recommendation.recordDwell";
+
+// Shorter visits aren't reported
+const MIN_DWELL_MS = 1000;
+
+// Share of the element that must be on screen to count as visible
+const VISIBLE_THRESHOLD = 0.3;
+
+/**
+ * Measure how long an element stays visible (on screen, in a visible tab)
+ * while `active`, and report it for the bounty when the user leaves:
+ * deactivation, unmount, tab hidden or page unload.
+ *
+ * Attach the returned ref to the element to measure.
+ */
+export function useDwellTime<T extends HTMLElement>(bountyId: number, active: boolean) {
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!active || !element) return;
+
+    let onScreen = false;
+    let visibleSince: number | null = null;
+    let totalMs = 0;
+
+    // Start or stop the clock to match the current visibility
+    const update = () => {
+      const visible = onScreen && document.visibilityState === "visible";
+      if (visible && visibleSince === null) {
+        visibleSince = performance.now();
+      } else if (!visible && visibleSince !== null) {
+        totalMs += performance.now() - visibleSince;
+        visibleSince = null;
+      }
+    };
+
+    const flush = () => {
+      if (visibleSince !== null) {
+        const now = performance.now();
+        totalMs += now - visibleSince;
+        visibleSince = now;
+      }
+      if (totalMs >= MIN_DWELL_MS) {
+        sendDwell(bountyId, Math.round(totalMs / 1000));
+      }
+      totalMs = 0;
+    };
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        onScreen = entry?.isIntersecting ?? false;
+        update();
+      },
+      { threshold: VISIBLE_THRESHOLD }
+    );
+    observer.observe(element);
+
+    const onVisibilityChange = () => {
+      update();
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    window.addEventListener("pagehide", flush);
+
+    return () => {
+      observer.disconnect();
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("pagehide", flush);
+      onScreen = false;
+      update();
+      flush();
+    };
+  }, [bountyId, active]);
+
+  return ref;
+}
+
+/**
+ * Post dwell seconds to the tRPC mutation directly (a single, unbatched
+ * call), falling back to a keepalive fetch where sendBeacon is unavailable
+ */
+function sendDwell(bountyId: number, seconds: number) {
+  const body = JSON.stringify({ bountyId, seconds });
+
+  if (navigator.sendBeacon?.(DWELL_ENDPOINT, new Blob([body], { type: "application/json" }))) {
+    return;
+  }
+
+  void fetch(DWELL_ENDPOINT, {
+    method: "POST",
+    body,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    keepalive: true,
+  });
+}
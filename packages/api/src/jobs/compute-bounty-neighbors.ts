@@ -0,0 +1,19 @@
+// Precompute item-item collaborative filtering neighbors
+//   --top-k <n>   Neighbors kept per bounty (default: 20)
+
+import { DEFAULT_NEIGHBOR_TOP_K } from "../services/collaborative";
+import { recomputeBountyNeighbors } from "../services/collaborative-store";
+import { getNumberArg, type Job } from "./job";
+
+export const computeBountyNeighborsJob: Job = {
+  name: "bounty-neighbors",
+  description: "Recompute item-item neighbors from co-interaction",
+  intervalMinutes: 6 * 60,
+  run: async (args) => {
+    const topK = Math.round(getNumberArg(args, "top-k", DEFAULT_NEIGHBOR_TOP_K));
+
+    const result = await recomputeBountyNeighbors({ topK });
+
+    return `${result.bounties} bounties, ${result.pairs} neighbor pairs (top ${topK})`;
+  },
+};
@@ -0,0 +1,14 @@
+// Move open bounties past their expiresAt to "expired"
+
+import { expireStaleBounties } from "../services/bounty";
+import type { Job } from "./job";
+
+export const expireBountiesJob: Job = {
+  name: "expire-bounties",
+  description: "Mark open bounties past expiresAt as expired",
+  intervalMinutes: 15,
+  run: async () => {
+    const expired = await expireStaleBounties();
+    return `${expired.length} bounties expired`;
+  },
+};
@@ -0,0 +1,99 @@
+// Background job runner
+//
+// Usage: bun run src/jobs/index.ts [job ...] [options]
+//   (no job names)   Run every job once
+//   --watch          Keep running, each job on its own interval
+//   --list           List jobs and exit
+//
+// Job options are passed through, e.g. --half-life-days 60, --window-days 14 or --dimensions 24
+
+import type { Job } from "./job";
+import { expireBountiesJob } from "./expire-bounties";
+import { recomputeEngagementJob } from "./recompute-engagement";
+import { recomputeTagScoresJob } from "./recompute-tag-scores";
+import { trainTagEmbeddingsJob } from "./train-tag-embeddings";
+import { computeBountyNeighborsJob } from "./compute-bounty-neighbors";
+import { refreshScoreCachesJob } from "./refresh-score-caches";
+import { pruneFeedSnapshotsJob } from "./prune-feed-snapshots";
+
+// Expiry runs first so engagement and tag scores see up-to-date statuses;
+// score caches refresh last so they pick up the rest
+const JOBS: Job[] = [
+  expireBountiesJob,
+  recomputeEngagementJob,
+  recomputeTagScoresJob,
+  trainTagEmbeddingsJob,
+  computeBountyNeighborsJob,
+  refreshScoreCachesJob,
+  pruneFeedSnapshotsJob,
+];
+
+const args = process.argv.slice(2);
+const watch = args.includes("--watch");
+
+// Job names are the leading args before any --flag
+const firstFlag = args.findIndex((arg) => arg.startsWith("--"));
+const names = firstFlag === -1 ? args : args.slice(0, firstFlag);
+
+if (args.includes("--list")) {
+  for (const job of JOBS) {
+    console.log(`${job.name.padEnd(18)} every ${job.intervalMinutes}m  ${job.description}`);
+  }
+  process.exit(0);
+}
+
+const unknown = names.filter((name) => !JOBS.some((job) => job.name === name));
+if (unknown.length > 0) {
+  console.error(`Unknown job(s): ${unknown.join(", ")}. Use --list to see available jobs.`);
+  process.exit(1);
+}
+
+const selected = names.length > 0 ? JOBS.filter((job) => names.includes(job.name)) : JOBS;
+
+/**
+ * Run a job, logging its summary and duration. Returns false on failure.
+ */
+async function runJob(job: Job): Promise<boolean> {
+  const start = Date.now();
+  console.log(`[${new Date().toISOString()}] ${job.name}: starting`);
+
+  try {
+    const summary = await job.run(args);
+    console.log(`[${new Date().toISOString()}] ${job.name}: ${summary} (${Date.now() - start}ms)`);
+    return true;
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] ${job.name}: failed`, error);
+    return false;
+  }
+}
+
+/**
+ * Run each job now, then again every intervalMinutes. A job never overlaps
+ * with itself: the next run is scheduled after the previous one finishes.
+ */
+function schedule(job: Job): void {
+  const loop = async () => {
+    await runJob(job);
+    setTimeout(loop, job.intervalMinutes * 60 * 1000);
+  };
+  void loop();
+}
+
+async function main(): Promise<void> {
+  if (watch) {
+    console.log(`Watching ${selected.length} job(s): ${selected.map((j) => j.name).join(", ")}`);
+    for (const job of selected) {
+      schedule(job);
+    }
+    return;
+  }
+
+  let failed = 0;
+  for (const job of selected) {
+    if (!(await runJob(job))) failed++;
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
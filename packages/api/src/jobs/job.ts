@@ -0,0 +1,24 @@
+/**
+ * Background job definition shared by the job runner (see index.ts)
+ */
+
+export interface Job {
+  name: string;
+  description: string;
+  intervalMinutes: number; // How often the runner schedules it in --watch mode
+  run: (args: string[]) => Promise<string>; // Returns a one-line summary
+}
+
+/**
+ * Read a numeric `--flag <value>` from job args
+ */
+export function getNumberArg(args: string[], name: string, fallback: number): number {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+
+  const value = Number(args[index + 1]);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid --${name}: ${args[index + 1]}`);
+  }
+  return value;
+}
@@ -0,0 +1,14 @@
+// Delete expired feed snapshots (see feed-snapshot.ts)
+
+import { pruneFeedSnapshots } from "../services/feed-snapshot";
+import type { Job } from "./job";
+
+export const pruneFeedSnapshotsJob: Job = {
+  name: "prune-snapshots",
+  description: "Delete expired feed snapshots",
+  intervalMinutes: 30,
+  run: async () => {
+    const deleted = await pruneFeedSnapshots();
+    return `${deleted} snapshots deleted`;
+  },
+};
@@ -0,0 +1,17 @@
+// Recompute bounty engagement scores from counters and recent velocity
+//   --window-days <n>   Recent activity window for velocity (default: 7)
+
+import { ENGAGEMENT_VELOCITY_WINDOW_DAYS } from "@algorithim-test/db/engagement";
+import { recomputeAllBountyEngagement } from "../services/bounty";
+import { getNumberArg, type Job } from "./job";
+
+export const recomputeEngagementJob: Job = {
+  name: "engagement",
+  description: "Recompute bounty engagement scores with time-windowed velocity",
+  intervalMinutes: 60,
+  run: async (args) => {
+    const windowDays = getNumberArg(args, "window-days", ENGAGEMENT_VELOCITY_WINDOW_DAYS);
+    const result = await recomputeAllBountyEngagement({ windowDays });
+    return `${result.updated} of ${result.bounties} bounties updated (${windowDays}-day window)`;
+  },
+};
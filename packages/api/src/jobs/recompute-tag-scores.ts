@@ -0,0 +1,36 @@
+// Recompute time-decayed implicit tag scores for all users, then check
+// every onboarded user for divergence
+//   --half-life-days <n>   Days for an interaction's weight to halve (default: 90)
+
+import { recomputeAllTagScores } from "../services/behavior";
+import { TAG_SCORE_HALF_LIFE_DAYS } from "../services/tag-blend";
+import { checkAllDivergence } from "../services/divergence";
+import { getNumberArg, type Job } from "./job";
+
+export const recomputeTagScoresJob: Job = {
+  name: "decay-tags",
+  description: "Recompute time-decayed implicit tag scores and divergence prompts",
+  intervalMinutes: 24 * 60,
+  run: async (args) => {
+    const halfLifeDays = getNumberArg(args, "half-life-days", TAG_SCORE_HALF_LIFE_DAYS);
+
+    const result = await recomputeAllTagScores({
+      halfLifeDays,
+      onProgress: (done, total) => {
+        if (done % 50 === 0 || done === total) {
+          console.log(`  ${done}/${total} users`);
+        }
+      },
+    });
+
+    const divergence = await checkAllDivergence({
+      onProgress: (done, total) => {
+        if (done % 50 === 0 || done === total) {
+          console.log(`  ${done}/${total} users checked for divergence`);
+        }
+      },
+    });
+
+    return `${result.users} users, ${result.tags} tags (half-life ${halfLifeDays} days); ${divergence.open} open divergence prompts`;
+  },
+};
@@ -0,0 +1,18 @@
+// Refresh per-user score caches flagged stale by tag/profile/onboarding/behavior changes
+//   --limit <n>   Caches refreshed per run (default: 200)
+
+import { refreshStaleScoreCaches } from "../services/score-cache";
+import { getNumberArg, type Job } from "./job";
+
+export const refreshScoreCachesJob: Job = {
+  name: "score-caches",
+  description: "Refresh stale per-user score caches",
+  intervalMinutes: 15,
+  run: async (args) => {
+    const limit = Math.round(getNumberArg(args, "limit", 200));
+
+    const result = await refreshStaleScoreCaches(limit);
+
+    return `${result.refreshed} caches refreshed, ${result.failed} failed`;
+  },
+};
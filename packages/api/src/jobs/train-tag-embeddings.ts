@@ -0,0 +1,19 @@
+// Retrain learned tag embeddings from bounty tags and interactions
+//   --dimensions <n>   Vector size (default: 16)
+
+import { DEFAULT_EMBEDDING_DIMENSIONS } from "../services/embedding";
+import { retrainTagEmbeddings } from "../services/embedding-store";
+import { getNumberArg, type Job } from "./job";
+
+export const trainTagEmbeddingsJob: Job = {
+  name: "embed-tags",
+  description: "Retrain tag embeddings (PMI + SVD over tag co-occurrence)",
+  intervalMinutes: 24 * 60,
+  run: async (args) => {
+    const dimensions = Math.round(getNumberArg(args, "dimensions", DEFAULT_EMBEDDING_DIMENSIONS));
+
+    const result = await retrainTagEmbeddings({ dimensions });
+
+    return `${result.tags} tags embedded (${result.dimensions} dimensions)`;
+  },
+};
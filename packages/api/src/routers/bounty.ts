@@ -0,0 +1,453 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq, and, desc, or, sql } from "drizzle-orm";
+import { router, protectedProcedure } from "../index";
+import { db } from "@algorithim-test/db";
+import { bounty, bountySubmission, bountyTag } from "@algorithim-test/db/schema/bounty";
+import { tag } from "@algorithim-test/db/schema/tag";
+import { isExpired } from "../services/freshness";
+import {
+  acceptSubmission,
+  recordBountyInteraction,
+  tierForPrice,
+  transitionBounty,
+  transitionSubmission,
+} from "../services/bounty";
+
+const bountyTagsSchema = z
+  .array(
+    z.object({
+      tagId: z.number(),
+      weight: z.number().min(0).max(1).default(1),
+    })
+  )
+  .min(1)
+  .max(10);
+
+const bountyTypeSchema = z.enum(["bug_fix", "feature", "full_project", "code_review", "docs"]);
+
+export const bountyRouter = router({
+  /**
+   * Get a single bounty with its tags
+   */
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      const existing = await findBounty(input.id);
+      const tags = await db
+        .select({ tagId: bountyTag.tagId, name: tag.name, weight: bountyTag.weight })
+        .from(bountyTag)
+        .innerJoin(tag, eq(bountyTag.tagId, tag.id))
+        .where(eq(bountyTag.bountyId, input.id));
+
+      return { ...existing, tags };
+    }),
+
+  /**
+   * List bounties the current user created or claimed
+   */
+  listMine: protectedProcedure
+    .input(
+      z
+        .object({
+          role: z.enum(["creator", "hunter", "any"]).default("any"),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const role = input?.role ?? "any";
+
+      return db
+        .select()
+        .from(bounty)
+        .where(
+          role === "creator"
+            ? eq(bounty.creatorId, userId)
+            : role === "hunter"
+              ? eq(bounty.claimedById, userId)
+              : or(eq(bounty.creatorId, userId), eq(bounty.claimedById, userId))
+        )
+        .orderBy(desc(bounty.updatedAt));
+    }),
+
+  // ============ CREATOR ============
+
+  /**
+   * Create a bounty (tier is derived from price) with its tags, in one
+   * transaction so a bad tag doesn't leave an untagged bounty behind
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        title: z.string().min(1).max(200),
+        description: z.string().min(1),
+        price: z.number().int().positive(),
+        type: bountyTypeSchema.default("feature"),
+        expiresAt: z.coerce.date().optional(),
+        tags: bountyTagsSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        throw new Error("Expiry must be in the future");
+      }
+
+      return db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(bounty)
+          .values({
+            title: input.title,
+            description: input.description,
+            price: input.price,
+            tier: tierForPrice(input.price),
+            type: input.type,
+            creatorId: ctx.session.user.id,
+            expiresAt: input.expiresAt ?? null,
+          })
+          .returning();
+
+        if (!created) {
+          throw new Error("Failed to create bounty");
+        }
+
+        await tx.insert(bountyTag).values(
+          input.tags.map((t) => ({ bountyId: created.id, tagId: t.tagId, weight: t.weight }))
+        );
+
+        return created;
+      });
+    }),
+
+  /**
+   * Edit an open or expired bounty.
+   * Moving expiresAt into the future reopens an expired bounty.
+   * Fields and tags change together in one transaction.
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        title: z.string().min(1).max(200).optional(),
+        description: z.string().min(1).optional(),
+        price: z.number().int().positive().optional(),
+        type: bountyTypeSchema.optional(),
+        expiresAt: z.coerce.date().nullable().optional(),
+        tags: bountyTagsSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findOwnBounty(input.id, ctx.session.user.id);
+
+      if (existing.status !== "open" && existing.status !== "expired") {
+        throw new Error(`Cannot edit a ${existing.status} bounty`);
+      }
+
+      const changes = {
+        ...(input.title !== undefined && { title: input.title }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.price !== undefined && { price: input.price, tier: tierForPrice(input.price) }),
+        ...(input.type !== undefined && { type: input.type }),
+        ...(input.expiresAt !== undefined && { expiresAt: input.expiresAt }),
+        listedAt: new Date(), // Cached user scores pick up the edit
+      };
+
+      const expiresAt = input.expiresAt !== undefined ? input.expiresAt : existing.expiresAt;
+      const stillExpired = isExpired({ status: "open", expiresAt });
+
+      if (existing.status === "open" && stillExpired) {
+        throw new Error("Expiry must be in the future");
+      }
+
+      return db.transaction(async (tx) => {
+        let updated;
+        if (existing.status === "expired" && !stillExpired) {
+          updated = await transitionBounty(existing.id, "expired", "open", changes, tx);
+        } else {
+          [updated] = await tx
+            .update(bounty)
+            .set(changes)
+            .where(and(eq(bounty.id, existing.id), eq(bounty.status, existing.status)))
+            .returning();
+          if (!updated) {
+            throw new Error("Bounty was modified by someone else, please retry");
+          }
+        }
+
+        if (input.tags) {
+          await tx.delete(bountyTag).where(eq(bountyTag.bountyId, existing.id));
+          await tx.insert(bountyTag).values(
+            input.tags.map((t) => ({ bountyId: existing.id, tagId: t.tagId, weight: t.weight }))
+          );
+          // Re-list so cache syncs that ran mid-edit rescore with the new tags
+          await tx.update(bounty).set({ listedAt: new Date() }).where(eq(bounty.id, existing.id));
+        }
+
+        return updated;
+      });
+    }),
+
+  /**
+   * Close an open or claimed bounty without completing it
+   */
+  close: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findOwnBounty(input.id, ctx.session.user.id);
+      return transitionBounty(existing.id, existing.status, "closed");
+    }),
+
+  /**
+   * Creator marks their claimed bounty as completed, crediting the hunter,
+   * without going through a submission (see reviewSubmission for the usual path).
+   * The transition and the hunter's "complete" signal commit together.
+   */
+  complete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findOwnBounty(input.id, ctx.session.user.id);
+
+      if (existing.status !== "claimed") {
+        throw new Error("Only claimed bounties can be completed directly; accept a submission instead");
+      }
+
+      return db.transaction(async (tx) => {
+        const updated = await transitionBounty(
+          existing.id,
+          existing.status,
+          "completed",
+          { completedAt: new Date() },
+          tx
+        );
+
+        // Completion is the strongest behavior signal, credited to the hunter
+        if (existing.claimedById) {
+          await recordBountyInteraction(existing.claimedById, existing.id, "complete", tx);
+        }
+
+        return updated;
+      });
+    }),
+
+  // ============ HUNTER ============
+
+  /**
+   * Claim an open bounty
+   */
+  claim: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findBounty(input.id);
+
+      if (existing.creatorId === userId) {
+        throw new Error("You can't claim your own bounty");
+      }
+      if (isExpired(existing)) {
+        throw new Error("Bounty has expired");
+      }
+
+      const updated = await transitionBounty(existing.id, existing.status, "claimed", {
+        claimedById: userId,
+      });
+
+      await recordBountyInteraction(userId, existing.id, "claim");
+
+      return updated;
+    }),
+
+  /**
+   * Give up a claim, reopening the bounty
+   */
+  unclaim: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findBounty(input.id);
+
+      if (existing.claimedById !== ctx.session.user.id) {
+        throw new Error("You haven't claimed this bounty");
+      }
+
+      return transitionBounty(existing.id, existing.status, "open", { claimedById: null });
+    }),
+
+  /**
+   * Submit work for a bounty. Open bounties accept submissions from anyone;
+   * claimed bounties only from their hunter. One pending submission per
+   * hunter and bounty (enforced by a partial unique index, so concurrent
+   * submits can't both get in).
+   */
+  submit: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        link: z.url().optional(),
+        description: z.string().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findBounty(input.id);
+
+      if (existing.creatorId === userId) {
+        throw new Error("You can't submit to your own bounty");
+      }
+      if (existing.status === "claimed" && existing.claimedById !== userId) {
+        throw new Error("This bounty is claimed by someone else");
+      }
+      if (existing.status !== "open" && existing.status !== "claimed") {
+        throw new Error(`Cannot submit to a ${existing.status} bounty`);
+      }
+      if (isExpired(existing)) {
+        throw new Error("Bounty has expired");
+      }
+
+      return db.transaction(async (tx) => {
+        const [submission] = await tx
+          .insert(bountySubmission)
+          .values({
+            bountyId: existing.id,
+            submitterId: userId,
+            link: input.link ?? null,
+            description: input.description,
+          })
+          .onConflictDoNothing({
+            target: [bountySubmission.bountyId, bountySubmission.submitterId],
+            where: sql`${bountySubmission.status} = 'pending'`,
+          })
+          .returning();
+
+        if (!submission) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "You already have a pending submission for this bounty",
+          });
+        }
+
+        await recordBountyInteraction(userId, existing.id, "submit", tx);
+
+        return submission;
+      });
+    }),
+
+  /**
+   * Withdraw one of your pending submissions
+   */
+  withdrawSubmission: protectedProcedure
+    .input(z.object({ submissionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const submission = await findSubmission(input.submissionId);
+
+      if (submission.submitterId !== ctx.session.user.id) {
+        throw new Error("You can only withdraw your own submissions");
+      }
+
+      return transitionSubmission(submission.id, submission.status, "withdrawn");
+    }),
+
+  /**
+   * List the current user's submissions across bounties
+   */
+  listMySubmissions: protectedProcedure.query(async ({ ctx }) => {
+    return db
+      .select({
+        submission: bountySubmission,
+        bounty: { id: bounty.id, title: bounty.title, status: bounty.status },
+      })
+      .from(bountySubmission)
+      .innerJoin(bounty, eq(bountySubmission.bountyId, bounty.id))
+      .where(eq(bountySubmission.submitterId, ctx.session.user.id))
+      .orderBy(desc(bountySubmission.createdAt));
+  }),
+
+  // ============ REVIEW ============
+
+  /**
+   * List submissions for a bounty (creator only)
+   */
+  listSubmissions: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const existing = await findOwnBounty(input.id, ctx.session.user.id);
+
+      return db
+        .select()
+        .from(bountySubmission)
+        .where(eq(bountySubmission.bountyId, existing.id))
+        .orderBy(desc(bountySubmission.createdAt));
+    }),
+
+  /**
+   * Accept or reject a pending submission (creator only).
+   * Accepting completes the bounty with the submitter as the winner.
+   */
+  reviewSubmission: protectedProcedure
+    .input(
+      z.object({
+        submissionId: z.number(),
+        decision: z.enum(["accept", "reject"]),
+        notes: z.string().max(2000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const submission = await findSubmission(input.submissionId);
+      const existing = await findOwnBounty(submission.bountyId, userId);
+
+      if (input.decision === "reject") {
+        return {
+          bounty: existing,
+          submission: await transitionSubmission(submission.id, submission.status, "rejected", {
+            reviewerNotes: input.notes ?? null,
+            reviewedById: userId,
+            reviewedAt: new Date(),
+          }),
+        };
+      }
+
+      if (submission.status !== "pending") {
+        throw new Error(`Cannot accept a ${submission.status} submission`);
+      }
+
+      return acceptSubmission(submission, existing.status, userId, input.notes);
+    }),
+});
+
+// ============ HELPER FUNCTIONS ============
+
+async function findBounty(id: number) {
+  const existing = await db.query.bounty.findFirst({
+    where: eq(bounty.id, id),
+  });
+
+  if (!existing) {
+    throw new Error("Bounty not found");
+  }
+
+  return existing;
+}
+
+/**
+ * Find a bounty and check the user created it
+ */
+async function findOwnBounty(id: number, userId: string) {
+  const existing = await findBounty(id);
+
+  if (existing.creatorId !== userId) {
+    throw new Error("Only the bounty creator can do this");
+  }
+
+  return existing;
+}
+
+async function findSubmission(id: number) {
+  const existing = await db.query.bountySubmission.findFirst({
+    where: eq(bountySubmission.id, id),
+  });
+
+  if (!existing) {
+    throw new Error("Submission not found");
+  }
+
+  return existing;
+}
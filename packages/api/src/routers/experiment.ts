@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { eq, desc, sql } from "drizzle-orm";
+import { router, protectedProcedure, adminProcedure } from "../index";
+import { db } from "@algorithim-test/db";
+import {
+  experiment,
+  experimentAssignment,
+} from "@algorithim-test/db/schema/experiment";
+import {
+  getExperimentAssignment,
+  validateVariants,
+} from "../services/experiment";
+
+const weightsSchema = z.object({
+  relevance: z.number().min(0).max(1),
+  social: z.number().min(0).max(1),
+  price: z.number().min(0).max(1),
+  engagement: z.number().min(0).max(1),
+  freshness: z.number().min(0).max(1).optional(),
+  preference: z.number().min(0).max(1).optional(),
+  collaborative: z.number().min(0).max(1).optional(),
+});
+
+const variantSchema = z.object({
+  // Weighted variants resolve as "<key>/<variant id>" (see loadScoringStrategy)
+  id: z.string().min(1).max(50).regex(/^[^/]+$/, "Variant ids can't contain a slash"),
+  allocation: z.number().min(0),
+  strategyId: z.string().min(1),
+  weights: weightsSchema.optional(),
+});
+
+export const experimentRouter = router({
+  /**
+   * List all experiments with assignment counts per variant
+   */
+  list: protectedProcedure.query(async () => {
+    const experiments = await db
+      .select()
+      .from(experiment)
+      .orderBy(desc(experiment.createdAt));
+
+    const counts = await db
+      .select({
+        experimentId: experimentAssignment.experimentId,
+        variantId: experimentAssignment.variantId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(experimentAssignment)
+      .groupBy(experimentAssignment.experimentId, experimentAssignment.variantId);
+
+    return experiments.map((e) => ({
+      ...e,
+      assignments: Object.fromEntries(
+        counts
+          .filter((c) => c.experimentId === e.id)
+          .map((c) => [c.variantId, c.count])
+      ),
+    }));
+  }),
+
+  /**
+   * Create a new experiment (starts as a draft unless start=true)
+   */
+  create: adminProcedure
+    .input(
+      z.object({
+        key: z.string().min(1).max(100).regex(/^[a-z0-9-_]+$/),
+        name: z.string().min(1),
+        description: z.string().optional(),
+        variants: z.array(variantSchema),
+        start: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const error = validateVariants(input.variants);
+      if (error) {
+        throw new Error(error);
+      }
+
+      const result = await db
+        .insert(experiment)
+        .values({
+          key: input.key,
+          name: input.name,
+          description: input.description,
+          variants: input.variants,
+          status: input.start ? "running" : "draft",
+          startedAt: input.start ? new Date() : null,
+          createdById: ctx.session.user.id,
+        })
+        .returning();
+
+      const created = result[0];
+      if (!created) {
+        throw new Error("Failed to create experiment");
+      }
+
+      return created;
+    }),
+
+  /**
+   * Start or resume an experiment
+   */
+  start: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const existing = await findExperiment(input.id);
+
+      if (existing.status === "concluded") {
+        throw new Error("Concluded experiments cannot be restarted");
+      }
+
+      await db
+        .update(experiment)
+        .set({
+          status: "running",
+          startedAt: existing.startedAt ?? new Date(),
+        })
+        .where(eq(experiment.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Pause a running experiment (users fall back to the default strategy,
+   * assignments are kept for when it resumes)
+   */
+  pause: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const existing = await findExperiment(input.id);
+
+      if (existing.status !== "running") {
+        throw new Error("Only running experiments can be paused");
+      }
+
+      await db
+        .update(experiment)
+        .set({ status: "paused" })
+        .where(eq(experiment.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Conclude an experiment, optionally recording the winning variant
+   */
+  conclude: adminProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        winnerVariantId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const existing = await findExperiment(input.id);
+
+      if (existing.status === "concluded") {
+        throw new Error("Experiment is already concluded");
+      }
+
+      if (
+        input.winnerVariantId &&
+        !existing.variants.some((v) => v.id === input.winnerVariantId)
+      ) {
+        throw new Error(`Unknown variant: ${input.winnerVariantId}`);
+      }
+
+      await db
+        .update(experiment)
+        .set({
+          status: "concluded",
+          concludedAt: new Date(),
+          winnerVariantId: input.winnerVariantId ?? null,
+        })
+        .where(eq(experiment.id, input.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * Get the current user's assignment in the active experiment
+   */
+  getMyAssignment: protectedProcedure.query(async ({ ctx }) => {
+    return getExperimentAssignment(ctx.session.user.id);
+  }),
+});
+
+// ============ HELPER FUNCTIONS ============
+
+async function findExperiment(id: number) {
+  const existing = await db.query.experiment.findFirst({
+    where: eq(experiment.id, id),
+  });
+
+  if (!existing) {
+    throw new Error("Experiment not found");
+  }
+
+  return existing;
+}
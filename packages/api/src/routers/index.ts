@@ -2,6 +2,8 @@ import { protectedProcedure, publicProcedure, router } from "../index";
 import { todoRouter } from "./todo";
 import { recommendationRouter } from "./recommendation";
 import { onboardingRouter } from "./onboarding";
+import { experimentRouter } from "./experiment";
+import { bountyRouter } from "./bounty";
 
 export const appRouter = router({
   healthCheck: publicProcedure.query(() => {
@@ -16,5 +18,7 @@ export const appRouter = router({
   todo: todoRouter,
   recommendation: recommendationRouter,
   onboarding: onboardingRouter,
+  experiment: experimentRouter,
+  bounty: bountyRouter,
 });
 export type AppRouter = typeof appRouter;
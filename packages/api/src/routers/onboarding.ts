@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { eq } from "drizzle-orm";
+import { eq, and, ne, notInArray, sql } from "drizzle-orm";
 import { router, protectedProcedure } from "../index";
 import { db } from "@algorithim-test/db";
 import { tag } from "@algorithim-test/db/schema/tag";
@@ -9,6 +9,8 @@ import {
   userBlendConfig,
   userBehaviorPrice,
 } from "@algorithim-test/db/schema/onboarding";
+import { applyTechStackTags, TECH_STACK_TAG_SOURCE } from "../services/tech-stack";
+import { markScoreCacheStale } from "../services/score-cache";
 
 export const onboardingRouter = router({
   /**
@@ -107,19 +109,36 @@ export const onboardingRouter = router({
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
-      // Delete existing user tags from onboarding
-      await db.delete(userTag).where(eq(userTag.userId, userId));
+      // Delete existing user tags this step no longer scores, keeping
+      // stack-derived ones (step 3)
+      const skillTagIds = input.skills.map((s) => s.tagId);
+      await db
+        .delete(userTag)
+        .where(
+          and(
+            eq(userTag.userId, userId),
+            ne(userTag.source, TECH_STACK_TAG_SOURCE),
+            skillTagIds.length > 0 ? notInArray(userTag.tagId, skillTagIds) : undefined
+          )
+        );
 
-      // Insert new tags
+      // Upsert the skills (taking over stack-derived ones), so kept tags
+      // keep their createdAt
       if (input.skills.length > 0) {
-        await db.insert(userTag).values(
-          input.skills.map((s) => ({
-            userId,
-            tagId: s.tagId,
-            score: s.score,
-            source: "onboarding" as const,
-          }))
-        );
+        await db
+          .insert(userTag)
+          .values(
+            input.skills.map((s) => ({
+              userId,
+              tagId: s.tagId,
+              score: s.score,
+              source: "onboarding" as const,
+            }))
+          )
+          .onConflictDoUpdate({
+            target: [userTag.userId, userTag.tagId],
+            set: { score: sql`excluded.score`, source: sql`excluded.source` },
+          });
       }
 
       // Update onboarding step
@@ -128,6 +147,8 @@ export const onboardingRouter = router({
         .set({ currentStep: 2 })
         .where(eq(userOnboarding.userId, userId));
 
+      await markScoreCacheStale(userId, "onboarding");
+
       return { success: true, nextStep: 2 };
     }),
 
@@ -155,11 +176,14 @@ export const onboardingRouter = router({
         })
         .where(eq(userOnboarding.userId, userId));
 
+      await markScoreCacheStale(userId, "onboarding");
+
       return { success: true, nextStep: 3 };
     }),
 
   /**
    * Save Step 3: Tech Stack
+   * Also maps the stack onto tags (see services/tech-stack.ts)
    */
   saveTechStack: protectedProcedure
     .input(
@@ -183,7 +207,10 @@ export const onboardingRouter = router({
         })
         .where(eq(userOnboarding.userId, userId));
 
-      return { success: true, nextStep: 4 };
+      const stackTags = await applyTechStackTags(userId, input.techStack);
+      await markScoreCacheStale(userId, "onboarding");
+
+      return { success: true, nextStep: 4, stackTags };
     }),
 
   /**
@@ -213,14 +240,7 @@ export const onboardingRouter = router({
         })
         .where(eq(userOnboarding.userId, userId));
 
-      // Store explicit price preferences for divergence detection
-      await db
-        .update(userBehaviorPrice)
-        .set({
-          lastExplicitMin: input.priceRangeMin,
-          lastExplicitMax: input.priceRangeMax,
-        })
-        .where(eq(userBehaviorPrice.userId, userId));
+      await markScoreCacheStale(userId, "onboarding");
 
       return { success: true, completed: true };
     }),
@@ -1,26 +1,70 @@
 import { z } from "zod";
-import { eq, and, inArray, desc, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { eq, and, inArray, notInArray, sql } from "drizzle-orm";
 import { router, protectedProcedure } from "../index";
 import { db } from "@algorithim-test/db";
-import { bounty, bountyTag, bountyView, bountyInteraction } from "@algorithim-test/db/schema/bounty";
+import { bountyTag } from "@algorithim-test/db/schema/bounty";
 import { tag } from "@algorithim-test/db/schema/tag";
-import { userProfile, userTag, mutual } from "@algorithim-test/db/schema/user-profile";
+import { accessTierChange, userProfile, userTag } from "@algorithim-test/db/schema/user-profile";
+import { userOnboarding } from "@algorithim-test/db/schema/onboarding";
 import { recommendationLog } from "@algorithim-test/db/schema/recommendation";
 import {
-  getRecommendations,
-  scoreAllBounties,
+  pickRecommendations,
   getTagMatchDetails,
-  type BountyData,
-  type MutualConnection,
+  type UserTagScore,
 } from "../services/recommendation";
 import {
-  trackBehavior,
-  getBlendedTagScores,
+  hasScoringStrategy,
+  listScoringStrategies,
+} from "../services/scoring";
+import { getExperimentAssignment, loadScoringStrategy } from "../services/experiment";
+import { rerankWithMMR, type RerankedBounty } from "../services/diversity";
+import type { TagGraph } from "../services/tag-graph";
+import { parseSearchQuery, DEFAULT_TEXT_WEIGHT } from "../services/search-query";
+import { searchBounties } from "../services/search";
+import {
+  ensureScoreCache,
+  readCachedScores,
+  countCachedScores,
+  markScoreCacheStale,
+  getMutualsThreeLayers,
+  loadTagGraph,
+  type CachedScoreQuery,
+  type ScoreCacheStatus,
+} from "../services/score-cache";
+import {
+  createFeedSnapshot,
+  getFeedSnapshot,
+  readFeedPage,
+  FEED_SNAPSHOT_SIZE,
+  type FeedSnapshot,
+} from "../services/feed-snapshot";
+import { encodeFeedCursor, decodeFeedCursor } from "../services/feed-cursor";
+import { recordBountyInteraction } from "../services/bounty";
+import {
+  getTagDwell,
+  recordBountyDwell,
+  recordBountyView,
+  recordImpressions,
+  type TagDwell,
+} from "../services/bounty-views";
+import {
+  getRecommendationPerformance,
+  ATTRIBUTION_WINDOW_HOURS,
+} from "../services/attribution";
+import { getBlendedTagScores, getEngineTagScores } from "../services/behavior";
+import {
   getDivergenceAlerts,
-  clearDivergence,
-  markDivergencePromptShown,
-  type InteractionType,
-} from "../services/behavior";
+  resolveDivergencePrompt,
+  DEFAULT_SNOOZE_DAYS,
+} from "../services/divergence";
+
+// Top cached scores getRecommendations picks primary/secondary from
+const RECOMMENDATION_POOL_SIZE = 50;
+
+const strategyIdSchema = z
+  .string()
+  .refine(hasScoringStrategy, { message: "Unknown scoring strategy" });
 
 export const recommendationRouter = router({
   /**
@@ -29,202 +73,208 @@ export const recommendationRouter = router({
    *   - primary: High relevance bounty matching user's skills
    *   - secondary: "Stretch" bounty to expand skills
    */
-  getRecommendations: protectedProcedure.query(async ({ ctx }) => {
-    const userId = ctx.session.user.id;
-
-    // 1. Fetch user profile
-    const profile = await db.query.userProfile.findFirst({
-      where: eq(userProfile.userId, userId),
-    });
-
-    if (!profile) {
-      throw new Error("User profile not found. Please complete your profile setup.");
-    }
-
-    // 2. Fetch user tags with tag names
-    const userTagsWithNames = await db
-      .select({
-        tagId: userTag.tagId,
-        tagName: tag.name,
-        score: userTag.score,
-      })
-      .from(userTag)
-      .innerJoin(tag, eq(userTag.tagId, tag.id))
-      .where(eq(userTag.userId, userId));
-
-    // 3. Fetch mutuals (layers 1-3)
-    const userMutuals = await getMutualsThreeLayers(userId);
-
-    // 4. Fetch all open bounties
-    const allBounties = await db
-      .select()
-      .from(bounty)
-      .where(eq(bounty.status, "open"));
+  getRecommendations: protectedProcedure
+    .input(
+      z.object({
+        strategy: strategyIdSchema.optional(),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
 
-    if (allBounties.length === 0) {
-      throw new Error("No open bounties available");
-    }
+      // 1. Fetch user profile
+      const profile = await db.query.userProfile.findFirst({
+        where: eq(userProfile.userId, userId),
+      });
 
-    // 5. Fetch bounty tags
-    const allBountyTags = await db.select().from(bountyTag);
-    const bountyTagMap = new Map<number, { tagId: number; weight: number }[]>();
-    for (const bt of allBountyTags) {
-      if (!bountyTagMap.has(bt.bountyId)) {
-        bountyTagMap.set(bt.bountyId, []);
+      if (!profile) {
+        throw new Error("User profile not found. Please complete your profile setup.");
       }
-      bountyTagMap.get(bt.bountyId)!.push({ tagId: bt.tagId, weight: bt.weight });
-    }
 
-    // 6. Fetch mutual interactions
-    const mutualIds = userMutuals.map((m) => m.mutualId);
-    const mutualInteractions = new Map<string, number[]>();
-
-    if (mutualIds.length > 0) {
-      const mutualInteractionsRaw = await db
-        .select()
-        .from(bountyInteraction)
-        .where(inArray(bountyInteraction.userId, mutualIds));
-
-      for (const mi of mutualInteractionsRaw) {
-        if (!mutualInteractions.has(mi.userId)) {
-          mutualInteractions.set(mi.userId, []);
+      // 2. Resolve scoring strategy (explicit choice beats experiment assignment)
+      const assignment = input?.strategy ? null : await getExperimentAssignment(userId);
+      const strategy = await loadScoringStrategy(input?.strategy ?? assignment?.strategyId);
+
+      // 3. Bring the user's score cache up to date (full refresh or newly
+      // listed bounties only, see score-cache.ts)
+      const cache = await ensureScoreCache(userId, strategy.id);
+
+      // 4. Pick primary/secondary from the top of the cache (best relevant
+      // bounties, or the best of all when none is relevant)
+      const relevant = await readCachedScores(userId, strategy.id, { limit: RECOMMENDATION_POOL_SIZE });
+      const recommendations = pickRecommendations(
+        relevant.length > 0
+          ? relevant
+          : await readCachedScores(userId, strategy.id, { relevantOnly: false, limit: 2 }),
+        cache.candidateCount,
+        {
+          accessible: await countCachedScores(userId, strategy.id, { relevantOnly: false }),
+          relevant: await countCachedScores(userId, strategy.id),
         }
-        mutualInteractions.get(mi.userId)!.push(mi.bountyId);
-      }
-    }
-
-    // 7. Run recommendation algorithm
-    const bountyData: BountyData[] = allBounties.map((b) => ({
-      id: b.id,
-      title: b.title,
-      description: b.description,
-      price: b.price,
-      tier: b.tier,
-      status: b.status,
-      views: b.views,
-      submissions: b.submissions,
-      likes: b.likes,
-      engagementScore: b.engagementScore,
-      creatorId: b.creatorId,
-      claimedById: b.claimedById,
-      createdAt: b.createdAt,
-      updatedAt: b.updatedAt,
-      expiresAt: b.expiresAt,
-      completedAt: b.completedAt,
-    }));
+      );
 
-    const recommendations = getRecommendations(
-      {
+      // 5. Log recommendations for debugging/analytics
+      await db.insert(recommendationLog).values({
         userId,
-        userTags: userTagsWithNames,
-        userProfile: {
-          avgPriceViewed: profile.avgPriceViewed,
-          engagementScore: profile.engagementScore,
-          accessTier: profile.accessTier,
-        },
-        mutuals: userMutuals,
-      },
-      bountyData,
-      bountyTagMap,
-      mutualInteractions
-    );
-
-    // 8. Log recommendations for debugging/analytics
-    await db.insert(recommendationLog).values({
-      userId,
-      primaryBountyId: recommendations.primary.bounty.id,
-      secondaryBountyId: recommendations.secondary.bounty.id,
-      primaryScore: recommendations.primary.finalScore,
-      secondaryScore: recommendations.secondary.finalScore,
-      reasonPrimary: JSON.stringify({
-        relevance: recommendations.primary.relevanceScore,
-        social: recommendations.primary.socialBoost,
-        price: recommendations.primary.priceAffinity,
-      }),
-      reasonSecondary: JSON.stringify({
-        relevance: recommendations.secondary.relevanceScore,
-        social: recommendations.secondary.socialBoost,
-        price: recommendations.secondary.priceAffinity,
-      }),
-    });
-
-    // 9. Fetch tag names for bounties
-    const primaryTags = await getBountyTagNames(recommendations.primary.bounty.id);
-    const secondaryTags = await getBountyTagNames(recommendations.secondary.bounty.id);
-
-    return {
-      primary: {
-        ...recommendations.primary.bounty,
-        tags: primaryTags,
-        scores: {
+        primaryBountyId: recommendations.primary.bounty.id,
+        secondaryBountyId: recommendations.secondary.bounty.id,
+        primaryScore: recommendations.primary.finalScore,
+        secondaryScore: recommendations.secondary.finalScore,
+        reasonPrimary: JSON.stringify({
           relevance: recommendations.primary.relevanceScore,
           social: recommendations.primary.socialBoost,
           price: recommendations.primary.priceAffinity,
-          final: recommendations.primary.finalScore,
-        },
-      },
-      secondary: {
-        ...recommendations.secondary.bounty,
-        tags: secondaryTags,
-        scores: {
+          freshness: recommendations.primary.freshness,
+          preference: recommendations.primary.preference.score,
+          collaborative: recommendations.primary.collaborative.score,
+          strategy: recommendations.primary.strategyId,
+        }),
+        reasonSecondary: JSON.stringify({
           relevance: recommendations.secondary.relevanceScore,
           social: recommendations.secondary.socialBoost,
           price: recommendations.secondary.priceAffinity,
-          final: recommendations.secondary.finalScore,
+          freshness: recommendations.secondary.freshness,
+          preference: recommendations.secondary.preference.score,
+          collaborative: recommendations.secondary.collaborative.score,
+          strategy: recommendations.secondary.strategyId,
+        }),
+        strategyId: recommendations.primary.strategyId,
+        experimentId: assignment?.experimentId ?? null,
+        variantId: assignment?.variantId ?? null,
+      });
+
+      await recordImpressions(userId, [
+        recommendations.primary.bounty.id,
+        recommendations.secondary.bounty.id,
+      ]);
+
+      // 6. Fetch tag names for bounties
+      const primaryTags = await getBountyTagNames(recommendations.primary.bounty.id);
+      const secondaryTags = await getBountyTagNames(recommendations.secondary.bounty.id);
+
+      return {
+        primary: {
+          ...recommendations.primary.bounty,
+          tags: primaryTags,
+          scores: {
+            relevance: recommendations.primary.relevanceScore,
+            social: recommendations.primary.socialBoost,
+            price: recommendations.primary.priceAffinity,
+            freshness: recommendations.primary.freshness,
+            preference: recommendations.primary.preference.score,
+            collaborative: recommendations.primary.collaborative.score,
+            final: recommendations.primary.finalScore,
+          },
+          reason: recommendations.primary.collaborative.reason,
+          strategyId: recommendations.primary.strategyId,
         },
-      },
-      userProfile: {
-        accessTier: profile.accessTier,
-        avgPriceViewed: profile.avgPriceViewed,
-        engagementScore: profile.engagementScore,
-        platformScore: profile.platformScore,
-      },
-      debug: recommendations.debug,
-    };
+        secondary: {
+          ...recommendations.secondary.bounty,
+          tags: secondaryTags,
+          scores: {
+            relevance: recommendations.secondary.relevanceScore,
+            social: recommendations.secondary.socialBoost,
+            price: recommendations.secondary.priceAffinity,
+            freshness: recommendations.secondary.freshness,
+            preference: recommendations.secondary.preference.score,
+            collaborative: recommendations.secondary.collaborative.score,
+            final: recommendations.secondary.finalScore,
+          },
+          reason: recommendations.secondary.collaborative.reason,
+          strategyId: recommendations.secondary.strategyId,
+        },
+        userProfile: {
+          accessTier: profile.accessTier,
+          avgPriceViewed: profile.avgPriceViewed,
+          engagementScore: profile.engagementScore,
+          platformScore: profile.platformScore,
+        },
+        debug: recommendations.debug,
+        experiment: assignment
+          ? { key: assignment.experimentKey, variantId: assignment.variantId }
+          : null,
+      };
+    }),
+
+  /**
+   * Recommendation performance: CTR and conversion rates of logged
+   * impressions, broken down by slot, tier and score bucket. Scoped to the
+   * caller by default; platform-wide stats (scope "all") are admin only
+   */
+  getPerformance: protectedProcedure
+    .input(
+      z.object({
+        days: z.number().min(1).max(365).default(30),
+        windowHours: z.number().min(1).max(ATTRIBUTION_WINDOW_HOURS).default(ATTRIBUTION_WINDOW_HOURS),
+        scope: z.enum(["me", "all"]).default("me"),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const { days = 30, windowHours = ATTRIBUTION_WINDOW_HOURS, scope = "me" } = input || {};
+
+      if (scope === "all" && ctx.session.user.role !== "admin") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only admins can see platform-wide performance",
+        });
+      }
+
+      return getRecommendationPerformance({
+        since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+        windowHours,
+        userId: scope === "me" ? ctx.session.user.id : undefined,
+      });
+    }),
+
+  /**
+   * List the available scoring strategies
+   */
+  getScoringStrategies: protectedProcedure.query(() => {
+    return listScoringStrategies().map((s) => ({
+      id: s.id,
+      version: s.version,
+      label: s.label,
+      description: s.description,
+      weights: s.weights,
+    }));
   }),
 
   /**
    * Record a bounty view
-   * Updates the user's average price viewed (last 10 bounties)
+   * Deduplicated per user and bounty; bots and rapid-fire views are ignored
    */
   recordView: protectedProcedure
     .input(z.object({ bountyId: z.number() }))
     .mutation(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
-
-      // 1. Record the view
-      await db.insert(bountyView).values({
-        userId,
-        bountyId: input.bountyId,
-      });
-
-      // 2. Update avg price viewed (last 10)
-      const recentViews = await db
-        .select({ price: bounty.price })
-        .from(bountyView)
-        .innerJoin(bounty, eq(bountyView.bountyId, bounty.id))
-        .where(eq(bountyView.userId, userId))
-        .orderBy(desc(bountyView.viewedAt))
-        .limit(10);
-
-      if (recentViews.length > 0) {
-        const avgPrice =
-          recentViews.reduce((sum, v) => sum + v.price, 0) / recentViews.length;
-
-        await db
-          .update(userProfile)
-          .set({ avgPriceViewed: avgPrice })
-          .where(eq(userProfile.userId, userId));
-
-        return { avgPrice };
-      }
+      return recordBountyView(ctx.session.user.id, input.bountyId, ctx.userAgent);
+    }),
 
-      return { avgPrice: 0 };
+  /**
+   * Record dwell time (visible seconds) on a viewed bounty
+   * Sent by the client as a beacon when the user leaves the bounty
+   */
+  recordDwell: protectedProcedure
+    .input(
+      z.object({
+        bountyId: z.number(),
+        seconds: z.number().int().min(1).max(24 * 60 * 60),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const recorded = await recordBountyDwell(ctx.session.user.id, input.bountyId, input.seconds);
+      return { recorded };
     }),
 
   /**
-   * Record an interaction (like, submit, claim, complete)
-   * Updates user engagement score, bounty metrics, and behavior tracking
+   * Record a like. Queued for the interaction worker, so scores update
+   * shortly after.
+   *
+   * Older clients may still send the other types:
+   *   - "view" is passed on to recordView's deduplicated path (prefer
+   *     calling recordView)
+   *   - "claim", "submit" and "complete" are deprecated and rejected: they
+   *     change the bounty now, so use bounty.claim, bounty.submit and
+   *     bounty.complete / bounty.reviewSubmission instead
    */
   recordInteraction: protectedProcedure
     .input(
@@ -236,55 +286,21 @@ export const recommendationRouter = router({
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
-      // 1. Record interaction
-      await db.insert(bountyInteraction).values({
-        userId,
-        bountyId: input.bountyId,
-        type: input.type,
-      });
-
-      // 2. Track behavior for implicit profile (only for trackable types)
-      const trackableTypes: InteractionType[] = ["view", "like", "submit", "complete"];
-      if (trackableTypes.includes(input.type as InteractionType)) {
-        await trackBehavior(userId, input.bountyId, input.type as InteractionType);
+      if (input.type === "view") {
+        const view = await recordBountyView(userId, input.bountyId, ctx.userAgent);
+        return { success: view.counted, eventId: null };
       }
 
-      // 3. Update engagement score
-      const interactionCountResult = await db
-        .select({ count: sql<number>`count(*)::int` })
-        .from(bountyInteraction)
-        .where(eq(bountyInteraction.userId, userId));
-
-      const interactionCount = interactionCountResult[0]?.count || 0;
-      const engagementScore = Math.min(interactionCount * 2, 100);
-
-      await db
-        .update(userProfile)
-        .set({
-          totalInteractions: interactionCount,
-          engagementScore,
-        })
-        .where(eq(userProfile.userId, userId));
-
-      // 4. Update bounty engagement metrics
-      if (input.type === "view") {
-        await db
-          .update(bounty)
-          .set({ views: sql`${bounty.views} + 1` })
-          .where(eq(bounty.id, input.bountyId));
-      } else if (input.type === "like") {
-        await db
-          .update(bounty)
-          .set({ likes: sql`${bounty.likes} + 1` })
-          .where(eq(bounty.id, input.bountyId));
-      } else if (input.type === "submit") {
-        await db
-          .update(bounty)
-          .set({ submissions: sql`${bounty.submissions} + 1` })
-          .where(eq(bounty.id, input.bountyId));
+      if (input.type !== "like") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `recordInteraction no longer accepts "${input.type}"; use bounty.${input.type} instead`,
+        });
       }
 
-      return { success: true, newEngagementScore: engagementScore };
+      const { eventId } = await recordBountyInteraction(userId, input.bountyId, input.type);
+
+      return { success: true, eventId };
     }),
 
   /**
@@ -305,21 +321,37 @@ export const recommendationRouter = router({
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
-      // Delete existing tags
-      await db.delete(userTag).where(eq(userTag.userId, userId));
+      // Delete tags no longer in the list
+      const tagIds = input.tags.map((t) => t.tagId);
+      await db
+        .delete(userTag)
+        .where(
+          and(
+            eq(userTag.userId, userId),
+            tagIds.length > 0 ? notInArray(userTag.tagId, tagIds) : undefined
+          )
+        );
 
-      // Insert new tags
+      // Upsert the rest, so kept tags keep their createdAt
       if (input.tags.length > 0) {
-        await db.insert(userTag).values(
-          input.tags.map((t) => ({
-            userId,
-            tagId: t.tagId,
-            score: t.score,
-            source: "manual" as const,
-          }))
-        );
+        await db
+          .insert(userTag)
+          .values(
+            input.tags.map((t) => ({
+              userId,
+              tagId: t.tagId,
+              score: t.score,
+              source: "manual" as const,
+            }))
+          )
+          .onConflictDoUpdate({
+            target: [userTag.userId, userTag.tagId],
+            set: { score: sql`excluded.score`, source: sql`excluded.source` },
+          });
       }
 
+      await markScoreCacheStale(userId, "tags");
+
       return { success: true, tagCount: input.tags.length };
     }),
 
@@ -370,13 +402,35 @@ export const recommendationRouter = router({
         sortBy: z.enum(["relevance", "price_high", "price_low", "engagement", "newest"]).default("relevance"),
         tierFilter: z.array(z.enum(["basic", "middle", "high"])).optional(),
         tagFilter: z.array(z.number()).optional(),
+        priceMin: z.number().min(0).optional(),
+        priceMax: z.number().min(0).optional(),
+        minEngagement: z.number().min(0).max(100).optional(),
+        createdAfter: z.coerce.date().optional(),
+        hasMutualActivity: z.boolean().default(false), // Only bounties people in your network engaged with
         limit: z.number().min(1).max(100).default(50),
-        offset: z.number().min(0).default(0),
+        cursor: z.string().nullish(), // From pagination.nextCursor; omitted = first page, new snapshot
+        strategy: strategyIdSchema.optional(),
+        diversity: z.number().min(0).max(1).default(0), // MMR strength (0 = raw score order)
       }).optional()
     )
     .query(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
-      const { sortBy = "relevance", tierFilter, tagFilter, limit = 50, offset = 0 } = input || {};
+      const {
+        sortBy = "relevance",
+        tierFilter,
+        tagFilter,
+        priceMin,
+        priceMax,
+        minEngagement,
+        createdAfter,
+        hasMutualActivity = false,
+        limit = 50,
+        diversity = 0,
+      } = input || {};
+
+      // Explicit strategy choice beats experiment assignment
+      const assignment = input?.strategy ? null : await getExperimentAssignment(userId);
+      const strategy = await loadScoringStrategy(input?.strategy ?? assignment?.strategyId);
 
       // 1. Fetch user profile
       const profile = await db.query.userProfile.findFirst({
@@ -387,7 +441,12 @@ export const recommendationRouter = router({
         throw new Error("User profile not found. Please complete your profile setup.");
       }
 
-      // 2. Fetch user tags with tag names
+      // 2. Blended explicit + implicit tag scores and the tag graph (for the
+      // debug tag matches), plus the explicit profile tags (returned for the
+      // profile editor)
+      const engineTags = await getEngineTagScores(userId);
+      const tagGraph = await loadTagGraph();
+      const userMutuals = await getMutualsThreeLayers(userId);
       const userTagsWithNames = await db
         .select({
           tagId: userTag.tagId,
@@ -398,161 +457,109 @@ export const recommendationRouter = router({
         .innerJoin(tag, eq(userTag.tagId, tag.id))
         .where(eq(userTag.userId, userId));
 
-      // 3. Fetch mutuals (layers 1-3)
-      const userMutuals = await getMutualsThreeLayers(userId);
-
-      // 4. Fetch all open bounties
-      let allBounties = await db
-        .select()
-        .from(bounty)
-        .where(eq(bounty.status, "open"));
-
-      // 5. Apply tier filter if provided
-      if (tierFilter && tierFilter.length > 0) {
-        allBounties = allBounties.filter((b) => tierFilter.includes(b.tier));
-      }
-
-      // 6. Fetch bounty tags
-      const allBountyTags = await db
-        .select({
-          bountyId: bountyTag.bountyId,
-          tagId: bountyTag.tagId,
-          tagName: tag.name,
-          weight: bountyTag.weight,
-        })
-        .from(bountyTag)
-        .innerJoin(tag, eq(bountyTag.tagId, tag.id));
-
-      const bountyTagMap = new Map<number, { tagId: number; weight: number }[]>();
-      const bountyTagNamesMap = new Map<number, { tagId: number; tagName: string; weight: number }[]>();
-
-      for (const bt of allBountyTags) {
-        if (!bountyTagMap.has(bt.bountyId)) {
-          bountyTagMap.set(bt.bountyId, []);
-          bountyTagNamesMap.set(bt.bountyId, []);
-        }
-        bountyTagMap.get(bt.bountyId)!.push({ tagId: bt.tagId, weight: bt.weight });
-        bountyTagNamesMap.get(bt.bountyId)!.push({ tagId: bt.tagId, tagName: bt.tagName, weight: bt.weight });
-      }
-
-      // 7. Apply tag filter if provided
-      if (tagFilter && tagFilter.length > 0) {
-        allBounties = allBounties.filter((b) => {
-          const tags = bountyTagMap.get(b.id) || [];
-          return tags.some((t) => tagFilter.includes(t.tagId));
+      // 3. Pin the ranking: the first page ranks the top of the score cache
+      // and snapshots the order, later pages walk that snapshot so scores
+      // changing in between can't duplicate or skip bounties (positions
+      // past it are paginated in SQL)
+      const queryKey = JSON.stringify({
+        sortBy,
+        tierFilter,
+        tagFilter,
+        priceMin,
+        priceMax,
+        minEngagement,
+        createdAfter,
+        hasMutualActivity,
+        diversity,
+        strategy: strategy.id,
+      });
+      const feedQuery: CachedScoreQuery = {
+        sortBy,
+        tierFilter,
+        tagFilter,
+        priceMin,
+        priceMax,
+        minEngagement,
+        createdAfter,
+        mutualActivity: hasMutualActivity ? userMutuals.map((m) => m.mutualId) : undefined,
+      };
+      const cursor = input?.cursor ? decodeFeedCursor(input.cursor) : null;
+
+      let snapshot: FeedSnapshot;
+      let cache: ScoreCacheStatus | null = null;
+
+      if (cursor) {
+        snapshot = await getFeedSnapshot(userId, cursor, queryKey);
+      } else {
+        cache = await ensureScoreCache(userId, strategy.id);
+        const total = await countCachedScores(userId, strategy.id, feedQuery);
+        const pool = await readCachedScores(userId, strategy.id, {
+          ...feedQuery,
+          limit: FEED_SNAPSHOT_SIZE,
         });
-      }
 
-      // 8. Fetch mutual interactions
-      const mutualIds = userMutuals.map((m) => m.mutualId);
-      const mutualInteractions = new Map<string, number[]>();
-
-      if (mutualIds.length > 0) {
-        const mutualInteractionsRaw = await db
-          .select()
-          .from(bountyInteraction)
-          .where(inArray(bountyInteraction.userId, mutualIds));
-
-        for (const mi of mutualInteractionsRaw) {
-          if (!mutualInteractions.has(mi.userId)) {
-            mutualInteractions.set(mi.userId, []);
-          }
-          mutualInteractions.get(mi.userId)!.push(mi.bountyId);
-        }
+        // Diversity re-ranking (MMR, relevance sort only) orders the pinned window
+        const ranked =
+          sortBy === "relevance" && diversity > 0
+            ? rerankWithMMR(
+                pool,
+                await getBountyTagsWithNames(pool.map((sb) => sb.bounty.id)),
+                1 - diversity,
+                pool.length
+              )
+            : pool.map((scored, rawPosition) => ({ scored, rawPosition }));
+
+        snapshot = await createFeedSnapshot(userId, strategy.id, queryKey, ranked, total);
       }
 
-      // 9. Convert to BountyData format
-      const bountyData: BountyData[] = allBounties.map((b) => ({
-        id: b.id,
-        title: b.title,
-        description: b.description,
-        price: b.price,
-        tier: b.tier,
-        status: b.status,
-        views: b.views,
-        submissions: b.submissions,
-        likes: b.likes,
-        engagementScore: b.engagementScore,
-        creatorId: b.creatorId,
-        claimedById: b.claimedById,
-        createdAt: b.createdAt,
-        updatedAt: b.updatedAt,
-        expiresAt: b.expiresAt,
-        completedAt: b.completedAt,
-      }));
-
-      // 10. Score all bounties
-      const scoredBounties = scoreAllBounties(
-        {
-          userId,
-          userTags: userTagsWithNames,
-          userProfile: {
-            avgPriceViewed: profile.avgPriceViewed,
-            engagementScore: profile.engagementScore,
-            accessTier: profile.accessTier,
-          },
-          mutuals: userMutuals,
-        },
-        bountyData,
-        bountyTagMap,
-        mutualInteractions
-      );
+      // 4. Read the page
+      const position = cursor?.position ?? 0;
+      const page = await readFeedPage(snapshot, feedQuery, position, limit);
+      const total = snapshot.total;
+      const hasMore = position + limit < total;
 
-      // 11. Sort based on sortBy parameter
-      switch (sortBy) {
-        case "relevance":
-          scoredBounties.sort((a, b) => b.finalScore - a.finalScore);
-          break;
-        case "price_high":
-          scoredBounties.sort((a, b) => b.bounty.price - a.bounty.price);
-          break;
-        case "price_low":
-          scoredBounties.sort((a, b) => a.bounty.price - b.bounty.price);
-          break;
-        case "engagement":
-          scoredBounties.sort((a, b) => b.bounty.engagementScore - a.bounty.engagementScore);
-          break;
-        case "newest":
-          scoredBounties.sort((a, b) => b.bounty.createdAt.getTime() - a.bounty.createdAt.getTime());
-          break;
-      }
-
-      // 12. Apply pagination
-      const total = scoredBounties.length;
-      const paginatedBounties = scoredBounties.slice(offset, offset + limit);
+      await recordImpressions(userId, page.map((p) => p.scored.bounty.id));
 
-      // 13. Add tag details for each bounty (for debug overlay)
-      const bountiesWithDetails = paginatedBounties.map((sb) => {
-        const bountyTagsWithNames = bountyTagNamesMap.get(sb.bounty.id) || [];
-        const tagMatchDetails = getTagMatchDetails(userTagsWithNames, bountyTagsWithNames);
+      // 5. Add tag details for each bounty (for debug overlay)
+      const bountyTagNamesMap = await getBountyTagsWithNames(page.map((p) => p.scored.bounty.id));
 
-        return {
-          ...sb.bounty,
-          tags: bountyTagsWithNames.map((t) => ({ name: t.tagName, weight: t.weight })),
-          scores: {
-            relevance: sb.relevanceScore,
-            social: sb.socialBoost,
-            price: sb.priceAffinity,
-            final: sb.finalScore,
-          },
-          debug: {
-            tagMatches: tagMatchDetails,
-            priceRatio: profile.avgPriceViewed > 0 
-              ? sb.bounty.price / profile.avgPriceViewed 
-              : null,
-            mutualCount: userMutuals.length,
-          },
-        };
-      });
+      const debugContext = {
+        engineTags,
+        tagGraph,
+        avgPriceViewed: profile.avgPriceViewed,
+        mutualCount: userMutuals.length,
+        tagDwell: await getTagDwell(userId),
+      };
+      const bountiesWithDetails = page.map((ranked, i) =>
+        toFeedBounty(ranked, position + i, bountyTagNamesMap.get(ranked.scored.bounty.id) || [], debugContext)
+      );
 
       return {
         bounties: bountiesWithDetails,
         pagination: {
           total,
           limit,
-          offset,
-          hasMore: offset + limit < total,
+          position,
+          hasMore,
+          nextCursor: hasMore
+            ? encodeFeedCursor({ snapshotId: snapshot.id, position: position + limit })
+            : null,
+          snapshotExpiresAt: snapshot.expiresAt,
+        },
+        diversity,
+        cache: cache && {
+          computedAt: cache.computedAt,
+          syncedAt: cache.syncedAt,
+          refreshed: cache.refreshed,
         },
+        strategy: {
+          id: strategy.id,
+          label: strategy.label,
+          weights: strategy.weights,
+        },
+        experiment: assignment
+          ? { key: assignment.experimentKey, variantId: assignment.variantId }
+          : null,
         userProfile: {
           accessTier: profile.accessTier,
           avgPriceViewed: profile.avgPriceViewed,
@@ -563,6 +570,70 @@ export const recommendationRouter = router({
       };
     }),
 
+  /**
+   * Full-text search over open bounties, re-ranked by a blend of text rank
+   * and the user's finalScore. Supports tag:, tier: and price: operators
+   * (see services/search-query.ts).
+   */
+  searchBounties: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(200),
+        limit: z.number().min(1).max(50).default(20),
+        strategy: strategyIdSchema.optional(),
+        textWeight: z.number().min(0).max(1).default(DEFAULT_TEXT_WEIGHT), // 1 = text rank only
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      const profile = await db.query.userProfile.findFirst({
+        where: eq(userProfile.userId, userId),
+      });
+
+      if (!profile) {
+        throw new Error("User profile not found. Please complete your profile setup.");
+      }
+
+      const assignment = input.strategy ? null : await getExperimentAssignment(userId);
+      const strategy = await loadScoringStrategy(input.strategy ?? assignment?.strategyId);
+
+      const parsed = parseSearchQuery(input.query);
+      const { results, unknownTags } = await searchBounties(userId, strategy.id, parsed, {
+        textWeight: input.textWeight,
+        limit: input.limit,
+      });
+
+      await recordImpressions(userId, results.map((r) => r.scored.bounty.id));
+
+      const bountyTagNamesMap = await getBountyTagsWithNames(results.map((r) => r.scored.bounty.id));
+      const debugContext = {
+        engineTags: await getEngineTagScores(userId),
+        tagGraph: await loadTagGraph(),
+        avgPriceViewed: profile.avgPriceViewed,
+        mutualCount: (await getMutualsThreeLayers(userId)).length,
+        tagDwell: await getTagDwell(userId),
+      };
+
+      return {
+        bounties: results.map((r, i) => ({
+          ...toFeedBounty(
+            { scored: r.scored, rawPosition: r.textPosition },
+            i,
+            bountyTagNamesMap.get(r.scored.bounty.id) || [],
+            debugContext
+          ),
+          search: { textRank: r.textRank, score: r.searchScore },
+        })),
+        query: { ...parsed, unknownTags },
+        strategy: {
+          id: strategy.id,
+          label: strategy.label,
+          weights: strategy.weights,
+        },
+      };
+    }),
+
   /**
    * Get user profile
    */
@@ -639,10 +710,24 @@ export const recommendationRouter = router({
       }
 
       if (Object.keys(updateData).length > 0) {
-        await db
-          .update(userProfile)
-          .set(updateData)
-          .where(eq(userProfile.userId, userId));
+        await db.transaction(async (tx) => {
+          const previous = await tx.query.userProfile.findFirst({
+            where: eq(userProfile.userId, userId),
+          });
+
+          await tx
+            .update(userProfile)
+            .set(updateData)
+            .where(eq(userProfile.userId, userId));
+
+          // Tier history, for evaluating at past cutoffs (see eval/dataset.ts)
+          if (previous && input.accessTier !== undefined && input.accessTier !== previous.accessTier) {
+            await tx
+              .insert(accessTierChange)
+              .values({ userId, fromTier: previous.accessTier, toTier: input.accessTier });
+          }
+        });
+        await markScoreCacheStale(userId, "profile");
       }
 
       return { success: true, updated: updateData };
@@ -650,117 +735,81 @@ export const recommendationRouter = router({
 
   /**
    * Respond to a divergence alert
+   * Tag alerts pass tagId; price range alerts pass type "price_range" and,
+   * to update the onboarding range, the new bounds
    */
   respondToDivergence: protectedProcedure
     .input(
-      z.object({
-        tagId: z.number(),
-        action: z.enum(["add_skill", "remove_skill", "keep", "dismiss"]),
-        newScore: z.number().min(1).max(5).optional(),
-      })
+      z
+        .object({
+          promptId: z.number(),
+          action: z.enum([
+            "add_skill",
+            "remove_skill",
+            "update_range",
+            "keep",
+            "dismiss",
+            "snooze",
+            "never",
+          ]),
+          newScore: z.number().min(1).max(5).optional(),
+          priceRangeMin: z.number().int().min(10).max(100000).optional(),
+          priceRangeMax: z.number().int().min(10).max(100000).optional(),
+          snoozeDays: z.number().int().min(1).max(365).default(DEFAULT_SNOOZE_DAYS),
+        })
+        .refine(
+          (r) =>
+            r.action !== "update_range" ||
+            (r.priceRangeMin !== undefined &&
+              r.priceRangeMax !== undefined &&
+              r.priceRangeMin <= r.priceRangeMax),
+          { message: "Updating the price range needs a min no greater than the max" }
+        )
     )
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
-      if (input.action === "add_skill" && input.newScore) {
-        // Add the tag to user's explicit profile
-        await db.insert(userTag).values({
-          userId,
-          tagId: input.tagId,
-          score: input.newScore,
-          source: "divergence_prompt",
-        });
-      } else if (input.action === "remove_skill") {
+      // Close the prompt first, so a double submit applies the change once
+      const prompt = await resolveDivergencePrompt(userId, input.promptId, input.action, {
+        snoozeDays: input.snoozeDays,
+      });
+
+      if (!prompt) {
+        throw new Error("This prompt was already answered or doesn't accept that response");
+      }
+
+      if (input.action === "update_range") {
+        await db
+          .update(userOnboarding)
+          .set({ priceRangeMin: input.priceRangeMin, priceRangeMax: input.priceRangeMax })
+          .where(eq(userOnboarding.userId, userId));
+        await markScoreCacheStale(userId, "onboarding");
+      } else if (input.action === "add_skill" && prompt.tagId !== null) {
+        // Add the tag to user's explicit profile (it may have been added
+        // since the prompt opened)
+        const score = input.newScore ?? 3;
+        await db
+          .insert(userTag)
+          .values({ userId, tagId: prompt.tagId, score, source: "divergence_prompt" })
+          .onConflictDoUpdate({
+            target: [userTag.userId, userTag.tagId],
+            set: { score, source: "divergence_prompt" },
+          });
+        await markScoreCacheStale(userId, "tags");
+      } else if (input.action === "remove_skill" && prompt.tagId !== null) {
         // Remove the tag from user's explicit profile
         await db
           .delete(userTag)
-          .where(and(eq(userTag.userId, userId), eq(userTag.tagId, input.tagId)));
+          .where(and(eq(userTag.userId, userId), eq(userTag.tagId, prompt.tagId)));
+        await markScoreCacheStale(userId, "tags");
       }
 
-      // Clear the divergence flag
-      await clearDivergence(userId, input.tagId);
-
-      // Mark prompt as shown
-      await markDivergencePromptShown(userId);
-
       return { success: true };
     }),
 });
 
 // ============ HELPER FUNCTIONS ============
 
-/**
- * Get mutuals up to 3 layers deep
- * Layer 1: Direct mutuals
- * Layer 2: Mutuals of mutuals
- * Layer 3: 3rd degree connections
- */
-async function getMutualsThreeLayers(userId: string): Promise<MutualConnection[]> {
-  // Layer 1: Direct mutuals
-  const layer1 = await db.select().from(mutual).where(eq(mutual.userId, userId));
-
-  if (layer1.length === 0) {
-    return [];
-  }
-
-  const layer1Ids = layer1.map((m) => m.mutualId);
-  const result: MutualConnection[] = layer1.map((m) => ({
-    mutualId: m.mutualId,
-    layer: 1 as const,
-    strength: m.strength,
-  }));
-
-  // Layer 2: Mutuals of mutuals
-  const layer2Raw = await db
-    .select()
-    .from(mutual)
-    .where(
-      and(
-        inArray(mutual.userId, layer1Ids),
-        sql`${mutual.mutualId} != ${userId}`
-      )
-    );
-
-  const layer2Ids = new Set<string>();
-  for (const m of layer2Raw) {
-    // Skip if already in layer 1
-    if (!layer1Ids.includes(m.mutualId) && m.mutualId !== userId) {
-      layer2Ids.add(m.mutualId);
-      result.push({
-        mutualId: m.mutualId,
-        layer: 2 as const,
-        strength: m.strength * 0.5, // Decay strength for layer 2
-      });
-    }
-  }
-
-  // Layer 3: Mutuals of layer 2
-  if (layer2Ids.size > 0) {
-    const layer3Raw = await db
-      .select()
-      .from(mutual)
-      .where(
-        and(
-          inArray(mutual.userId, Array.from(layer2Ids)),
-          sql`${mutual.mutualId} != ${userId}`
-        )
-      );
-
-    for (const m of layer3Raw) {
-      // Skip if already in layer 1 or 2
-      if (!layer1Ids.includes(m.mutualId) && !layer2Ids.has(m.mutualId) && m.mutualId !== userId) {
-        result.push({
-          mutualId: m.mutualId,
-          layer: 3 as const,
-          strength: m.strength * 0.25, // Decay strength for layer 3
-        });
-      }
-    }
-  }
-
-  return result;
-}
-
 /**
  * Get tag names for a bounty
  */
@@ -773,3 +822,84 @@ async function getBountyTagNames(
     .innerJoin(tag, eq(bountyTag.tagId, tag.id))
     .where(eq(bountyTag.bountyId, bountyId));
 }
+
+/**
+ * Tags (with names) for a set of bounties
+ */
+async function getBountyTagsWithNames(
+  bountyIds: number[]
+): Promise<Map<number, { tagId: number; tagName: string; weight: number }[]>> {
+  const tagsByBounty = new Map<number, { tagId: number; tagName: string; weight: number }[]>();
+  if (bountyIds.length === 0) return tagsByBounty;
+
+  const rows = await db
+    .select({
+      bountyId: bountyTag.bountyId,
+      tagId: bountyTag.tagId,
+      tagName: tag.name,
+      weight: bountyTag.weight,
+    })
+    .from(bountyTag)
+    .innerJoin(tag, eq(bountyTag.tagId, tag.id))
+    .where(inArray(bountyTag.bountyId, bountyIds));
+
+  for (const row of rows) {
+    if (!tagsByBounty.has(row.bountyId)) {
+      tagsByBounty.set(row.bountyId, []);
+    }
+    tagsByBounty.get(row.bountyId)!.push({ tagId: row.tagId, tagName: row.tagName, weight: row.weight });
+  }
+
+  return tagsByBounty;
+}
+
+/**
+ * A ranked bounty as the feed shows it: bounty fields, tag names, score
+ * components and the debug overlay details
+ *
+ * @param position - 0-based display position
+ */
+function toFeedBounty(
+  { scored: sb, rawPosition }: RerankedBounty,
+  position: number,
+  tags: { tagId: number; tagName: string; weight: number }[],
+  context: {
+    engineTags: UserTagScore[];
+    tagGraph: TagGraph;
+    avgPriceViewed: number;
+    mutualCount: number;
+    tagDwell: Map<number, TagDwell>;
+  }
+) {
+  return {
+    ...sb.bounty,
+    tags: tags.map((t) => ({ name: t.tagName, weight: t.weight })),
+    scores: {
+      relevance: sb.relevanceScore,
+      tagMatch: sb.tagMatchScore,
+      embedding: sb.embeddingScore,
+      social: sb.socialBoost,
+      price: sb.priceAffinity,
+      freshness: sb.freshness,
+      preference: sb.preference.score,
+      collaborative: sb.collaborative.score,
+      final: sb.finalScore,
+    },
+    strategyId: sb.strategyId,
+    debug: {
+      tagMatches: getTagMatchDetails(context.engineTags, tags, context.tagGraph),
+      priceRatio: context.avgPriceViewed > 0 
+        ? sb.bounty.price / context.avgPriceViewed 
+        : null,
+      mutualCount: context.mutualCount,
+      tagDwell: tags.flatMap((t) => {
+        const dwell = context.tagDwell.get(t.tagId);
+        return dwell ? [{ tagName: t.tagName, ...dwell }] : [];
+      }),
+      preference: sb.preference,
+      collaborative: sb.collaborative,
+      position: position + 1,
+      rawPosition: rawPosition + 1, // Position before re-ranking (diversity, or search blending)
+    },
+  };
+}
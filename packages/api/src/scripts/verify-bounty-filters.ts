@@ -0,0 +1,52 @@
+// Check the bounty feed against the original in-memory path on the seeded data
+// Usage: bun run src/scripts/verify-bounty-filters.ts [--users <n>] [--strategy <id>]
+//
+// Prints every sort × filter case per user (see compareBountyFeeds) and the
+// first difference of any that don't match. Exits non-zero on any difference.
+// The feed tests run the same comparison.
+
+import { getNumberArg } from "../jobs/job";
+import { compareBountyFeeds } from "../services/feed-verification";
+
+const args = process.argv.slice(2);
+const strategyArg = args.includes("--strategy") ? args[args.indexOf("--strategy") + 1] : undefined;
+
+async function verifyBountyFeed(): Promise<number> {
+  const comparisons = await compareBountyFeeds({
+    users: Math.round(getNumberArg(args, "users", 3)),
+    strategyId: strategyArg,
+  });
+
+  let failures = 0;
+  let lastUser: string | null = null;
+
+  for (const { userId, sortBy, filter, relevant, expected, actual } of comparisons) {
+    if (userId !== lastUser) {
+      console.log(`\nUser ${userId} (${relevant} relevant bounties)`);
+      lastUser = userId;
+    }
+
+    const firstDiff = expected.findIndex((id, i) => actual[i] !== id);
+    if (firstDiff === -1 && expected.length === actual.length) {
+      console.log(`  ✓ ${sortBy} / ${filter} (${expected.length} bounties)`);
+    } else {
+      failures++;
+      const at = firstDiff === -1 ? expected.length : firstDiff;
+      console.log(
+        `  ✗ ${sortBy} / ${filter}: expected ${expected.length} bounties, got ${actual.length}; first difference at position ${at}`
+      );
+      console.log(`    expected: ${expected.slice(at, at + 5).join(", ")}`);
+      console.log(`    actual:   ${actual.slice(at, at + 5).join(", ")}`);
+    }
+  }
+
+  console.log(`\n${comparisons.length - failures}/${comparisons.length} feed cases match`);
+  return failures;
+}
+
+verifyBountyFeed()
+  .then((failures) => process.exit(failures > 0 ? 1 : 0))
+  .catch((err) => {
+    console.error("Error:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { linkInteraction, summarizeFunnel } from "./attribution-funnel";
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+function minutesAgo(minutes: number): Date {
+  return new Date(now.getTime() - minutes * 60 * 1000);
+}
+
+function log(
+  id: number,
+  primary: { bountyId: number; score: number | null; tier: string | null } | null,
+  secondary: { bountyId: number; score: number | null; tier: string | null } | null = null
+) {
+  return {
+    id,
+    primaryBountyId: primary?.bountyId ?? null,
+    secondaryBountyId: secondary?.bountyId ?? null,
+    primaryScore: primary?.score ?? null,
+    secondaryScore: secondary?.score ?? null,
+    primaryTier: primary?.tier ?? null,
+    secondaryTier: secondary?.tier ?? null,
+  };
+}
+
+describe("linkInteraction", () => {
+  const interaction = { id: 100, bountyId: 7, type: "like", createdAt: now };
+
+  test("links every slot that showed the bounty, with the delay", () => {
+    const links = linkInteraction(interaction, [
+      { id: 1, primaryBountyId: 7, secondaryBountyId: 8, createdAt: minutesAgo(30) },
+      { id: 2, primaryBountyId: 8, secondaryBountyId: 7, createdAt: minutesAgo(90) },
+    ]);
+
+    expect(links).toEqual([
+      { logId: 1, slot: "primary", bountyId: 7, interactionId: 100, interactionType: "like", delaySeconds: 1800 },
+      { logId: 2, slot: "secondary", bountyId: 7, interactionId: 100, interactionType: "like", delaySeconds: 5400 },
+    ]);
+  });
+
+  test("links both slots when a log showed the bounty twice", () => {
+    const links = linkInteraction(interaction, [
+      { id: 1, primaryBountyId: 7, secondaryBountyId: 7, createdAt: minutesAgo(1) },
+    ]);
+    expect(links.map((l) => l.slot)).toEqual(["primary", "secondary"]);
+  });
+
+  test("skips logs that didn't show the bounty", () => {
+    expect(
+      linkInteraction(interaction, [{ id: 1, primaryBountyId: 8, secondaryBountyId: null, createdAt: minutesAgo(1) }])
+    ).toEqual([]);
+  });
+});
+
+describe("summarizeFunnel", () => {
+  const logs = [
+    log(1, { bountyId: 7, score: 8.5, tier: "gold" }, { bountyId: 8, score: 3, tier: "bronze" }),
+    log(2, { bountyId: 9, score: 9, tier: "gold" }),
+    log(3, { bountyId: 10, score: null, tier: null }),
+  ];
+
+  test("counts each impression once, however many interactions it has", () => {
+    const report = summarizeFunnel(logs, [
+      { logId: 1, slot: "primary", interactionType: "view" },
+      { logId: 1, slot: "primary", interactionType: "like" },
+      { logId: 1, slot: "primary", interactionType: "submit" },
+      { logId: 1, slot: "secondary", interactionType: "view" },
+    ]);
+
+    expect(report.overall).toEqual({
+      impressions: 4,
+      clicks: 2,
+      conversions: 1,
+      ctr: 0.5,
+      conversionRate: 0.25,
+    });
+  });
+
+  test("treats submits, claims and completes as conversions", () => {
+    for (const interactionType of ["submit", "claim", "complete"]) {
+      const report = summarizeFunnel(logs, [{ logId: 2, slot: "primary", interactionType }]);
+      expect(report.overall.conversions).toBe(1);
+    }
+    expect(summarizeFunnel(logs, [{ logId: 2, slot: "primary", interactionType: "like" }]).overall.conversions).toBe(0);
+  });
+
+  test("breaks the funnel down by slot, tier and score bucket", () => {
+    const report = summarizeFunnel(logs, [
+      { logId: 1, slot: "secondary", interactionType: "complete" },
+      { logId: 2, slot: "primary", interactionType: "view" },
+    ]);
+
+    expect(report.bySlot.primary).toMatchObject({ impressions: 3, clicks: 1, conversions: 0 });
+    expect(report.bySlot.secondary).toMatchObject({ impressions: 1, clicks: 1, conversions: 1 });
+
+    expect(report.byTier.gold).toMatchObject({ impressions: 2, clicks: 1, ctr: 0.5 });
+    expect(report.byTier.bronze).toMatchObject({ impressions: 1, conversions: 1, conversionRate: 1 });
+    expect(report.byTier.unknown).toMatchObject({ impressions: 1, clicks: 0 });
+
+    expect(Object.keys(report.byScoreBucket).sort()).toEqual(["2-4", "8-10", "unknown"]);
+    expect(report.byScoreBucket["8-10"]).toMatchObject({ impressions: 2, clicks: 1 });
+  });
+
+  test("ignores empty slots and has zero rates without impressions", () => {
+    const report = summarizeFunnel([log(1, null)], []);
+    expect(report.overall).toEqual({ impressions: 0, clicks: 0, conversions: 0, ctr: 0, conversionRate: 0 });
+    expect(report.byTier).toEqual({});
+  });
+});
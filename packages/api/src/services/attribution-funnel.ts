@@ -0,0 +1,184 @@
+/**
+ * Attribution Funnel
+ *
+ * The bookkeeping behind attribution.ts: which impression slots an
+ * interaction is linked to, and how linked impressions roll up into click
+ * and conversion rates overall, per slot, per tier and per score bucket.
+ *
+ * Pure functions only.
+ */
+
+// ============ CONSTANTS ============
+
+const CONVERSION_TYPES = ["submit", "claim", "complete"];
+
+// Final scores are ~0-10, bucketed in steps of 2
+const SCORE_BUCKET_SIZE = 2;
+
+// ============ TYPES ============
+
+export type Slot = "primary" | "secondary";
+
+export interface ImpressionLog {
+  id: number;
+  primaryBountyId: number | null;
+  secondaryBountyId: number | null;
+}
+
+export interface AttributionLink {
+  logId: number;
+  slot: Slot;
+  bountyId: number;
+  interactionId: number;
+  interactionType: string;
+  delaySeconds: number;
+}
+
+export interface FunnelStats {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  ctr: number;            // clicks / impressions
+  conversionRate: number; // conversions / impressions
+}
+
+export interface FunnelBreakdown {
+  overall: FunnelStats;
+  bySlot: Record<Slot, FunnelStats>;
+  byTier: Record<string, FunnelStats>;
+  byScoreBucket: Record<string, FunnelStats>;
+}
+
+// ============ ATTRIBUTION ============
+
+/**
+ * Links from an interaction to each slot that showed its bounty, in logs
+ * already narrowed to the user and the attribution window
+ */
+export function linkInteraction(
+  interaction: { id: number; bountyId: number; type: string; createdAt: Date },
+  logs: (ImpressionLog & { createdAt: Date })[]
+): AttributionLink[] {
+  return logs.flatMap((log) => {
+    const delaySeconds = Math.round(
+      (interaction.createdAt.getTime() - log.createdAt.getTime()) / 1000
+    );
+    const slots: Slot[] = [];
+    if (log.primaryBountyId === interaction.bountyId) slots.push("primary");
+    if (log.secondaryBountyId === interaction.bountyId) slots.push("secondary");
+
+    return slots.map((slot) => ({
+      logId: log.id,
+      slot,
+      bountyId: interaction.bountyId,
+      interactionId: interaction.id,
+      interactionType: interaction.type,
+      delaySeconds,
+    }));
+  });
+}
+
+// ============ FUNNEL ============
+
+/**
+ * Count impressions, clicks and conversions. Each impression counts once,
+ * however many attributed interactions it has: a click if it has any, a
+ * conversion if one of them is a submit, claim or complete.
+ */
+export function summarizeFunnel(
+  logs: (ImpressionLog & {
+    primaryScore: number | null;
+    secondaryScore: number | null;
+    primaryTier: string | null;
+    secondaryTier: string | null;
+  })[],
+  attributions: { logId: number; slot: Slot; interactionType: string }[]
+): FunnelBreakdown {
+  // Collapse attributions to one outcome per impression
+  const outcomes = new Map<string, { clicked: boolean; converted: boolean }>();
+  for (const a of attributions) {
+    const key = `${a.logId}:${a.slot}`;
+    const outcome = outcomes.get(key) ?? { clicked: false, converted: false };
+    outcome.clicked = true;
+    if (CONVERSION_TYPES.includes(a.interactionType)) {
+      outcome.converted = true;
+    }
+    outcomes.set(key, outcome);
+  }
+
+  const overall = emptyCounts();
+  const bySlot: Record<Slot, Counts> = { primary: emptyCounts(), secondary: emptyCounts() };
+  const byTier: Record<string, Counts> = {};
+  const byScoreBucket: Record<string, Counts> = {};
+
+  for (const log of logs) {
+    const impressions: {
+      slot: Slot;
+      bountyId: number | null;
+      score: number | null;
+      tier: string | null;
+    }[] = [
+      { slot: "primary", bountyId: log.primaryBountyId, score: log.primaryScore, tier: log.primaryTier },
+      { slot: "secondary", bountyId: log.secondaryBountyId, score: log.secondaryScore, tier: log.secondaryTier },
+    ];
+
+    for (const impression of impressions) {
+      if (impression.bountyId === null) continue;
+
+      const outcome = outcomes.get(`${log.id}:${impression.slot}`);
+      const tier = impression.tier ?? "unknown";
+      const bucket = scoreBucket(impression.score);
+
+      for (const counts of [
+        overall,
+        bySlot[impression.slot],
+        (byTier[tier] ??= emptyCounts()),
+        (byScoreBucket[bucket] ??= emptyCounts()),
+      ]) {
+        counts.impressions++;
+        if (outcome?.clicked) counts.clicks++;
+        if (outcome?.converted) counts.conversions++;
+      }
+    }
+  }
+
+  return {
+    overall: toFunnelStats(overall),
+    bySlot: {
+      primary: toFunnelStats(bySlot.primary),
+      secondary: toFunnelStats(bySlot.secondary),
+    },
+    byTier: mapValues(byTier, toFunnelStats),
+    byScoreBucket: mapValues(byScoreBucket, toFunnelStats),
+  };
+}
+
+// ============ HELPER FUNCTIONS ============
+
+interface Counts {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+}
+
+function emptyCounts(): Counts {
+  return { impressions: 0, clicks: 0, conversions: 0 };
+}
+
+function toFunnelStats(counts: Counts): FunnelStats {
+  return {
+    ...counts,
+    ctr: counts.impressions > 0 ? counts.clicks / counts.impressions : 0,
+    conversionRate: counts.impressions > 0 ? counts.conversions / counts.impressions : 0,
+  };
+}
+
+function scoreBucket(score: number | null): string {
+  if (score === null) return "unknown";
+  const lower = Math.max(0, Math.floor(score / SCORE_BUCKET_SIZE) * SCORE_BUCKET_SIZE);
+  return `${lower}-${lower + SCORE_BUCKET_SIZE}`;
+}
+
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, fn(v)]));
+}
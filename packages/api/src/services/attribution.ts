@@ -0,0 +1,144 @@
+/**
+ * Recommendation Attribution Service
+ *
+ * Links interactions back to the recommendation impressions that preceded
+ * them, so we can tell whether a recommendation actually worked.
+ *
+ * An interaction is attributed to every impression of the same bounty shown
+ * to the same user within the attribution window before it.
+ *
+ * Funnel:
+ *   - click: any attributed interaction (view, like, submit, claim, complete)
+ *   - conversion: an attributed submit, claim or complete
+ *
+ * The linking and counting themselves are pure (attribution-funnel.ts).
+ */
+
+import { eq, and, gte, lte, or } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@algorithim-test/db";
+import { bounty } from "@algorithim-test/db/schema/bounty";
+import {
+  recommendationLog,
+  recommendationAttribution,
+} from "@algorithim-test/db/schema/recommendation";
+import { linkInteraction, summarizeFunnel, type FunnelBreakdown } from "./attribution-funnel";
+
+// ============ CONSTANTS ============
+
+// Max time between an impression and an interaction for it to count.
+// Links are stored up to this window; reports can narrow it further.
+export const ATTRIBUTION_WINDOW_HOURS = 72;
+
+// ============ TYPES ============
+
+export interface PerformanceReport extends FunnelBreakdown {
+  windowHours: number;
+  since: Date;
+}
+
+// ============ ATTRIBUTION ============
+
+/**
+ * Attribute an interaction to the impressions of the same bounty shown to
+ * the user within the window before it
+ */
+export async function attributeInteraction(
+  interaction: {
+    id: number;
+    userId: string;
+    bountyId: number;
+    type: string;
+    createdAt: Date;
+  },
+  windowHours: number = ATTRIBUTION_WINDOW_HOURS
+): Promise<number> {
+  const windowStart = new Date(interaction.createdAt.getTime() - windowHours * 60 * 60 * 1000);
+
+  const logs = await db
+    .select({
+      id: recommendationLog.id,
+      primaryBountyId: recommendationLog.primaryBountyId,
+      secondaryBountyId: recommendationLog.secondaryBountyId,
+      createdAt: recommendationLog.createdAt,
+    })
+    .from(recommendationLog)
+    .where(
+      and(
+        eq(recommendationLog.userId, interaction.userId),
+        gte(recommendationLog.createdAt, windowStart),
+        lte(recommendationLog.createdAt, interaction.createdAt),
+        or(
+          eq(recommendationLog.primaryBountyId, interaction.bountyId),
+          eq(recommendationLog.secondaryBountyId, interaction.bountyId)
+        )
+      )
+    );
+
+  const rows = linkInteraction(interaction, logs);
+
+  if (rows.length > 0) {
+    await db.insert(recommendationAttribution).values(rows).onConflictDoNothing();
+  }
+
+  return rows.length;
+}
+
+// ============ REPORTING ============
+
+/**
+ * Compute CTR and conversion rates for impressions logged since `since`,
+ * counting only interactions within `windowHours` of the impression
+ */
+export async function getRecommendationPerformance(options: {
+  since: Date;
+  windowHours?: number;
+  userId?: string;
+}): Promise<PerformanceReport> {
+  const windowHours = Math.min(options.windowHours ?? ATTRIBUTION_WINDOW_HOURS, ATTRIBUTION_WINDOW_HOURS);
+
+  const logFilter = and(
+    gte(recommendationLog.createdAt, options.since),
+    options.userId ? eq(recommendationLog.userId, options.userId) : undefined
+  );
+
+  const primaryBounty = alias(bounty, "primary_bounty");
+  const secondaryBounty = alias(bounty, "secondary_bounty");
+
+  const logs = await db
+    .select({
+      id: recommendationLog.id,
+      primaryBountyId: recommendationLog.primaryBountyId,
+      secondaryBountyId: recommendationLog.secondaryBountyId,
+      primaryScore: recommendationLog.primaryScore,
+      secondaryScore: recommendationLog.secondaryScore,
+      primaryTier: primaryBounty.tier,
+      secondaryTier: secondaryBounty.tier,
+    })
+    .from(recommendationLog)
+    .leftJoin(primaryBounty, eq(recommendationLog.primaryBountyId, primaryBounty.id))
+    .leftJoin(secondaryBounty, eq(recommendationLog.secondaryBountyId, secondaryBounty.id))
+    .where(logFilter);
+
+  // Attributions inside the window
+  const attributions = await db
+    .select({
+      logId: recommendationAttribution.logId,
+      slot: recommendationAttribution.slot,
+      interactionType: recommendationAttribution.interactionType,
+    })
+    .from(recommendationAttribution)
+    .innerJoin(recommendationLog, eq(recommendationAttribution.logId, recommendationLog.id))
+    .where(
+      and(
+        logFilter,
+        lte(recommendationAttribution.delaySeconds, windowHours * 60 * 60)
+      )
+    );
+
+  return {
+    windowHours,
+    since: options.since,
+    ...summarizeFunnel(logs, attributions),
+  };
+}
@@ -4,319 +4,344 @@
  * Tracks user behavior (views, likes, submits, completes) and computes
  * implicit profile scores that blend with explicit (onboarding) data.
  * 
- * Signal Weights:
+ * Signal Weights (see tag-blend.ts):
  *   - Views: 10% (shows interest, could be browsing)
  *   - Likes: 20% (light commitment)
  *   - Submits: 30% (real commitment)
  *   - Completes: 40% (actual proof of fit)
+ *
+ * Tag signals decay with a half-life, so old interests fade unless the user
+ * keeps engaging with them. Tag scores are always recomputed from
+ * bountyInteraction history rather than incremented.
+ *
+ * Views are weighted by dwell time (the user's average bountyView.duration
+ * on the bounty): a long read counts up to DWELL_WEIGHT_MAX views, a
+ * scroll-by DWELL_WEIGHT_MIN. Views without a measured dwell count once.
  */
 
-import { eq, and, inArray, sql } from "drizzle-orm";
-import { db } from "@algorithim-test/db";
+import { eq, and, inArray, isNotNull, lte, notInArray, sql } from "drizzle-orm";
+import { db, type Executor } from "@algorithim-test/db";
 import {
   userBehaviorTag,
   userBehaviorPrice,
   userBlendConfig,
+  userOnboarding,
 } from "@algorithim-test/db/schema/onboarding";
-import { bounty, bountyTag } from "@algorithim-test/db/schema/bounty";
+import { bounty, bountyTag, bountyInteraction, bountyView } from "@algorithim-test/db/schema/bounty";
 import { tag } from "@algorithim-test/db/schema/tag";
 import { userTag } from "@algorithim-test/db/schema/user-profile";
+import { checkDivergence, getDivergentTagIds } from "./divergence";
+import type { UserTagScore } from "./recommendation";
+import type { BountyType, UserPreferences } from "./preferences";
+import {
+  blendTagScore,
+  computeBlendWeights,
+  computeImplicitTagScore,
+  typeTagScore,
+  DWELL_FULL_READ_SECONDS,
+  DWELL_WEIGHT_MAX,
+  DWELL_WEIGHT_MIN,
+  TAG_SCORE_HALF_LIFE_DAYS,
+  TRACKED_INTERACTION_TYPES,
+  type BlendWeights,
+  type InteractionType,
+} from "./tag-blend";
 
 // ============ CONSTANTS ============
 
-const BEHAVIOR_WEIGHTS = {
-  view: 0.1,
-  like: 0.2,
-  submit: 0.3,
-  complete: 0.4,
-} as const;
-
-// How many interactions before we start trusting implicit data more
-const INTERACTION_THRESHOLDS = {
-  START_BLENDING: 10,      // Start considering implicit at 10 interactions
-  EQUAL_WEIGHT: 50,        // 50/50 blend at 50 interactions
-  TRUST_IMPLICIT: 100,     // 70% implicit at 100+ interactions
-} as const;
-
-// Note: Divergence is detected when implicit score >= 3 for untagged skills
-// or when explicit score >= 4 but implicit score < 1 for unused skills
+// Interactions of each type feeding the user's average prices
+const PRICE_HISTORY_SIZE = 50;
 
 // ============ BEHAVIOR TRACKING ============
 
-export type InteractionType = "view" | "like" | "submit" | "complete";
-
 /**
- * Record a user interaction with a bounty and update behavior profiles
+ * Update behavior profiles after an interaction with a bounty (the
+ * bountyInteraction row must already exist). Every step rebuilds from
+ * interaction history, so running it twice for one interaction changes
+ * nothing.
+ *
+ * Runs as one transaction: a failure part way leaves tag, price, blend and
+ * divergence state as it was.
  */
-export async function trackBehavior(
-  userId: string,
-  bountyId: number,
-  interactionType: InteractionType
-): Promise<void> {
-  // 1. Get bounty details (price, tags)
-  const bountyData = await db.query.bounty.findFirst({
-    where: eq(bounty.id, bountyId),
-  });
+export async function trackBehavior(userId: string, bountyId: number): Promise<void> {
+  await db.transaction(async (tx) => {
+    const bountyData = await tx.query.bounty.findFirst({
+      where: eq(bounty.id, bountyId),
+    });
 
-  if (!bountyData) return;
+    if (!bountyData) return;
 
-  // 2. Get bounty tags
-  const bountyTags = await db
-    .select({ tagId: bountyTag.tagId })
-    .from(bountyTag)
-    .where(eq(bountyTag.bountyId, bountyId));
-
-  // 3. Update tag behavior for each tag on this bounty
-  for (const bt of bountyTags) {
-    await updateTagBehavior(userId, bt.tagId, interactionType);
-  }
+    // 1. Recompute decayed tag behavior for each tag on this bounty
+    await recomputeBountyTagBehavior(userId, bountyId, tx);
 
-  // 4. Update price behavior
-  await updatePriceBehavior(userId, bountyData.price, interactionType);
+    // 2. Rebuild price behavior (average price per interaction type)
+    await refreshPriceBehavior(userId, tx);
 
-  // 5. Update blend config (shift weights based on total interactions)
-  await updateBlendConfig(userId);
+    // 3. Rebuild blend config (shift weights based on total interactions)
+    await refreshBlendConfig(userId, tx);
 
-  // 6. Check for divergence
-  await checkDivergence(userId);
+    // 4. Check for divergence
+    await checkDivergence(userId, new Date(), tx);
+  });
 }
 
 /**
- * Update behavior score for a specific tag
+ * Rebuild a user's tag behavior rows from bountyInteraction, decaying each
+ * interaction by its age. Without `tagIds`, every tag is recomputed and tags
+ * with no remaining interactions are zeroed out.
+ *
+ * Returns the number of tags with interactions.
  */
-async function updateTagBehavior(
+export async function recomputeTagBehavior(
   userId: string,
-  tagId: number,
-  interactionType: InteractionType
-): Promise<void> {
-  // Check if record exists
-  const existing = await db.query.userBehaviorTag.findFirst({
-    where: and(
-      eq(userBehaviorTag.userId, userId),
-      eq(userBehaviorTag.tagId, tagId)
-    ),
-  });
+  options: { tagIds?: number[]; halfLifeDays?: number; now?: Date } = {},
+  executor: Executor = db
+): Promise<number> {
+  const halfLifeDays = options.halfLifeDays ?? TAG_SCORE_HALF_LIFE_DAYS;
+  const now = options.now ?? new Date();
+
+  if (halfLifeDays <= 0) {
+    throw new Error("Half-life must be positive");
+  }
+
+  const halfLifeSeconds = halfLifeDays * 24 * 60 * 60;
+
+  // Average dwell per bounty, for weighting views
+  const dwell = executor
+    .select({
+      bountyId: bountyView.bountyId,
+      seconds: sql<number>`avg(${bountyView.duration})`.as("seconds"),
+    })
+    .from(bountyView)
+    .where(and(eq(bountyView.userId, userId), isNotNull(bountyView.duration)))
+    .groupBy(bountyView.bountyId)
+    .as("dwell");
 
-  const countField = `${interactionType}Count` as const;
-  const scoreField = `${interactionType}Score` as const;
+  const weight = sql`case when ${bountyInteraction.type} = 'view'
+    then coalesce(least(greatest(${dwell.seconds} / ${DWELL_FULL_READ_SECONDS}, ${DWELL_WEIGHT_MIN}), ${DWELL_WEIGHT_MAX}), 1)
+    else 1 end`;
 
-  if (existing) {
-    // Update existing record
-    const newCount = (existing[countField] || 0) + 1;
-    const newScore = Math.min(10, newCount * BEHAVIOR_WEIGHTS[interactionType] * 2);
+  // Sum of weight * 0.5^(age / halfLife) per tag and interaction type
+  const rows = await executor
+    .select({
+      tagId: bountyTag.tagId,
+      type: bountyInteraction.type,
+      count: sql<number>`count(*)::int`,
+      decayedCount: sql<number>`sum(${weight} * power(0.5, greatest(extract(epoch from (${now.toISOString()}::timestamp - ${bountyInteraction.createdAt})), 0) / ${halfLifeSeconds}))::float`,
+      lastInteractionAt: sql<Date>`max(${bountyInteraction.createdAt})`.mapWith(bountyInteraction.createdAt),
+    })
+    .from(bountyInteraction)
+    .innerJoin(bountyTag, eq(bountyInteraction.bountyId, bountyTag.bountyId))
+    .leftJoin(dwell, eq(dwell.bountyId, bountyInteraction.bountyId))
+    .where(
+      and(
+        eq(bountyInteraction.userId, userId),
+        inArray(bountyInteraction.type, TRACKED_INTERACTION_TYPES),
+        options.tagIds ? inArray(bountyTag.tagId, options.tagIds) : undefined
+      )
+    )
+    .groupBy(bountyTag.tagId, bountyInteraction.type);
 
-    await db
+  // Fold per-type rows into one behavior record per tag
+  const behaviors = new Map<number, TagBehavior>();
+  for (const row of rows) {
+    const type = row.type as InteractionType;
+    const behavior = behaviors.get(row.tagId) ?? emptyTagBehavior();
+
+    behavior[`${type}Count`] = row.count;
+    behavior[`${type}Score`] = typeTagScore(type, row.decayedCount);
+
+    if (!behavior.lastInteractionAt || row.lastInteractionAt > behavior.lastInteractionAt) {
+      behavior.lastInteractionAt = row.lastInteractionAt;
+    }
+
+    behaviors.set(row.tagId, behavior);
+  }
+
+  const values = [...behaviors].map(([tagId, behavior]) => ({
+    userId,
+    tagId,
+    ...behavior,
+    implicitScore: computeImplicitTagScore(behavior),
+  }));
+
+  if (values.length > 0) {
+    await executor
+      .insert(userBehaviorTag)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [userBehaviorTag.userId, userBehaviorTag.tagId],
+        set: {
+          viewCount: sql`excluded.view_count`,
+          viewScore: sql`excluded.view_score`,
+          likeCount: sql`excluded.like_count`,
+          likeScore: sql`excluded.like_score`,
+          submitCount: sql`excluded.submit_count`,
+          submitScore: sql`excluded.submit_score`,
+          completeCount: sql`excluded.complete_count`,
+          completeScore: sql`excluded.complete_score`,
+          implicitScore: sql`excluded.implicit_score`,
+          lastInteractionAt: sql`excluded.last_interaction_at`,
+          updatedAt: now,
+        },
+      });
+  }
+
+  // Full recompute: tags whose interactions are gone (e.g. deleted bounties) drop to zero
+  if (!options.tagIds) {
+    const activeTagIds = [...behaviors.keys()];
+    await executor
       .update(userBehaviorTag)
-      .set({
-        [countField]: newCount,
-        [scoreField]: newScore,
-        implicitScore: computeImplicitTagScore({
-          ...existing,
-          [countField]: newCount,
-          [scoreField]: newScore,
-        }),
-      })
+      .set({ ...emptyTagBehavior(), implicitScore: 0 })
       .where(
         and(
           eq(userBehaviorTag.userId, userId),
-          eq(userBehaviorTag.tagId, tagId)
+          activeTagIds.length > 0 ? notInArray(userBehaviorTag.tagId, activeTagIds) : undefined
         )
       );
-  } else {
-    // Create new record
-    const initialCount = 1;
-    const initialScore = BEHAVIOR_WEIGHTS[interactionType] * 2;
-
-    await db.insert(userBehaviorTag).values({
-      userId,
-      tagId,
-      [countField]: initialCount,
-      [scoreField]: initialScore,
-      implicitScore: initialScore,
-    });
   }
-}
 
-/**
- * Compute implicit tag score from behavior counts
- */
-function computeImplicitTagScore(behavior: {
-  viewScore: number;
-  likeScore: number;
-  submitScore: number;
-  completeScore: number;
-}): number {
-  // Weighted combination, capped at 10
-  const raw =
-    behavior.viewScore * 0.1 +
-    behavior.likeScore * 0.2 +
-    behavior.submitScore * 0.3 +
-    behavior.completeScore * 0.4;
-
-  return Math.min(10, raw);
+  return behaviors.size;
 }
 
 /**
- * Update price behavior tracking
+ * Recompute tag behavior for the tags on one bounty
  */
-async function updatePriceBehavior(
+export async function recomputeBountyTagBehavior(
   userId: string,
-  price: number,
-  interactionType: InteractionType
+  bountyId: number,
+  executor: Executor = db
 ): Promise<void> {
-  const existing = await db.query.userBehaviorPrice.findFirst({
-    where: eq(userBehaviorPrice.userId, userId),
-  });
+  const bountyTags = await executor
+    .select({ tagId: bountyTag.tagId })
+    .from(bountyTag)
+    .where(eq(bountyTag.bountyId, bountyId));
 
-  if (!existing) {
-    // Create record if doesn't exist
-    await db.insert(userBehaviorPrice).values({
-      userId,
-      avgPriceViewed: interactionType === "view" ? price : 0,
-      avgPriceLiked: interactionType === "like" ? price : 0,
-      avgPriceSubmitted: interactionType === "submit" ? price : 0,
-      avgPriceCompleted: interactionType === "complete" ? price : 0,
-    });
-    return;
+  if (bountyTags.length > 0) {
+    await recomputeTagBehavior(userId, { tagIds: bountyTags.map((bt) => bt.tagId) }, executor);
   }
-
-  // Rolling average update (exponential moving average with alpha=0.1)
-  const alpha = 0.1;
-  const fieldMap = {
-    view: "avgPriceViewed",
-    like: "avgPriceLiked",
-    submit: "avgPriceSubmitted",
-    complete: "avgPriceCompleted",
-  } as const;
-
-  const field = fieldMap[interactionType];
-  const currentAvg = existing[field] || 0;
-  const newAvg = currentAvg === 0 ? price : currentAvg * (1 - alpha) + price * alpha;
-
-  // Compute implicit price range from behavior
-  const allAvgs = [
-    interactionType === "view" ? newAvg : existing.avgPriceViewed,
-    interactionType === "like" ? newAvg : existing.avgPriceLiked,
-    interactionType === "submit" ? newAvg : existing.avgPriceSubmitted,
-    interactionType === "complete" ? newAvg : existing.avgPriceCompleted,
-  ].filter((v) => v > 0);
-
-  const implicitMin = allAvgs.length > 0 ? Math.min(...allAvgs) * 0.5 : null;
-  const implicitMax = allAvgs.length > 0 ? Math.max(...allAvgs) * 1.5 : null;
-
-  await db
-    .update(userBehaviorPrice)
-    .set({
-      [field]: newAvg,
-      implicitPriceMin: implicitMin,
-      implicitPriceMax: implicitMax,
-    })
-    .where(eq(userBehaviorPrice.userId, userId));
 }
 
 /**
- * Update blend config based on total interactions
+ * Batch job: recompute decayed tag scores for every
+ * user with interactions. Scores only decay when recomputed, so this should
+ * run regularly (e.g. daily).
  */
-async function updateBlendConfig(userId: string): Promise<void> {
-  const config = await db.query.userBlendConfig.findFirst({
-    where: eq(userBlendConfig.userId, userId),
-  });
-
-  if (!config) return;
-
-  const newTotal = config.totalInteractions + 1;
-
-  // Compute new weights based on interaction count
-  let explicitWeight = 0.8;
-  let implicitWeight = 0.2;
-
-  if (newTotal >= INTERACTION_THRESHOLDS.TRUST_IMPLICIT) {
-    explicitWeight = 0.3;
-    implicitWeight = 0.7;
-  } else if (newTotal >= INTERACTION_THRESHOLDS.EQUAL_WEIGHT) {
-    explicitWeight = 0.5;
-    implicitWeight = 0.5;
-  } else if (newTotal >= INTERACTION_THRESHOLDS.START_BLENDING) {
-    // Linear interpolation between 80/20 and 50/50
-    const progress =
-      (newTotal - INTERACTION_THRESHOLDS.START_BLENDING) /
-      (INTERACTION_THRESHOLDS.EQUAL_WEIGHT - INTERACTION_THRESHOLDS.START_BLENDING);
-    explicitWeight = 0.8 - progress * 0.3;
-    implicitWeight = 0.2 + progress * 0.3;
+export async function recomputeAllTagScores(
+  options: {
+    halfLifeDays?: number;
+    onProgress?: (done: number, total: number) => void;
+  } = {}
+): Promise<{ users: number; tags: number }> {
+  const users = await db
+    .selectDistinct({ userId: bountyInteraction.userId })
+    .from(bountyInteraction);
+
+  const now = new Date();
+  let tags = 0;
+
+  for (const [i, { userId }] of users.entries()) {
+    tags += await recomputeTagBehavior(userId, { halfLifeDays: options.halfLifeDays, now });
+    options.onProgress?.(i + 1, users.length);
   }
 
-  await db
-    .update(userBlendConfig)
-    .set({
-      totalInteractions: newTotal,
-      explicitWeight,
-      implicitWeight,
-    })
-    .where(eq(userBlendConfig.userId, userId));
+  return { users: users.length, tags };
+}
+
+interface TagBehavior {
+  viewCount: number;
+  viewScore: number;
+  likeCount: number;
+  likeScore: number;
+  submitCount: number;
+  submitScore: number;
+  completeCount: number;
+  completeScore: number;
+  lastInteractionAt: Date | null;
+}
+
+function emptyTagBehavior(): TagBehavior {
+  return {
+    viewCount: 0,
+    viewScore: 0,
+    likeCount: 0,
+    likeScore: 0,
+    submitCount: 0,
+    submitScore: 0,
+    completeCount: 0,
+    completeScore: 0,
+    lastInteractionAt: null,
+  };
 }
 
 /**
- * Check for divergence between explicit and implicit profiles
+ * Rebuild price behavior from the user's latest PRICE_HISTORY_SIZE
+ * interactions of each type (average price per type, and the implicit
+ * range around them)
  */
-async function checkDivergence(userId: string): Promise<void> {
-  // Get user's explicit tags
-  const explicitTags = await db
-    .select({ tagId: userTag.tagId, score: userTag.score })
-    .from(userTag)
-    .where(eq(userTag.userId, userId));
-
-  // Get user's implicit tag behaviors
-  const implicitTags = await db
+async function refreshPriceBehavior(userId: string, executor: Executor = db): Promise<void> {
+  const ranked = executor
     .select({
-      tagId: userBehaviorTag.tagId,
-      implicitScore: userBehaviorTag.implicitScore,
+      type: bountyInteraction.type,
+      price: bounty.price,
+      rank: sql<number>`row_number() over (partition by ${bountyInteraction.type} order by ${bountyInteraction.createdAt} desc, ${bountyInteraction.id} desc)`.as("rank"),
     })
-    .from(userBehaviorTag)
-    .where(eq(userBehaviorTag.userId, userId));
+    .from(bountyInteraction)
+    .innerJoin(bounty, eq(bountyInteraction.bountyId, bounty.id))
+    .where(
+      and(
+        eq(bountyInteraction.userId, userId),
+        inArray(bountyInteraction.type, TRACKED_INTERACTION_TYPES)
+      )
+    )
+    .as("ranked");
+
+  const rows = await executor
+    .select({ type: ranked.type, avgPrice: sql<number>`avg(${ranked.price})::float` })
+    .from(ranked)
+    .where(lte(ranked.rank, PRICE_HISTORY_SIZE))
+    .groupBy(ranked.type);
+
+  const avgByType = new Map(rows.map((row) => [row.type, row.avgPrice]));
+  const averages = {
+    avgPriceViewed: avgByType.get("view") ?? 0,
+    avgPriceLiked: avgByType.get("like") ?? 0,
+    avgPriceSubmitted: avgByType.get("submit") ?? 0,
+    avgPriceCompleted: avgByType.get("complete") ?? 0,
+  };
 
-  // Build maps
-  const explicitMap = new Map(explicitTags.map((t) => [t.tagId, t.score]));
-  const implicitMap = new Map(implicitTags.map((t) => [t.tagId, t.implicitScore]));
-
-  // Check for divergence:
-  // 1. High implicit score for tags not in explicit profile
-  // 2. Low implicit engagement for tags with high explicit score
-
-  for (const [tagId, implicitScore] of implicitMap) {
-    const explicitScore = explicitMap.get(tagId);
-
-    // User engaging with tags they didn't claim
-    if (!explicitScore && implicitScore >= 3) {
-      await db
-        .update(userBehaviorTag)
-        .set({
-          divergenceDetected: true,
-          lastExplicitScore: 0,
-        })
-        .where(
-          and(
-            eq(userBehaviorTag.userId, userId),
-            eq(userBehaviorTag.tagId, tagId)
-          )
-        );
-    }
+  // Compute implicit price range from behavior
+  const allAvgs = Object.values(averages).filter((v) => v > 0);
+  const implicitPriceMin = allAvgs.length > 0 ? Math.min(...allAvgs) * 0.5 : null;
+  const implicitPriceMax = allAvgs.length > 0 ? Math.max(...allAvgs) * 1.5 : null;
+
+  const values = { ...averages, implicitPriceMin, implicitPriceMax };
+  await executor
+    .insert(userBehaviorPrice)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: userBehaviorPrice.userId, set: values });
+}
 
-    // User not engaging with tags they claimed to know well
-    if (explicitScore && explicitScore >= 4 && implicitScore < 1) {
-      await db
-        .update(userBehaviorTag)
-        .set({
-          divergenceDetected: true,
-          lastExplicitScore: explicitScore,
-        })
-        .where(
-          and(
-            eq(userBehaviorTag.userId, userId),
-            eq(userBehaviorTag.tagId, tagId)
-          )
-        );
-    }
-  }
+/**
+ * Rebuild blend weights from the user's tracked interaction count
+ */
+async function refreshBlendConfig(userId: string, executor: Executor = db): Promise<void> {
+  const [interactions] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(bountyInteraction)
+    .where(
+      and(
+        eq(bountyInteraction.userId, userId),
+        inArray(bountyInteraction.type, TRACKED_INTERACTION_TYPES)
+      )
+    );
+
+  const total = interactions?.count ?? 0;
+
+  await executor
+    .update(userBlendConfig)
+    .set({ totalInteractions: total, ...computeBlendWeights(total) })
+    .where(eq(userBlendConfig.userId, userId));
 }
 
 // ============ BLENDED SCORING ============
@@ -328,6 +353,11 @@ export interface BlendedTagScore {
   implicitScore: number;
   blendedScore: number;
   divergent: boolean;
+  // Blend on the explicit 0-5 scale (what the engine consumes).
+  // normalizedScore = explicitContribution + implicitContribution
+  explicitContribution: number;
+  implicitContribution: number;
+  normalizedScore: number;
 }
 
 /**
@@ -339,8 +369,11 @@ export async function getBlendedTagScores(userId: string): Promise<BlendedTagSco
     where: eq(userBlendConfig.userId, userId),
   });
 
-  const explicitWeight = config?.explicitWeight ?? 0.8;
-  const implicitWeight = config?.implicitWeight ?? 0.2;
+  const weights: BlendWeights = {
+    explicitWeight: config?.explicitWeight ?? 0.8,
+    implicitWeight: config?.implicitWeight ?? 0.2,
+  };
+  const totalInteractions = config?.totalInteractions ?? 0;
 
   // Get explicit tags
   const explicitTags = await db
@@ -358,17 +391,19 @@ export async function getBlendedTagScores(userId: string): Promise<BlendedTagSco
     .select({
       tagId: userBehaviorTag.tagId,
       implicitScore: userBehaviorTag.implicitScore,
-      divergenceDetected: userBehaviorTag.divergenceDetected,
     })
     .from(userBehaviorTag)
     .where(eq(userBehaviorTag.userId, userId));
 
+  // Tags with an open divergence prompt
+  const divergentTagIds = await getDivergentTagIds(userId);
+
   // Build maps
   const explicitMap = new Map(
     explicitTags.map((t) => [t.tagId, { name: t.tagName, score: t.score }])
   );
   const implicitMap = new Map(
-    implicitTags.map((t) => [t.tagId, { score: t.implicitScore, divergent: t.divergenceDetected }])
+    implicitTags.map((t) => [t.tagId, { score: t.implicitScore }])
   );
 
   // Get all tag names for implicit-only tags
@@ -398,7 +433,14 @@ export async function getBlendedTagScores(userId: string): Promise<BlendedTagSco
 
     // Blend scores
     const blendedScore =
-      explicitScore * explicitWeight + implicitScore * implicitWeight;
+      explicitScore * weights.explicitWeight + implicitScore * weights.implicitWeight;
+
+    const { explicitContribution, implicitContribution } = blendTagScore(
+      explicitScore,
+      implicitScore,
+      weights,
+      totalInteractions
+    );
 
     results.push({
       tagId,
@@ -406,7 +448,10 @@ export async function getBlendedTagScores(userId: string): Promise<BlendedTagSco
       explicitScore,
       implicitScore,
       blendedScore,
-      divergent: implicit?.divergent ?? false,
+      divergent: divergentTagIds.has(tagId),
+      explicitContribution,
+      implicitContribution,
+      normalizedScore: explicitContribution + implicitContribution,
     });
   }
 
@@ -416,6 +461,24 @@ export async function getBlendedTagScores(userId: string): Promise<BlendedTagSco
   return results;
 }
 
+/**
+ * Blended tag scores in the shape the recommendation engine expects
+ * (0-5 per tag, same scale as explicit scores). Tags that blend to 0 are dropped.
+ */
+export async function getEngineTagScores(userId: string): Promise<UserTagScore[]> {
+  const blended = await getBlendedTagScores(userId);
+
+  return blended
+    .filter((t) => t.normalizedScore > 0)
+    .map((t) => ({
+      tagId: t.tagId,
+      tagName: t.tagName,
+      score: t.normalizedScore,
+      explicitContribution: t.explicitContribution,
+      implicitContribution: t.implicitContribution,
+    }));
+}
+
 /**
  * Get blended price preferences
  */
@@ -432,7 +495,7 @@ export async function getBlendedPriceRange(
 
   // Get explicit price range from onboarding
   const onboarding = await db.query.userOnboarding.findFirst({
-    where: eq(userBehaviorPrice.userId, userId),
+    where: eq(userOnboarding.userId, userId),
   });
 
   const explicitMin = onboarding?.priceRangeMin ?? 100;
@@ -460,119 +523,24 @@ export async function getBlendedPriceRange(
   };
 }
 
-// ============ DIVERGENCE DETECTION ============
-
-export interface DivergenceAlert {
-  type: "new_interest" | "unused_skill";
-  tagId: number;
-  tagName: string;
-  explicitScore: number;
-  implicitScore: number;
-  message: string;
-}
-
 /**
- * Get divergence alerts for a user (for "are you sure?" prompts)
+ * Onboarding answers (plus the blended price range) in the shape the
+ * recommendation engine expects. Returns undefined before onboarding.
  */
-export async function getDivergenceAlerts(userId: string): Promise<DivergenceAlert[]> {
-  const config = await db.query.userBlendConfig.findFirst({
-    where: eq(userBlendConfig.userId, userId),
+export async function getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+  const onboarding = await db.query.userOnboarding.findFirst({
+    where: eq(userOnboarding.userId, userId),
   });
 
-  // Don't show prompts too frequently
-  if (config?.lastDivergencePrompt) {
-    const hoursSinceLastPrompt =
-      (Date.now() - config.lastDivergencePrompt.getTime()) / (1000 * 60 * 60);
-    if (hoursSinceLastPrompt < 24) {
-      return [];
-    }
-  }
-
-  // Get divergent tags
-  const divergentTags = await db
-    .select({
-      tagId: userBehaviorTag.tagId,
-      implicitScore: userBehaviorTag.implicitScore,
-      lastExplicitScore: userBehaviorTag.lastExplicitScore,
-    })
-    .from(userBehaviorTag)
-    .where(
-      and(
-        eq(userBehaviorTag.userId, userId),
-        eq(userBehaviorTag.divergenceDetected, true)
-      )
-    );
-
-  if (divergentTags.length === 0) return [];
-
-  // Get tag names
-  const tagIds = divergentTags.map((t) => t.tagId);
-  let tagNames: { id: number; name: string }[] = [];
-  if (tagIds.length > 0) {
-    tagNames = await db
-      .select({ id: tag.id, name: tag.name })
-      .from(tag)
-      .where(inArray(tag.id, tagIds));
-  }
-
-  const nameMap = new Map(tagNames.map((t) => [t.id, t.name]));
-
-  const alerts: DivergenceAlert[] = [];
-
-  for (const dt of divergentTags) {
-    const tagName = nameMap.get(dt.tagId) ?? `Tag ${dt.tagId}`;
-    const explicitScore = dt.lastExplicitScore ?? 0;
+  if (!onboarding) return undefined;
 
-    if (explicitScore === 0 && dt.implicitScore >= 3) {
-      // New interest detected
-      alerts.push({
-        type: "new_interest",
-        tagId: dt.tagId,
-        tagName,
-        explicitScore: 0,
-        implicitScore: dt.implicitScore,
-        message: `You've been engaging with ${tagName} bounties. Add it to your skills?`,
-      });
-    } else if (explicitScore >= 4 && dt.implicitScore < 1) {
-      // Claimed skill not being used
-      alerts.push({
-        type: "unused_skill",
-        tagId: dt.tagId,
-        tagName,
-        explicitScore,
-        implicitScore: dt.implicitScore,
-        message: `You said you know ${tagName} (${explicitScore}/5), but haven't engaged with those bounties. Still accurate?`,
-      });
-    }
-  }
-
-  return alerts;
-}
+  const priceRange = await getBlendedPriceRange(userId);
 
-/**
- * Mark divergence prompt as shown
- */
-export async function markDivergencePromptShown(userId: string): Promise<void> {
-  await db
-    .update(userBlendConfig)
-    .set({
-      lastDivergencePrompt: new Date(),
-      divergencePromptCount: sql`${userBlendConfig.divergencePromptCount} + 1`,
-    })
-    .where(eq(userBlendConfig.userId, userId));
-}
-
-/**
- * Clear divergence flag for a tag (after user responds to prompt)
- */
-export async function clearDivergence(userId: string, tagId: number): Promise<void> {
-  await db
-    .update(userBehaviorTag)
-    .set({ divergenceDetected: false })
-    .where(
-      and(
-        eq(userBehaviorTag.userId, userId),
-        eq(userBehaviorTag.tagId, tagId)
-      )
-    );
+  return {
+    priceRange: { min: priceRange.min, max: priceRange.max },
+    bountyTypes: (onboarding.bountyTypes ?? []) as BountyType[],
+    deadlineStyle: onboarding.deadlineStyle,
+    riskTolerance: onboarding.riskTolerance,
+    timeCommitment: onboarding.timeCommitment,
+  };
 }
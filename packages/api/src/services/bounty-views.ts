@@ -0,0 +1,259 @@
+/**
+ * Bounty Views
+ *
+ * The single ingestion path for views. A view counts (bountyView row,
+ * bounty.views and an implicit "view" interaction) only when:
+ *   - the request doesn't come from a known bot or crawler user agent
+ *   - the user had fewer than VIEW_RATE_LIMIT views counted in the last
+ *     VIEW_RATE_WINDOW_SECONDS (rapid-fire clicking, scripted browsing)
+ *   - the user's last counted view of the bounty is older than
+ *     VIEW_DEDUP_WINDOW_MINUTES (re-renders, quick revisits)
+ *
+ * The dedup check is a single upsert on bountyViewer, so concurrent
+ * duplicates count once, and it commits in one transaction with everything
+ * a counted view writes. bounty.uniqueViewers counts distinct users and is
+ * kept separately from bounty.views.
+ *
+ * Dwell time (visible seconds, reported by the client when the user leaves
+ * the bounty) is added to the user's latest counted view of it, and weights
+ * that view in behavior tracking (see behavior.ts). The re-weighting goes
+ * through the interaction outbox as a "dwell" event, so it runs in order
+ * with the user's other events instead of racing the worker.
+ *
+ * Impressions (bounties shown in the feed, search results and
+ * recommendations) are kept per user and bounty, as exposure for
+ * divergence detection (see divergence.ts).
+ */
+
+import { and, avg, count, desc, eq, gte, isNotNull, lte, sql } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import {
+  bounty,
+  bountyTag,
+  bountyView,
+  bountyViewer,
+  interactionEvent,
+} from "@algorithim-test/db/schema/bounty";
+import { bountyImpression } from "@algorithim-test/db/schema/recommendation";
+import { userProfile } from "@algorithim-test/db/schema/user-profile";
+import { recordBountyInteraction, type InteractionEvent } from "./bounty";
+import { recomputeBountyTagBehavior } from "./behavior";
+import { BEHAVIOR_STALE_DEBOUNCE_MINUTES, markScoreCacheStale } from "./score-cache";
+
+// ============ TYPES ============
+
+export type ViewSkipReason = "bot" | "rate_limited" | "duplicate";
+
+export interface ViewResult {
+  counted: boolean;
+  reason: ViewSkipReason | null; // Why the view wasn't counted
+  avgPrice: number | null;       // Updated average price viewed (counted views only)
+}
+
+export interface TagDwell {
+  avgSeconds: number;
+  views: number; // Views with a measured dwell
+}
+
+// ============ CONSTANTS ============
+
+export const VIEW_DEDUP_WINDOW_MINUTES = 30;
+export const VIEW_RATE_LIMIT = 20;
+export const VIEW_RATE_WINDOW_SECONDS = 60;
+
+// Views feeding the user's average price viewed
+const AVG_PRICE_VIEWS = 10;
+
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|headless|preview|lighthouse/i;
+
+// Dwell reports attach to a view at most this old, and a view's dwell is capped
+const DWELL_ATTACH_WINDOW_MINUTES = 120;
+const MAX_DWELL_SECONDS = 30 * 60;
+
+// Outbox event type for dwell reports (see applyDwellEvent)
+export const DWELL_EVENT_TYPE = "dwell";
+
+// ============ VIEWS ============
+
+/**
+ * Record a user viewing a bounty, unless it's suppressed or a duplicate
+ */
+export async function recordBountyView(
+  userId: string,
+  bountyId: number,
+  userAgent: string | null,
+  now: Date = new Date()
+): Promise<ViewResult> {
+  // 1. Bots and rapid-fire viewing
+  if (userAgent && BOT_USER_AGENT.test(userAgent)) {
+    return { counted: false, reason: "bot", avgPrice: null };
+  }
+
+  const [recent] = await db
+    .select({ count: count() })
+    .from(bountyView)
+    .where(
+      and(
+        eq(bountyView.userId, userId),
+        gte(bountyView.viewedAt, new Date(now.getTime() - VIEW_RATE_WINDOW_SECONDS * 1000))
+      )
+    );
+
+  if ((recent?.count ?? 0) >= VIEW_RATE_LIMIT) {
+    return { counted: false, reason: "rate_limited", avgPrice: null };
+  }
+
+  // 2-5 commit together, so the dedupe row, counters, signal and average
+  // price never disagree
+  const avgPrice = await db.transaction(async (tx) => {
+    // 2. Dedup: counts only if new, or if the last counted view is outside the window
+    const [viewer] = await tx
+      .insert(bountyViewer)
+      .values({ userId, bountyId, firstViewedAt: now, lastCountedAt: now })
+      .onConflictDoUpdate({
+        target: [bountyViewer.userId, bountyViewer.bountyId],
+        set: { lastCountedAt: now, viewCount: sql`${bountyViewer.viewCount} + 1` },
+        setWhere: lte(
+          bountyViewer.lastCountedAt,
+          new Date(now.getTime() - VIEW_DEDUP_WINDOW_MINUTES * 60 * 1000)
+        ),
+      })
+      .returning({ viewCount: bountyViewer.viewCount });
+
+    if (!viewer) return null;
+
+    // 3. Count it
+    await tx.insert(bountyView).values({ userId, bountyId, viewedAt: now });
+
+    const firstView = viewer.viewCount === 1;
+    await tx
+      .update(bounty)
+      .set({
+        views: sql`${bounty.views} + 1`,
+        ...(firstView && { uniqueViewers: sql`${bounty.uniqueViewers} + 1` }),
+      })
+      .where(eq(bounty.id, bountyId));
+
+    // 4. Implicit signal (applied by the interaction worker)
+    await recordBountyInteraction(userId, bountyId, "view", tx);
+
+    // 5. Update avg price viewed
+    const recentViews = await tx
+      .select({ price: bounty.price })
+      .from(bountyView)
+      .innerJoin(bounty, eq(bountyView.bountyId, bounty.id))
+      .where(eq(bountyView.userId, userId))
+      .orderBy(desc(bountyView.viewedAt))
+      .limit(AVG_PRICE_VIEWS);
+
+    const average = recentViews.reduce((sum, v) => sum + v.price, 0) / recentViews.length;
+
+    await tx
+      .update(userProfile)
+      .set({ avgPriceViewed: average })
+      .where(eq(userProfile.userId, userId));
+
+    return average;
+  });
+
+  if (avgPrice === null) {
+    return { counted: false, reason: "duplicate", avgPrice: null };
+  }
+
+  // avgPriceViewed feeds price affinity
+  await markScoreCacheStale(userId, "behavior", { debounceMinutes: BEHAVIOR_STALE_DEBOUNCE_MINUTES, now });
+
+  return { counted: true, reason: null, avgPrice };
+}
+
+// ============ DWELL TIME ============
+
+/**
+ * Add visible seconds to the user's latest counted view of a bounty and
+ * queue a dwell event to re-weight the bounty's tags. Returns false when
+ * there's no recent view to attach them to.
+ */
+export async function recordBountyDwell(
+  userId: string,
+  bountyId: number,
+  seconds: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  const [view] = await db
+    .select({ id: bountyView.id })
+    .from(bountyView)
+    .where(
+      and(
+        eq(bountyView.userId, userId),
+        eq(bountyView.bountyId, bountyId),
+        gte(bountyView.viewedAt, new Date(now.getTime() - DWELL_ATTACH_WINDOW_MINUTES * 60 * 1000))
+      )
+    )
+    .orderBy(desc(bountyView.viewedAt))
+    .limit(1);
+
+  if (!view) return false;
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(bountyView)
+      .set({
+        duration: sql`least(coalesce(${bountyView.duration}, 0) + ${Math.round(seconds)}, ${MAX_DWELL_SECONDS})`,
+      })
+      .where(eq(bountyView.id, view.id));
+
+    await tx.insert(interactionEvent).values({ userId, bountyId, type: DWELL_EVENT_TYPE });
+  });
+
+  return true;
+}
+
+/**
+ * Apply a dwell event (run by the interaction worker): re-weight the tags
+ * of the bounty from the user's current dwell. Rebuilds from view history,
+ * so it's safe to retry.
+ */
+export async function applyDwellEvent(event: InteractionEvent): Promise<void> {
+  await recomputeBountyTagBehavior(event.userId, event.bountyId);
+  await markScoreCacheStale(event.userId, "behavior", { debounceMinutes: BEHAVIOR_STALE_DEBOUNCE_MINUTES });
+}
+
+/**
+ * A user's average dwell per tag, over views with a measured dwell
+ */
+export async function getTagDwell(userId: string): Promise<Map<number, TagDwell>> {
+  const rows = await db
+    .select({
+      tagId: bountyTag.tagId,
+      avgSeconds: avg(bountyView.duration).mapWith(Number),
+      views: count(),
+    })
+    .from(bountyView)
+    .innerJoin(bountyTag, eq(bountyTag.bountyId, bountyView.bountyId))
+    .where(and(eq(bountyView.userId, userId), isNotNull(bountyView.duration)))
+    .groupBy(bountyTag.tagId);
+
+  return new Map(rows.map((row) => [row.tagId, { avgSeconds: row.avgSeconds, views: row.views }]));
+}
+
+// ============ IMPRESSIONS ============
+
+/**
+ * Record bounties shown to a user
+ */
+export async function recordImpressions(
+  userId: string,
+  bountyIds: number[],
+  now: Date = new Date()
+): Promise<void> {
+  const uniqueIds = [...new Set(bountyIds)];
+  if (uniqueIds.length === 0) return;
+
+  await db
+    .insert(bountyImpression)
+    .values(uniqueIds.map((bountyId) => ({ userId, bountyId, firstShownAt: now, lastShownAt: now })))
+    .onConflictDoUpdate({
+      target: [bountyImpression.userId, bountyImpression.bountyId],
+      set: { shownCount: sql`${bountyImpression.shownCount} + 1`, lastShownAt: now },
+    });
+}
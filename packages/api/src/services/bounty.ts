@@ -0,0 +1,441 @@
+/**
+ * Bounty Service
+ *
+ * Lifecycle (who can move a bounty where):
+ *
+ *   open ──claim──> claimed ──complete──> completed
+ *     ^               │
+ *     └───unclaim─────┘
+ *   open/claimed ──accept submission──> completed (creator)
+ *   open/claimed ──close──> closed      (creator)
+ *   open ──(expiry job)──> expired ──edit expiresAt──> open
+ *
+ * Submissions: pending ──> accepted | rejected (creator) | withdrawn (submitter)
+ *
+ * Every hunter-side step is also recorded as a bountyInteraction, so
+ * attribution, behavior tracking and engagement see it. Interactions go
+ * through the interaction outbox and are applied by the interaction worker
+ * (see interaction-events.ts).
+ *
+ * Also keeps derived bounty state in sync with reality:
+ *   - open bounties past expiresAt are moved to "expired"
+ *   - engagementScore is recomputed from counters plus recent velocity
+ *     (see @algorithim-test/db/engagement)
+ */
+
+import { eq, and, gte, lte, inArray, sql } from "drizzle-orm";
+import { db, type Executor } from "@algorithim-test/db";
+import {
+  bounty,
+  bountyInteraction,
+  bountySubmission,
+  interactionEvent,
+} from "@algorithim-test/db/schema/bounty";
+import { userProfile } from "@algorithim-test/db/schema/user-profile";
+import {
+  calculateEngagementScoreWithVelocity,
+  ENGAGEMENT_VELOCITY_WINDOW_DAYS,
+  type EngagementCounts,
+} from "@algorithim-test/db/engagement";
+import { attributeInteraction } from "./attribution";
+import { trackBehavior } from "./behavior";
+import type { InteractionType } from "./tag-blend";
+import { BEHAVIOR_STALE_DEBOUNCE_MINUTES, markScoreCacheStale } from "./score-cache";
+
+// ============ TYPES ============
+
+export type BountyStatus = (typeof bounty.$inferSelect)["status"];
+export type BountyTier = (typeof bounty.$inferSelect)["tier"];
+export type BountyInteractionType = InteractionType | "claim";
+export type SubmissionStatus = (typeof bountySubmission.$inferSelect)["status"];
+export type InteractionEvent = typeof interactionEvent.$inferSelect;
+
+// ============ CONSTANTS ============
+
+// Legal status transitions
+const BOUNTY_TRANSITIONS: Record<BountyStatus, BountyStatus[]> = {
+  open: ["claimed", "completed", "closed", "expired"],
+  claimed: ["open", "completed", "closed"],
+  expired: ["open"],
+  completed: [],
+  closed: [],
+};
+
+// Legal submission status transitions
+const SUBMISSION_TRANSITIONS: Record<SubmissionStatus, SubmissionStatus[]> = {
+  pending: ["accepted", "rejected", "withdrawn"],
+  accepted: [],
+  rejected: [],
+  withdrawn: [],
+};
+
+// Price thresholds (USD) for tiers, matching the seed's TIER_CONFIG
+const TIER_MIN_PRICE = {
+  middle: 200,
+  high: 1000,
+} as const;
+
+// Skip writes when the score barely moved
+const MIN_SCORE_CHANGE = 0.01;
+
+// ============ LIFECYCLE ============
+
+/**
+ * Throw if a bounty can't move from `from` to `to`
+ */
+export function assertTransition(from: BountyStatus, to: BountyStatus): void {
+  if (!BOUNTY_TRANSITIONS[from].includes(to)) {
+    throw new Error(`Cannot move bounty from ${from} to ${to}`);
+  }
+}
+
+/**
+ * Tier implied by a bounty's price
+ */
+export function tierForPrice(price: number): BountyTier {
+  if (price >= TIER_MIN_PRICE.high) return "high";
+  if (price >= TIER_MIN_PRICE.middle) return "middle";
+  return "basic";
+}
+
+/**
+ * Move a bounty to a new status, but only if it is still in `from`.
+ * The conditional update makes concurrent transitions safe (e.g. two
+ * hunters claiming at once): the loser gets an error instead of
+ * overwriting the winner.
+ */
+export async function transitionBounty(
+  bountyId: number,
+  from: BountyStatus,
+  to: BountyStatus,
+  changes: Partial<typeof bounty.$inferInsert> = {},
+  executor: Executor = db
+) {
+  assertTransition(from, to);
+
+  // Reopening (unclaim, un-expire) re-lists the bounty for score caches
+  const listed = to === "open" ? { listedAt: new Date() } : {};
+
+  const [updated] = await executor
+    .update(bounty)
+    .set({ ...changes, ...listed, status: to })
+    .where(and(eq(bounty.id, bountyId), eq(bounty.status, from)))
+    .returning();
+
+  if (!updated) {
+    throw new Error("Bounty was modified by someone else, please retry");
+  }
+
+  return updated;
+}
+
+// ============ SUBMISSIONS ============
+
+/**
+ * Move a submission to a new status if it is still in `from`
+ * (same conditional-update pattern as transitionBounty)
+ */
+export async function transitionSubmission(
+  submissionId: number,
+  from: SubmissionStatus,
+  to: SubmissionStatus,
+  changes: Partial<typeof bountySubmission.$inferInsert> = {},
+  executor: Executor = db
+) {
+  if (!SUBMISSION_TRANSITIONS[from].includes(to)) {
+    throw new Error(`Cannot move submission from ${from} to ${to}`);
+  }
+
+  const [updated] = await executor
+    .update(bountySubmission)
+    .set({ ...changes, status: to })
+    .where(and(eq(bountySubmission.id, submissionId), eq(bountySubmission.status, from)))
+    .returning();
+
+  if (!updated) {
+    throw new Error("Submission was modified by someone else, please retry");
+  }
+
+  return updated;
+}
+
+/**
+ * Accept a submission: completes the bounty with the submitter as the
+ * winner, rejects the other pending submissions and credits the winner
+ * with a "complete" signal. All of it runs in one transaction, so losing a
+ * race on either transition leaves the bounty and its submissions untouched
+ */
+export async function acceptSubmission(
+  submission: typeof bountySubmission.$inferSelect,
+  bountyStatus: BountyStatus,
+  reviewerId: string,
+  notes?: string
+) {
+  const reviewedAt = new Date();
+
+  return db.transaction(async (tx) => {
+    const completed = await transitionBounty(
+      submission.bountyId,
+      bountyStatus,
+      "completed",
+      { claimedById: submission.submitterId, completedAt: reviewedAt },
+      tx
+    );
+
+    const accepted = await transitionSubmission(
+      submission.id,
+      "pending",
+      "accepted",
+      { reviewerNotes: notes ?? null, reviewedById: reviewerId, reviewedAt },
+      tx
+    );
+
+    await tx
+      .update(bountySubmission)
+      .set({
+        status: "rejected",
+        reviewerNotes: "Another submission was accepted",
+        reviewedById: reviewerId,
+        reviewedAt,
+      })
+      .where(
+        and(
+          eq(bountySubmission.bountyId, submission.bountyId),
+          eq(bountySubmission.status, "pending")
+        )
+      );
+
+    await recordBountyInteraction(submission.submitterId, submission.bountyId, "complete", tx);
+
+    return { bounty: completed, submission: accepted };
+  });
+}
+
+// ============ INTERACTIONS ============
+
+/**
+ * Record an interaction. It is appended to the interaction outbox and
+ * acknowledged right away; the interaction worker applies it later
+ * (see applyBountyInteraction and interaction-events.ts)
+ */
+export async function recordBountyInteraction(
+  userId: string,
+  bountyId: number,
+  type: BountyInteractionType,
+  executor: Executor = db
+): Promise<{ eventId: number }> {
+  const [event] = await executor
+    .insert(interactionEvent)
+    .values({ userId, bountyId, type })
+    .returning({ id: interactionEvent.id });
+
+  return { eventId: event!.id };
+}
+
+/**
+ * Apply an outbox event: record the interaction and update everything
+ * derived from it: attribution, implicit profile, user engagement and
+ * bounty metrics.
+ *
+ * Safe to retry after a failure: the interaction row is keyed by event id
+ * and counters are only bumped by the call that inserts it. Every later
+ * step rebuilds from interaction history (tag, price and blend behavior,
+ * the engagement recount) or is keyed by the interaction (attribution), so
+ * running it again gives the same result.
+ */
+export async function applyBountyInteraction(event: InteractionEvent): Promise<void> {
+  const { userId, bountyId } = event;
+  const type = event.type as BountyInteractionType;
+
+  // 1-2. Record the interaction (at the time it happened, not when it's
+  // applied) and bump bounty engagement counters in one transaction, so a
+  // retry never sees the row without the counters. Views are counted when
+  // they're ingested (see bounty-views.ts).
+  const interaction = await db.transaction(async (tx) => {
+    const [inserted] = await tx
+      .insert(bountyInteraction)
+      .values({ userId, bountyId, type, eventId: event.id, createdAt: event.createdAt })
+      .onConflictDoNothing({ target: bountyInteraction.eventId })
+      .returning();
+
+    if (!inserted) {
+      return tx.query.bountyInteraction.findFirst({
+        where: eq(bountyInteraction.eventId, event.id),
+      });
+    }
+
+    if (type === "like") {
+      await tx
+        .update(bounty)
+        .set({ likes: sql`${bounty.likes} + 1` })
+        .where(eq(bounty.id, bountyId));
+    } else if (type === "submit") {
+      await tx
+        .update(bounty)
+        .set({ submissions: sql`${bounty.submissions} + 1` })
+        .where(eq(bounty.id, bountyId));
+    }
+
+    return inserted;
+  });
+
+  if (!interaction) {
+    throw new Error(`Interaction for event ${event.id} not found`);
+  }
+
+  // 3. Attribute it to recent recommendation impressions
+  await attributeInteraction(interaction);
+
+  // 4. Track behavior for implicit profile (claims aren't a behavior signal)
+  if (type !== "claim") {
+    await trackBehavior(userId, bountyId);
+    await markScoreCacheStale(userId, "behavior", {
+      debounceMinutes: BEHAVIOR_STALE_DEBOUNCE_MINUTES,
+    });
+  }
+
+  // 5. Update user engagement score
+  const interactionCountResult = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(bountyInteraction)
+    .where(eq(bountyInteraction.userId, userId));
+
+  const interactionCount = interactionCountResult[0]?.count || 0;
+
+  await db
+    .update(userProfile)
+    .set({
+      totalInteractions: interactionCount,
+      engagementScore: Math.min(interactionCount * 2, 100),
+    })
+    .where(eq(userProfile.userId, userId));
+
+  // 6. Recompute the bounty's engagement score
+  await refreshBountyEngagement(bountyId);
+}
+
+// ============ EXPIRY ============
+
+/**
+ * Move open bounties whose expiresAt has passed to "expired"
+ * Returns the ids of the bounties that were expired
+ */
+export async function expireStaleBounties(now: Date = new Date()): Promise<number[]> {
+  const expired = await db
+    .update(bounty)
+    .set({ status: "expired" })
+    .where(and(eq(bounty.status, "open"), lte(bounty.expiresAt, now)))
+    .returning({ id: bounty.id });
+
+  return expired.map((b) => b.id);
+}
+
+// ============ ENGAGEMENT ============
+
+/**
+ * Recompute engagementScore for a single bounty (after an interaction)
+ */
+export async function refreshBountyEngagement(
+  bountyId: number,
+  windowDays: number = ENGAGEMENT_VELOCITY_WINDOW_DAYS
+): Promise<number | null> {
+  const current = await db.query.bounty.findFirst({
+    where: eq(bounty.id, bountyId),
+  });
+
+  if (!current) return null;
+
+  const recent = await getRecentEngagement(windowStart(new Date(), windowDays), [bountyId]);
+  const engagementScore = calculateEngagementScoreWithVelocity(
+    current,
+    recent.get(bountyId) ?? emptyCounts(),
+    windowDays
+  );
+
+  await db.update(bounty).set({ engagementScore }).where(eq(bounty.id, bountyId));
+
+  return engagementScore;
+}
+
+/**
+ * Batch job: recompute engagementScore for every bounty
+ */
+export async function recomputeAllBountyEngagement(
+  options: { windowDays?: number; now?: Date } = {}
+): Promise<{ bounties: number; updated: number }> {
+  const windowDays = options.windowDays ?? ENGAGEMENT_VELOCITY_WINDOW_DAYS;
+  const now = options.now ?? new Date();
+
+  const bounties = await db
+    .select({
+      id: bounty.id,
+      views: bounty.views,
+      submissions: bounty.submissions,
+      likes: bounty.likes,
+      engagementScore: bounty.engagementScore,
+    })
+    .from(bounty);
+
+  const recent = await getRecentEngagement(windowStart(now, windowDays));
+
+  let updated = 0;
+  for (const b of bounties) {
+    const engagementScore = calculateEngagementScoreWithVelocity(
+      b,
+      recent.get(b.id) ?? emptyCounts(),
+      windowDays
+    );
+
+    if (Math.abs(engagementScore - b.engagementScore) < MIN_SCORE_CHANGE) continue;
+
+    await db.update(bounty).set({ engagementScore }).where(eq(bounty.id, b.id));
+    updated++;
+  }
+
+  return { bounties: bounties.length, updated };
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Count views, likes and submissions per bounty since `since`
+ */
+async function getRecentEngagement(
+  since: Date,
+  bountyIds?: number[]
+): Promise<Map<number, EngagementCounts>> {
+  const rows = await db
+    .select({
+      bountyId: bountyInteraction.bountyId,
+      type: bountyInteraction.type,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(bountyInteraction)
+    .where(
+      and(
+        gte(bountyInteraction.createdAt, since),
+        inArray(bountyInteraction.type, ["view", "like", "submit"]),
+        bountyIds ? inArray(bountyInteraction.bountyId, bountyIds) : undefined
+      )
+    )
+    .groupBy(bountyInteraction.bountyId, bountyInteraction.type);
+
+  const counts = new Map<number, EngagementCounts>();
+  for (const row of rows) {
+    const entry = counts.get(row.bountyId) ?? emptyCounts();
+    if (row.type === "view") entry.views = row.count;
+    else if (row.type === "like") entry.likes = row.count;
+    else if (row.type === "submit") entry.submissions = row.count;
+    counts.set(row.bountyId, entry);
+  }
+
+  return counts;
+}
+
+function windowStart(now: Date, windowDays: number): Date {
+  return new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+}
+
+function emptyCounts(): EngagementCounts {
+  return { views: 0, submissions: 0, likes: 0 };
+}
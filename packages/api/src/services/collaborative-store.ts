@@ -0,0 +1,109 @@
+/**
+ * Collaborative Filtering Store
+ *
+ * Precomputes item-item neighbors (see collaborative.ts) into the
+ * bounty_neighbor table and loads what the recommendation engine needs
+ * for one user: their interaction history and the neighbor rows that
+ * point at it.
+ */
+
+import { eq, inArray, lt, sql } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import { bountyInteraction, bountyNeighbor } from "@algorithim-test/db/schema/bounty";
+import {
+  buildInteractionHistory,
+  computeBountyNeighbors,
+  type CollaborativeInput,
+  type NeighborMap,
+  type NeighborOptions,
+} from "./collaborative";
+
+// Rows per insert statement
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Rebuild the neighbor table from all interactions.
+ * Rows are upserted, then rows from earlier runs are removed, so readers
+ * never see an empty table mid-run.
+ */
+export async function recomputeBountyNeighbors(
+  options: NeighborOptions = {}
+): Promise<{ bounties: number; pairs: number }> {
+  const runStartedAt = new Date();
+
+  const interactions = await db
+    .select({
+      userId: bountyInteraction.userId,
+      bountyId: bountyInteraction.bountyId,
+      type: bountyInteraction.type,
+    })
+    .from(bountyInteraction);
+
+  const neighbors = computeBountyNeighbors(buildInteractionHistory(interactions), options);
+
+  const rows = Array.from(neighbors).flatMap(([bountyId, list]) =>
+    list.map((n) => ({
+      bountyId,
+      neighborId: n.neighborId,
+      similarity: n.similarity,
+      coUsers: n.coUsers,
+      computedAt: runStartedAt,
+    }))
+  );
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(bountyNeighbor)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [bountyNeighbor.bountyId, bountyNeighbor.neighborId],
+        set: {
+          similarity: sql`excluded.similarity`,
+          coUsers: sql`excluded.co_users`,
+          computedAt: sql`excluded.computed_at`,
+        },
+      });
+  }
+
+  await db.delete(bountyNeighbor).where(lt(bountyNeighbor.computedAt, runStartedAt));
+
+  return { bounties: neighbors.size, pairs: rows.length };
+}
+
+/**
+ * The user's interaction history plus, for every bounty, the neighbors the
+ * user has engaged with (the only ones that can vote for it)
+ */
+export async function loadCollaborativeInput(userId: string): Promise<CollaborativeInput> {
+  const interactions = await db
+    .select({
+      userId: bountyInteraction.userId,
+      bountyId: bountyInteraction.bountyId,
+      type: bountyInteraction.type,
+    })
+    .from(bountyInteraction)
+    .where(eq(bountyInteraction.userId, userId));
+
+  const history = buildInteractionHistory(interactions).get(userId) ?? new Map<number, number>();
+  const neighbors: NeighborMap = new Map();
+
+  if (history.size === 0) return { history, neighbors };
+
+  const rows = await db
+    .select({
+      bountyId: bountyNeighbor.bountyId,
+      neighborId: bountyNeighbor.neighborId,
+      similarity: bountyNeighbor.similarity,
+    })
+    .from(bountyNeighbor)
+    .where(inArray(bountyNeighbor.neighborId, Array.from(history.keys())));
+
+  for (const row of rows) {
+    if (!neighbors.has(row.bountyId)) {
+      neighbors.set(row.bountyId, []);
+    }
+    neighbors.get(row.bountyId)!.push({ neighborId: row.neighborId, similarity: row.similarity });
+  }
+
+  return { history, neighbors };
+}
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildInteractionHistory,
+  computeBountyNeighbors,
+  computeCollaborativeScore,
+  type NeighborMap,
+} from "./collaborative";
+
+function interactions(userIds: string[], bountyIds: number[], type = "like") {
+  return userIds.flatMap((userId) => bountyIds.map((bountyId) => ({ userId, bountyId, type })));
+}
+
+describe("buildInteractionHistory", () => {
+  test("keeps the strongest interaction per bounty and skips claims", () => {
+    const history = buildInteractionHistory([
+      { userId: "a", bountyId: 1, type: "view" },
+      { userId: "a", bountyId: 1, type: "submit" },
+      { userId: "a", bountyId: 1, type: "like" },
+      { userId: "a", bountyId: 2, type: "claim" },
+      { userId: "b", bountyId: 2, type: "complete" },
+    ]);
+
+    expect(history.get("a")).toEqual(new Map([[1, 3]]));
+    expect(history.get("b")).toEqual(new Map([[2, 5]]));
+  });
+});
+
+describe("computeBountyNeighbors", () => {
+  test("shrinks cosine similarity by the number of co-users", () => {
+    const neighbors = computeBountyNeighbors(buildInteractionHistory(interactions(["a", "b", "c"], [1, 2])));
+
+    // Identical vectors: cosine 1, shrunk by 3 / (3 + 5)
+    expect(neighbors.get(1)).toEqual([{ neighborId: 2, similarity: 0.375, coUsers: 3 }]);
+    expect(neighbors.get(2)).toEqual([{ neighborId: 1, similarity: 0.375, coUsers: 3 }]);
+  });
+
+  test("weights the cosine by interaction strength", () => {
+    const neighbors = computeBountyNeighbors(
+      buildInteractionHistory([
+        ...interactions(["a", "b"], [1]),
+        { userId: "a", bountyId: 2, type: "complete" },
+        { userId: "b", bountyId: 2, type: "view" },
+      ])
+    );
+
+    // (2·5 + 2·1) / (√8 · √26), shrunk by 2 / 7
+    const cosine = 12 / Math.sqrt(8 * 26);
+    expect(neighbors.get(1)![0]!.similarity).toBeCloseTo(cosine * (2 / 7));
+  });
+
+  test("drops pairs with too few co-users", () => {
+    const history = buildInteractionHistory([
+      ...interactions(["a", "b"], [1, 2]),
+      ...interactions(["a"], [3]),
+    ]);
+
+    expect(computeBountyNeighbors(history).get(1)!.map((n) => n.neighborId)).toEqual([2]);
+    expect(computeBountyNeighbors(history).has(3)).toBe(false);
+    expect(computeBountyNeighbors(history, { minCoUsers: 1 }).get(1)!.map((n) => n.neighborId)).toEqual([2, 3]);
+  });
+
+  test("keeps the top k, most similar first", () => {
+    const history = buildInteractionHistory([
+      ...interactions(["a", "b", "c", "d"], [1, 2]),
+      ...interactions(["a", "b", "c"], [3]),
+      ...interactions(["a", "b"], [4]),
+    ]);
+
+    const neighbors = computeBountyNeighbors(history, { topK: 2 }).get(1)!;
+    expect(neighbors.map((n) => n.neighborId)).toEqual([2, 3]);
+    expect(neighbors[0]!.similarity).toBeGreaterThan(neighbors[1]!.similarity);
+  });
+});
+
+describe("computeCollaborativeScore", () => {
+  const neighbors: NeighborMap = new Map([
+    [
+      10,
+      [
+        { neighborId: 1, similarity: 0.5 },
+        { neighborId: 2, similarity: 0.8 },
+        { neighborId: 3, similarity: 0.9 },
+      ],
+    ],
+  ]);
+
+  test("is 0 without collaborative data or engaged neighbors", () => {
+    expect(computeCollaborativeScore(10, undefined)).toEqual({ score: 0, sources: [], reason: null });
+    expect(computeCollaborativeScore(10, { history: new Map([[4, 5]]), neighbors }).score).toBe(0);
+    expect(computeCollaborativeScore(11, { history: new Map([[1, 5]]), neighbors }).score).toBe(0);
+  });
+
+  test("scales a neighbor's similarity by the user's interaction strength", () => {
+    const result = computeCollaborativeScore(10, { history: new Map([[1, 5]]), neighbors });
+    expect(result.score).toBeCloseTo(0.5);
+    expect(result.sources).toEqual([1]);
+    expect(result.reason).toBe("People who engaged with a bounty you liked also engaged with this");
+
+    expect(computeCollaborativeScore(10, { history: new Map([[1, 1]]), neighbors }).score).toBeCloseTo(0.1);
+  });
+
+  test("combines votes with a noisy-or, strongest source first", () => {
+    // Votes: 0.5 × 1, 0.8 × 0.4
+    const result = computeCollaborativeScore(10, { history: new Map([[1, 5], [2, 2]]), neighbors });
+    expect(result.score).toBeCloseTo(1 - 0.5 * (1 - 0.32));
+    expect(result.sources).toEqual([1, 2]);
+    expect(result.reason).toBe("People who engaged with 2 bounties you liked also engaged with this");
+  });
+});
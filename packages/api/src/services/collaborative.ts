@@ -0,0 +1,195 @@
+/**
+ * Item-Item Collaborative Filtering
+ *
+ * "Users who liked X also submitted to Y": bounties are similar when the
+ * same users interacted with both, regardless of their tags.
+ *
+ * Training (batch, see collaborative-store.ts):
+ *   - each user's interactions become a vector over bounties, using the
+ *     strongest interaction per bounty (view 1, like 2, submit 3, complete 5)
+ *   - similarity = cosine between bounty vectors, shrunk toward 0 when few
+ *     users co-interacted: cos × n / (n + SHRINKAGE)
+ *   - each bounty keeps its top-k neighbors
+ *
+ * Scoring: a candidate's neighbors that the user already engaged with vote
+ * for it (noisy-or of similarity × the user's interaction strength), giving
+ * the 0-1 `collaborative` score component.
+ *
+ * Pure functions only.
+ */
+
+// ============ TYPES ============
+
+export interface BountyNeighbor {
+  neighborId: number;
+  similarity: number; // 0-1
+}
+
+export type NeighborMap = Map<number, BountyNeighbor[]>; // bountyId -> neighbors
+
+export interface CollaborativeInput {
+  history: Map<number, number>; // bountyId -> user's interaction strength (see interactionStrength)
+  neighbors: NeighborMap;       // Neighbor lists for candidate bounties
+}
+
+export interface CollaborativeScore {
+  score: number;       // 0-1
+  sources: number[];   // Bounties in the user's history that voted, strongest first
+  reason: string | null;
+}
+
+export interface NeighborOptions {
+  topK?: number;
+  minCoUsers?: number;
+}
+
+// ============ CONSTANTS ============
+
+export const DEFAULT_NEIGHBOR_TOP_K = 20;
+
+// Interaction strength per type (claims don't express taste)
+const INTERACTION_STRENGTH: Record<string, number> = {
+  view: 1,
+  like: 2,
+  submit: 3,
+  complete: 5,
+};
+const MAX_STRENGTH = 5;
+
+// Similarity shrinkage: with n co-users, similarity is scaled by n / (n + 5)
+const SHRINKAGE = 5;
+
+// Pairs need at least this many co-interacting users to count
+const DEFAULT_MIN_CO_USERS = 2;
+
+// Users with more distinct bounties than this only contribute their
+// strongest ones (keeps training quadratic cost bounded)
+const MAX_ITEMS_PER_USER = 200;
+
+// ============ TRAINING ============
+
+/**
+ * Strongest interaction per bounty for each user
+ */
+export function buildInteractionHistory(
+  interactions: { userId: string; bountyId: number; type: string }[]
+): Map<string, Map<number, number>> {
+  const byUser = new Map<string, Map<number, number>>();
+
+  for (const i of interactions) {
+    const strength = interactionStrength(i.type);
+    if (strength === 0) continue;
+
+    if (!byUser.has(i.userId)) {
+      byUser.set(i.userId, new Map());
+    }
+    const history = byUser.get(i.userId)!;
+    history.set(i.bountyId, Math.max(history.get(i.bountyId) ?? 0, strength));
+  }
+
+  return byUser;
+}
+
+/**
+ * Top-k neighbors per bounty from co-interaction
+ * Works one bounty at a time through an inverted index, so memory stays
+ * proportional to the output rather than to the number of co-interacted pairs
+ */
+export function computeBountyNeighbors(
+  history: Map<string, Map<number, number>>,
+  options: NeighborOptions = {}
+): Map<number, (BountyNeighbor & { coUsers: number })[]> {
+  const topK = options.topK ?? DEFAULT_NEIGHBOR_TOP_K;
+  const minCoUsers = options.minCoUsers ?? DEFAULT_MIN_CO_USERS;
+
+  // Each user's strongest bounties, plus bounty -> users and vector norms
+  const itemsByUser = new Map<string, [number, number][]>();
+  const usersByItem = new Map<number, { userId: string; strength: number }[]>();
+  const norms = new Map<number, number>();
+
+  for (const [userId, items] of history) {
+    const entries = Array.from(items)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_ITEMS_PER_USER);
+    itemsByUser.set(userId, entries);
+
+    for (const [bountyId, strength] of entries) {
+      if (!usersByItem.has(bountyId)) {
+        usersByItem.set(bountyId, []);
+      }
+      usersByItem.get(bountyId)!.push({ userId, strength });
+      norms.set(bountyId, (norms.get(bountyId) ?? 0) + strength * strength);
+    }
+  }
+
+  const neighbors = new Map<number, (BountyNeighbor & { coUsers: number })[]>();
+
+  for (const [bountyId, users] of usersByItem) {
+    const pairs = new Map<number, { dot: number; coUsers: number }>();
+
+    for (const { userId, strength } of users) {
+      for (const [otherId, otherStrength] of itemsByUser.get(userId)!) {
+        if (otherId === bountyId) continue;
+        const pair = pairs.get(otherId) ?? { dot: 0, coUsers: 0 };
+        pair.dot += strength * otherStrength;
+        pair.coUsers += 1;
+        pairs.set(otherId, pair);
+      }
+    }
+
+    const list: (BountyNeighbor & { coUsers: number })[] = [];
+    for (const [neighborId, pair] of pairs) {
+      if (pair.coUsers < minCoUsers) continue;
+      const cosine = pair.dot / Math.sqrt(norms.get(bountyId)! * norms.get(neighborId)!);
+      const similarity = cosine * (pair.coUsers / (pair.coUsers + SHRINKAGE));
+      list.push({ neighborId, similarity, coUsers: pair.coUsers });
+    }
+
+    if (list.length > 0) {
+      neighbors.set(bountyId, list.sort((a, b) => b.similarity - a.similarity).slice(0, topK));
+    }
+  }
+
+  return neighbors;
+}
+
+// ============ SCORING ============
+
+/**
+ * Collaborative score for one candidate bounty (0-1)
+ */
+export function computeCollaborativeScore(
+  bountyId: number,
+  input: CollaborativeInput | undefined
+): CollaborativeScore {
+  if (!input) return { score: 0, sources: [], reason: null };
+
+  const votes: { bountyId: number; vote: number }[] = [];
+  for (const neighbor of input.neighbors.get(bountyId) ?? []) {
+    const strength = input.history.get(neighbor.neighborId);
+    if (!strength) continue;
+    votes.push({ bountyId: neighbor.neighborId, vote: neighbor.similarity * (strength / MAX_STRENGTH) });
+  }
+
+  if (votes.length === 0) return { score: 0, sources: [], reason: null };
+
+  // Noisy-or: several weak votes add up, but never past 1
+  const score = 1 - votes.reduce((miss, v) => miss * (1 - v.vote), 1);
+  const sources = votes.sort((a, b) => b.vote - a.vote).map((v) => v.bountyId);
+
+  return {
+    score,
+    sources,
+    reason:
+      sources.length === 1
+        ? "People who engaged with a bounty you liked also engaged with this"
+        : `People who engaged with ${sources.length} bounties you liked also engaged with this`,
+  };
+}
+
+/**
+ * Strength of one interaction type (0 for types that don't express taste)
+ */
+export function interactionStrength(type: string): number {
+  return INTERACTION_STRENGTH[type] ?? 0;
+}
@@ -0,0 +1,493 @@
+/**
+ * Divergence Detection
+ *
+ * Compares what users said in onboarding (explicit profile) with what they
+ * do (implicit behavior) and raises "are you sure?" prompts (tag rules in
+ * tag-divergence.ts):
+ *
+ *   new_interest   a tag outside the profile with an implicit score of at
+ *                  least the user's divergenceThreshold
+ *   unused_skill   a profile tag the user rates highly but passes over
+ *                  on the bounties they're shown (bountyImpression) since
+ *                  it was added to the profile
+ *   price_range    the implicit price range lies entirely outside the
+ *                  onboarding range (after PRICE_DIVERGENCE_MIN_INTERACTIONS)
+ *
+ * Each detection is a divergencePrompt row: open while it still diverges
+ * (details refreshed on every check), expired once behavior is back in
+ * line, resolved when the user responds. Resolved prompts are the history,
+ * and hold back new prompts for the same type and tag: "keep" and "dismiss"
+ * for RESPONSE_SNOOZE_DAYS, "snooze" for the days asked (DEFAULT_SNOOZE_DAYS),
+ * "never" for good.
+ */
+
+import { and, count, eq, gt, gte, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
+import { db, type Executor } from "@algorithim-test/db";
+import {
+  divergencePrompt,
+  userBehaviorPrice,
+  userBehaviorTag,
+  userBlendConfig,
+  userOnboarding,
+  type PriceDivergenceDetails,
+  type TagDivergenceDetails,
+} from "@algorithim-test/db/schema/onboarding";
+import { bountyTag } from "@algorithim-test/db/schema/bounty";
+import { bountyImpression } from "@algorithim-test/db/schema/recommendation";
+import { tag } from "@algorithim-test/db/schema/tag";
+import { userTag } from "@algorithim-test/db/schema/user-profile";
+import { selectTagDivergence, type DivergenceCandidate } from "./tag-divergence";
+
+// ============ TYPES ============
+
+export type DivergenceType = (typeof divergencePrompt.$inferSelect)["type"];
+export type DivergencePrompt = typeof divergencePrompt.$inferSelect;
+
+export type DivergenceAction =
+  | "add_skill"
+  | "remove_skill"
+  | "update_range"
+  | "keep"
+  | "dismiss"
+  | "snooze"
+  | "never";
+
+export type DivergenceAlert = TagDivergenceAlert | PriceDivergenceAlert;
+
+export interface TagDivergenceAlert {
+  promptId: number;
+  type: "new_interest" | "unused_skill";
+  tagId: number;
+  tagName: string;
+  explicitScore: number;
+  implicitScore: number;
+  exposure: number;      // Bounties with the tag the user was shown
+  message: string;
+}
+
+export interface PriceDivergenceAlert {
+  promptId: number;
+  type: "price_range";
+  explicitMin: number;   // Onboarding range
+  explicitMax: number;
+  typicalPrice: number;  // Average price of bounties engaged with
+  suggestedMin: number;  // Implicit range, rounded
+  suggestedMax: number;
+  message: string;
+}
+
+// ============ CONSTANTS ============
+
+// Used when the user has no blend config yet (matches the column default)
+const DEFAULT_DIVERGENCE_THRESHOLD = 3;
+
+const PRICE_DIVERGENCE_MIN_INTERACTIONS = 10;
+
+// Minimum time between prompts
+const PROMPT_INTERVAL_HOURS = 24;
+
+// How long a response holds back the next prompt for the same type and tag
+const RESPONSE_SNOOZE_DAYS = 30;
+export const DEFAULT_SNOOZE_DAYS = 7;
+
+// Which responses each type of prompt accepts
+const ACTIONS_BY_TYPE: Record<DivergenceType, DivergenceAction[]> = {
+  new_interest: ["add_skill", "dismiss", "snooze", "never"],
+  unused_skill: ["remove_skill", "keep", "snooze", "never"],
+  price_range: ["update_range", "keep", "snooze", "never"],
+};
+
+// ============ DETECTION ============
+
+/**
+ * Detect divergence for a user and bring their open prompts in line:
+ * refresh the ones that still diverge, open new ones (unless snoozed or
+ * "never"), expire the rest
+ */
+export async function checkDivergence(
+  userId: string,
+  now: Date = new Date(),
+  executor: Executor = db
+): Promise<void> {
+  const config = await executor.query.userBlendConfig.findFirst({
+    where: eq(userBlendConfig.userId, userId),
+  });
+
+  const threshold = config?.divergenceThreshold ?? DEFAULT_DIVERGENCE_THRESHOLD;
+
+  const interactions = config?.totalInteractions ?? 0;
+
+  const candidates = await detectTagDivergence(userId, threshold, interactions, executor);
+  const priceCandidate = await detectPriceDivergence(userId, interactions, executor);
+  if (priceCandidate) candidates.push(priceCandidate);
+
+  await syncDivergencePrompts(userId, candidates, now, executor);
+}
+
+/**
+ * Batch job: check divergence for every onboarded user. Exposure keeps
+ * growing without any interaction, so unused skills are only caught here
+ * for users who don't interact.
+ */
+export async function checkAllDivergence(
+  options: { onProgress?: (done: number, total: number) => void } = {}
+): Promise<{ users: number; open: number }> {
+  const users = await db.select({ userId: userBlendConfig.userId }).from(userBlendConfig);
+
+  const now = new Date();
+  for (const [i, { userId }] of users.entries()) {
+    await checkDivergence(userId, now);
+    options.onProgress?.(i + 1, users.length);
+  }
+
+  const [open] = await db
+    .select({ count: count() })
+    .from(divergencePrompt)
+    .where(eq(divergencePrompt.status, "open"));
+
+  return { users: users.length, open: open?.count ?? 0 };
+}
+
+// ============ PROMPTS ============
+
+/**
+ * Open prompts to show the user ("are you sure?"), price first. Nothing
+ * within PROMPT_INTERVAL_HOURS of the last response.
+ */
+export async function getDivergenceAlerts(
+  userId: string,
+  now: Date = new Date()
+): Promise<DivergenceAlert[]> {
+  const config = await db.query.userBlendConfig.findFirst({
+    where: eq(userBlendConfig.userId, userId),
+  });
+
+  // Don't show prompts too frequently
+  if (config?.lastDivergencePrompt) {
+    const hoursSinceLastPrompt =
+      (now.getTime() - config.lastDivergencePrompt.getTime()) / (1000 * 60 * 60);
+    if (hoursSinceLastPrompt < PROMPT_INTERVAL_HOURS) {
+      return [];
+    }
+  }
+
+  const prompts = await db
+    .select({ prompt: divergencePrompt, tagName: tag.name })
+    .from(divergencePrompt)
+    .leftJoin(tag, eq(divergencePrompt.tagId, tag.id))
+    .where(and(eq(divergencePrompt.userId, userId), eq(divergencePrompt.status, "open")))
+    .orderBy(divergencePrompt.detectedAt);
+
+  if (prompts.length === 0) return [];
+
+  // First time served
+  await db
+    .update(divergencePrompt)
+    .set({ shownAt: now })
+    .where(
+      and(
+        inArray(divergencePrompt.id, prompts.map((p) => p.prompt.id)),
+        isNull(divergencePrompt.shownAt)
+      )
+    );
+
+  const alerts = prompts.map(({ prompt, tagName }) => toAlert(prompt, tagName));
+  return [
+    ...alerts.filter((a) => a.type === "price_range"),
+    ...alerts.filter((a) => a.type !== "price_range"),
+  ];
+}
+
+/**
+ * Record the user's response to an open prompt and close it. Returns the
+ * prompt, or undefined when it isn't open (already answered, expired, or
+ * another user's) or doesn't accept the action; the caller applies the
+ * profile change (add_skill, remove_skill, update_range).
+ */
+export async function resolveDivergencePrompt(
+  userId: string,
+  promptId: number,
+  action: DivergenceAction,
+  options: { snoozeDays?: number; now?: Date } = {}
+): Promise<DivergencePrompt | undefined> {
+  const now = options.now ?? new Date();
+  const types = (Object.keys(ACTIONS_BY_TYPE) as DivergenceType[]).filter((type) =>
+    ACTIONS_BY_TYPE[type].includes(action)
+  );
+
+  // Conditional on still being open, so a double submit resolves once
+  const [prompt] = await db
+    .update(divergencePrompt)
+    .set({
+      status: "resolved",
+      response: action,
+      respondedAt: now,
+      closedAt: now,
+      snoozedUntil: snoozeUntil(action, options.snoozeDays ?? DEFAULT_SNOOZE_DAYS, now),
+    })
+    .where(
+      and(
+        eq(divergencePrompt.id, promptId),
+        eq(divergencePrompt.userId, userId),
+        eq(divergencePrompt.status, "open"),
+        inArray(divergencePrompt.type, types)
+      )
+    )
+    .returning();
+
+  if (prompt) await markDivergencePromptShown(userId, now);
+  return prompt;
+}
+
+/**
+ * Start the interval before the next prompt
+ */
+export async function markDivergencePromptShown(userId: string, now: Date = new Date()): Promise<void> {
+  await db
+    .update(userBlendConfig)
+    .set({
+      lastDivergencePrompt: now,
+      divergencePromptCount: sql`${userBlendConfig.divergencePromptCount} + 1`,
+    })
+    .where(eq(userBlendConfig.userId, userId));
+}
+
+/**
+ * Tags with an open prompt (new interest or unused skill)
+ */
+export async function getDivergentTagIds(userId: string): Promise<Set<number>> {
+  const rows = await db
+    .select({ tagId: divergencePrompt.tagId })
+    .from(divergencePrompt)
+    .where(
+      and(
+        eq(divergencePrompt.userId, userId),
+        eq(divergencePrompt.status, "open"),
+        isNotNull(divergencePrompt.tagId)
+      )
+    );
+
+  return new Set(rows.map((row) => row.tagId!));
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * new_interest and unused_skill candidates
+ */
+async function detectTagDivergence(
+  userId: string,
+  threshold: number,
+  interactions: number,
+  executor: Executor
+): Promise<DivergenceCandidate[]> {
+  const explicit = await executor
+    .select({ tagId: userTag.tagId, score: userTag.score })
+    .from(userTag)
+    .where(eq(userTag.userId, userId));
+
+  const implicit = await executor
+    .select({ tagId: userBehaviorTag.tagId, implicitScore: userBehaviorTag.implicitScore })
+    .from(userBehaviorTag)
+    .where(eq(userBehaviorTag.userId, userId));
+
+  const exposure = await getTagExposure(userId, executor);
+
+  return selectTagDivergence({ explicit, implicit, exposure, threshold, interactions });
+}
+
+/**
+ * price_range candidate: the implicit price range (from behavior) and the
+ * onboarding range don't overlap at all
+ */
+async function detectPriceDivergence(
+  userId: string,
+  interactions: number,
+  executor: Executor
+): Promise<DivergenceCandidate | null> {
+  if (interactions < PRICE_DIVERGENCE_MIN_INTERACTIONS) return null;
+
+  const priceBehavior = await executor.query.userBehaviorPrice.findFirst({
+    where: eq(userBehaviorPrice.userId, userId),
+  });
+  const onboarding = await executor.query.userOnboarding.findFirst({
+    where: eq(userOnboarding.userId, userId),
+  });
+
+  if (!priceBehavior || !onboarding) return null;
+
+  const { implicitPriceMin, implicitPriceMax } = priceBehavior;
+  const { priceRangeMin, priceRangeMax } = onboarding;
+  if (
+    implicitPriceMin === null ||
+    implicitPriceMax === null ||
+    priceRangeMin === null ||
+    priceRangeMax === null ||
+    (implicitPriceMin <= priceRangeMax && implicitPriceMax >= priceRangeMin)
+  ) {
+    return null;
+  }
+
+  const averages = [
+    priceBehavior.avgPriceViewed,
+    priceBehavior.avgPriceLiked,
+    priceBehavior.avgPriceSubmitted,
+    priceBehavior.avgPriceCompleted,
+  ].filter((v) => v > 0);
+  const typicalPrice =
+    averages.length > 0
+      ? averages.reduce((sum, v) => sum + v, 0) / averages.length
+      : (implicitPriceMin + implicitPriceMax) / 2;
+
+  return {
+    type: "price_range",
+    tagId: null,
+    details: {
+      explicitMin: priceRangeMin,
+      explicitMax: priceRangeMax,
+      implicitMin: implicitPriceMin,
+      implicitMax: implicitPriceMax,
+      typicalPrice,
+    },
+  };
+}
+
+/**
+ * Bounties with each tag the user was shown. For tags in the profile, only
+ * impressions since the tag was added count.
+ */
+async function getTagExposure(userId: string, executor: Executor): Promise<Map<number, number>> {
+  const rows = await executor
+    .select({ tagId: bountyTag.tagId, exposure: count() })
+    .from(bountyImpression)
+    .innerJoin(bountyTag, eq(bountyTag.bountyId, bountyImpression.bountyId))
+    .leftJoin(userTag, and(eq(userTag.userId, userId), eq(userTag.tagId, bountyTag.tagId)))
+    .where(
+      and(
+        eq(bountyImpression.userId, userId),
+        or(isNull(userTag.createdAt), gte(bountyImpression.lastShownAt, userTag.createdAt))
+      )
+    )
+    .groupBy(bountyTag.tagId);
+
+  return new Map(rows.map((row) => [row.tagId, row.exposure]));
+}
+
+/**
+ * Refresh, open and expire the user's prompts to match the candidates
+ */
+async function syncDivergencePrompts(
+  userId: string,
+  candidates: DivergenceCandidate[],
+  now: Date,
+  executor: Executor
+): Promise<void> {
+  // Open prompts, plus resolved ones still holding back a new prompt
+  const prompts = await executor
+    .select()
+    .from(divergencePrompt)
+    .where(
+      and(
+        eq(divergencePrompt.userId, userId),
+        or(
+          eq(divergencePrompt.status, "open"),
+          eq(divergencePrompt.response, "never"),
+          gt(divergencePrompt.snoozedUntil, now)
+        )
+      )
+    );
+
+  const open = new Map(
+    prompts.filter((p) => p.status === "open").map((p) => [promptKey(p.type, p.tagId), p])
+  );
+  const suppressed = new Set(
+    prompts.filter((p) => p.status === "resolved").map((p) => promptKey(p.type, p.tagId))
+  );
+
+  for (const candidate of candidates) {
+    const key = promptKey(candidate.type, candidate.tagId);
+    const existing = open.get(key);
+
+    if (existing) {
+      await executor
+        .update(divergencePrompt)
+        .set({ details: candidate.details })
+        .where(eq(divergencePrompt.id, existing.id));
+      open.delete(key);
+    } else if (!suppressed.has(key)) {
+      // A concurrent check may have opened it already (divergence_prompt_open_idx)
+      await executor
+        .insert(divergencePrompt)
+        .values({ userId, ...candidate, detectedAt: now })
+        .onConflictDoNothing();
+    }
+  }
+
+  // Whatever is still open no longer diverges
+  const expired = [...open.values()].map((p) => p.id);
+  if (expired.length > 0) {
+    await executor
+      .update(divergencePrompt)
+      .set({ status: "expired", closedAt: now })
+      .where(and(inArray(divergencePrompt.id, expired), eq(divergencePrompt.status, "open")));
+  }
+}
+
+function promptKey(type: DivergenceType, tagId: number | null): string {
+  return `${type}:${tagId ?? ""}`;
+}
+
+/**
+ * When a response stops holding back new prompts (null: it doesn't)
+ */
+function snoozeUntil(action: DivergenceAction, snoozeDays: number, now: Date): Date | null {
+  const days =
+    action === "snooze" ? snoozeDays : action === "keep" || action === "dismiss" ? RESPONSE_SNOOZE_DAYS : 0;
+
+  return days > 0 ? new Date(now.getTime() + days * 24 * 60 * 60 * 1000) : null;
+}
+
+function toAlert(prompt: DivergencePrompt, tagName: string | null): DivergenceAlert {
+  if (prompt.type === "price_range") {
+    const details = prompt.details as PriceDivergenceDetails;
+    const typicalPrice = roundPrice(details.typicalPrice);
+
+    return {
+      promptId: prompt.id,
+      type: "price_range",
+      explicitMin: details.explicitMin,
+      explicitMax: details.explicitMax,
+      typicalPrice,
+      suggestedMin: roundPrice(details.implicitMin),
+      suggestedMax: roundPrice(details.implicitMax),
+      message: `You said ${formatPrice(details.explicitMin)}–${formatPrice(details.explicitMax)}, but you keep opening ${formatPrice(typicalPrice)} bounties. Update your price range?`,
+    };
+  }
+
+  const details = prompt.details as TagDivergenceDetails;
+  const name = tagName ?? `Tag ${prompt.tagId}`;
+
+  return {
+    promptId: prompt.id,
+    type: prompt.type,
+    tagId: prompt.tagId!,
+    tagName: name,
+    explicitScore: details.explicitScore,
+    implicitScore: details.implicitScore,
+    exposure: details.exposure,
+    message:
+      prompt.type === "new_interest"
+        ? `You've been engaging with ${name} bounties. Add it to your skills?`
+        : `You said you know ${name} (${details.explicitScore}/5), but passed on the ${details.exposure} ${name} bounties you were shown. Still accurate?`,
+  };
+}
+
+// Nearest $50 below $1000, nearest $500 above
+function roundPrice(price: number): number {
+  const step = price < 1000 ? 50 : 500;
+  return Math.max(step, Math.round(price / step) * step);
+}
+
+function formatPrice(price: number): string {
+  return price >= 1000 && price % 1000 === 0 ? `$${price / 1000}k` : `$${price.toLocaleString("en-US")}`;
+}
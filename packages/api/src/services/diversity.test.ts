@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { rerankWithMMR } from "./diversity";
+import type { BountyTag, ScoredBounty } from "./recommendation";
+
+function scored(id: number, finalScore: number): ScoredBounty {
+  return { bounty: { id }, finalScore } as ScoredBounty;
+}
+
+// 1-3 share tag 10, 4 and 5 have their own tags
+const bountyTagMap = new Map<number, BountyTag[]>([
+  [1, [{ tagId: 10, weight: 1 }]],
+  [2, [{ tagId: 10, weight: 1 }]],
+  [3, [{ tagId: 10, weight: 1 }, { tagId: 11, weight: 0.2 }]],
+  [4, [{ tagId: 20, weight: 1 }]],
+  [5, [{ tagId: 30, weight: 1 }]],
+]);
+
+const sorted = [scored(1, 5), scored(2, 4.8), scored(3, 4.6), scored(4, 4), scored(5, 3)];
+
+function ids(ranked: { scored: ScoredBounty }[]): number[] {
+  return ranked.map((r) => r.scored.bounty.id);
+}
+
+describe("rerankWithMMR", () => {
+  test("keeps the raw order at lambda 1", () => {
+    const ranked = rerankWithMMR(sorted, bountyTagMap, 1, 5);
+
+    expect(ids(ranked)).toEqual([1, 2, 3, 4, 5]);
+    expect(ranked.map((r) => r.rawPosition)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  test("spreads the top picks across tag clusters", () => {
+    const ranked = rerankWithMMR(sorted, bountyTagMap, 0.5, 5);
+
+    expect(ids(ranked)).toEqual([1, 4, 5, 2, 3]);
+    expect(ranked.map((r) => r.rawPosition)).toEqual([0, 3, 4, 1, 2]);
+  });
+
+  test("leaves bounties past count in raw order", () => {
+    const ranked = rerankWithMMR(sorted, bountyTagMap, 0.5, 2);
+
+    expect(ids(ranked)).toEqual([1, 4, 2, 3, 5]);
+  });
+
+  test("handles bounties without tags and short inputs", () => {
+    expect(ids(rerankWithMMR([scored(9, 1), scored(8, 0.5)], bountyTagMap, 0.5, 2))).toEqual([9, 8]);
+    expect(ids(rerankWithMMR([scored(1, 5)], bountyTagMap, 0.5, 5))).toEqual([1]);
+    expect(rerankWithMMR([], bountyTagMap, 0.5, 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Diversity Re-ranking Service
+ *
+ * Maximal marginal relevance (MMR) over bounty tag vectors. Picks bounties
+ * greedily, trading off score against similarity to what's already picked:
+ *
+ *   mmr = lambda * relevance - (1 - lambda) * maxSimilarityToSelected
+ *
+ * lambda = 1 is the raw score order; lower values spread results across
+ * different tag clusters.
+ */
+
+import type { BountyTag, ScoredBounty } from "./recommendation";
+
+// ============ TYPES ============
+
+export interface RerankedBounty<T extends ScoredBounty = ScoredBounty> {
+  scored: T;
+  rawPosition: number; // 0-based position in the raw score order
+}
+
+// ============ MMR ============
+
+/**
+ * Re-rank the top `count` bounties with MMR. Input must already be sorted by
+ * finalScore (descending). Bounties past `count` keep their raw order.
+ */
+export function rerankWithMMR<T extends ScoredBounty>(
+  sorted: T[],
+  bountyTagMap: Map<number, BountyTag[]>,
+  lambda: number,
+  count: number
+): RerankedBounty<T>[] {
+  const all = sorted.map((scored, rawPosition) => ({ scored, rawPosition }));
+
+  if (lambda >= 1 || sorted.length <= 1) {
+    return all;
+  }
+
+  const maxScore = sorted[0]?.finalScore || 1;
+  const vectors = new Map(
+    sorted.map((sb) => [sb.bounty.id, toUnitVector(bountyTagMap.get(sb.bounty.id) ?? [])])
+  );
+
+  const remaining = [...all];
+  const selected: RerankedBounty<T>[] = [];
+  // Max similarity of each remaining candidate to anything selected so far
+  const maxSimilarity = new Map<number, number>(remaining.map((c) => [c.scored.bounty.id, 0]));
+
+  const target = Math.min(count, remaining.length);
+
+  while (selected.length < target) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const candidate = remaining[i]!;
+      const relevance = candidate.scored.finalScore / maxScore;
+      const value =
+        lambda * relevance - (1 - lambda) * (maxSimilarity.get(candidate.scored.bounty.id) ?? 0);
+
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    }
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    if (!picked) break;
+    selected.push(picked);
+
+    // Update max similarity against the newly picked bounty
+    const pickedVector = vectors.get(picked.scored.bounty.id)!;
+    for (const candidate of remaining) {
+      const id = candidate.scored.bounty.id;
+      const similarity = cosineSimilarity(pickedVector, vectors.get(id)!);
+      if (similarity > (maxSimilarity.get(id) ?? 0)) {
+        maxSimilarity.set(id, similarity);
+      }
+    }
+  }
+
+  // Anything not re-ranked keeps its raw order
+  remaining.sort((a, b) => a.rawPosition - b.rawPosition);
+
+  return [...selected, ...remaining];
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Sparse tag vector (tagId -> weight), normalized to unit length
+ */
+function toUnitVector(tags: BountyTag[]): Map<number, number> {
+  const norm = Math.sqrt(tags.reduce((sum, t) => sum + t.weight * t.weight, 0));
+  return new Map(tags.map((t) => [t.tagId, norm > 0 ? t.weight / norm : 0]));
+}
+
+function cosineSimilarity(a: Map<number, number>, b: Map<number, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [tagId, weight] of small) {
+    dot += weight * (large.get(tagId) ?? 0);
+  }
+  return dot;
+}
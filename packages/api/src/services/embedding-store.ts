@@ -0,0 +1,72 @@
+/**
+ * Tag Embedding Store
+ *
+ * Trains tag embeddings over the whole database (see embedding.ts) and
+ * keeps them in the tag_embedding table, one row per tag. The embed-tags
+ * job retrains daily; the recommendation router loads them per request.
+ */
+
+import { notInArray, sql } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import { bountyInteraction, bountyTag } from "@algorithim-test/db/schema/bounty";
+import { tagEmbedding } from "@algorithim-test/db/schema/tag";
+import { trainTagEmbeddings, type EmbeddingOptions, type TagEmbeddings } from "./embedding";
+
+/**
+ * Retrain embeddings from all bounty tags and interactions and store them.
+ * Tags that no longer get a vector are removed.
+ */
+export async function retrainTagEmbeddings(
+  options: EmbeddingOptions = {}
+): Promise<{ tags: number; dimensions: number }> {
+  const bountyTags = await db
+    .select({ bountyId: bountyTag.bountyId, tagId: bountyTag.tagId, weight: bountyTag.weight })
+    .from(bountyTag);
+  const interactions = await db
+    .select({
+      userId: bountyInteraction.userId,
+      bountyId: bountyInteraction.bountyId,
+      type: bountyInteraction.type,
+    })
+    .from(bountyInteraction);
+
+  const embeddings = trainTagEmbeddings({ bountyTags, interactions }, options);
+  const rows = Array.from(embeddings, ([tagId, vector]) => ({
+    tagId,
+    vector,
+    dimensions: vector.length,
+    trainedAt: new Date(),
+  }));
+
+  if (rows.length === 0) {
+    await db.delete(tagEmbedding);
+    return { tags: 0, dimensions: 0 };
+  }
+
+  await db
+    .insert(tagEmbedding)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: tagEmbedding.tagId,
+      set: {
+        vector: sql`excluded.vector`,
+        dimensions: sql`excluded.dimensions`,
+        trainedAt: sql`excluded.trained_at`,
+      },
+    });
+
+  await db.delete(tagEmbedding).where(notInArray(tagEmbedding.tagId, rows.map((r) => r.tagId)));
+
+  return { tags: rows.length, dimensions: rows[0]!.dimensions };
+}
+
+/**
+ * Load stored embeddings (empty until the embed-tags job has run)
+ */
+export async function loadTagEmbeddings(): Promise<TagEmbeddings> {
+  const rows = await db
+    .select({ tagId: tagEmbedding.tagId, vector: tagEmbedding.vector })
+    .from(tagEmbedding);
+
+  return new Map(rows.map((r) => [r.tagId, r.vector]));
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import {
+  bountyVector,
+  computeEmbeddingRelevance,
+  trainTagEmbeddings,
+  userVector,
+  type EmbeddingTrainingData,
+  type TagEmbeddings,
+} from "./embedding";
+
+// Two clusters that only co-occur internally: 1-3 (frontend), 4-6 (backend)
+const FRONTEND = [1, 2, 3];
+const BACKEND = [4, 5, 6];
+
+function bountiesOver(clusters: number[][], copies: number): EmbeddingTrainingData["bountyTags"] {
+  const bountyTags: EmbeddingTrainingData["bountyTags"] = [];
+  let bountyId = 0;
+  for (let copy = 0; copy < copies; copy++) {
+    for (const cluster of clusters) {
+      for (let a = 0; a < cluster.length; a++) {
+        bountyId++;
+        bountyTags.push(
+          { bountyId, tagId: cluster[a]!, weight: 1 },
+          { bountyId, tagId: cluster[(a + 1) % cluster.length]!, weight: 1 }
+        );
+      }
+    }
+  }
+  return bountyTags;
+}
+
+function cosine(embeddings: TagEmbeddings, a: number, b: number): number {
+  const va = embeddings.get(a)!;
+  const vb = embeddings.get(b)!;
+  return va.reduce((sum, v, i) => sum + v * vb[i]!, 0);
+}
+
+const data: EmbeddingTrainingData = { bountyTags: bountiesOver([FRONTEND, BACKEND], 3), interactions: [] };
+const embeddings = trainTagEmbeddings(data, { dimensions: 4 });
+
+describe("trainTagEmbeddings", () => {
+  test("learns unit vectors with a dimension per positive component, up to the requested size", () => {
+    // Each cluster's PPMI block has one positive eigenvalue
+    expect([...embeddings.keys()].sort()).toEqual([...FRONTEND, ...BACKEND]);
+    for (const vector of embeddings.values()) {
+      expect(vector).toHaveLength(2);
+      expect(Math.hypot(...vector)).toBeCloseTo(1);
+    }
+
+    for (const vector of trainTagEmbeddings(data, { dimensions: 1 }).values()) {
+      expect(vector).toHaveLength(1);
+    }
+  });
+
+  test("puts co-occurring tags closer than unrelated ones", () => {
+    expect(cosine(embeddings, 1, 2)).toBeGreaterThan(0.5);
+    expect(cosine(embeddings, 4, 5)).toBeGreaterThan(0.5);
+    expect(cosine(embeddings, 1, 4)).toBeLessThan(cosine(embeddings, 1, 2));
+    expect(cosine(embeddings, 1, 4)).toBeCloseTo(0);
+  });
+
+  test("is deterministic", () => {
+    expect(trainTagEmbeddings(data, { dimensions: 4 })).toEqual(embeddings);
+  });
+
+  test("links tags users engage with together, even across bounties", () => {
+    // Frontend and backend bounties, each liked by the same users
+    const interactions = ["a", "b", "c"].flatMap((userId) => [
+      { userId, bountyId: 1, type: "like" },
+      { userId, bountyId: 4, type: "like" },
+    ]);
+    const weak = trainTagEmbeddings({ ...data, interactions }, { dimensions: 4 });
+    const linked = trainTagEmbeddings({ ...data, interactions }, { dimensions: 4, coEngagementWeight: 10 });
+
+    // A few users aren't enough to beat chance, weighted up they are
+    expect(cosine(weak, 1, 4)).toBeCloseTo(0);
+    expect(cosine(linked, 1, 4)).toBeGreaterThan(0.05);
+    expect(cosine(linked, 2, 5)).toBeGreaterThan(0.05);
+
+    // Unweighted interaction types don't count
+    const claims = interactions.map((i) => ({ ...i, type: "claim" }));
+    expect(trainTagEmbeddings({ ...data, interactions: claims }, { dimensions: 4 })).toEqual(embeddings);
+  });
+
+  test("skips tags that never co-occur and handles empty data", () => {
+    const lonely = trainTagEmbeddings({
+      bountyTags: [...data.bountyTags, { bountyId: 999, tagId: 42, weight: 1 }],
+      interactions: [],
+    });
+    expect(lonely.has(42)).toBe(false);
+    expect(trainTagEmbeddings({ bountyTags: [], interactions: [] }).size).toBe(0);
+  });
+});
+
+describe("bounty and user vectors", () => {
+  test("relevance is high within a cluster and 0 across", () => {
+    const frontendUser = userVector([{ tagId: 1, score: 5 }, { tagId: 2, score: 3 }], embeddings);
+    const frontendBounty = bountyVector([{ tagId: 2, weight: 1 }, { tagId: 3, weight: 0.5 }], embeddings);
+    const backendBounty = bountyVector([{ tagId: 5, weight: 1 }], embeddings);
+
+    expect(computeEmbeddingRelevance(frontendUser, frontendBounty)).toBeGreaterThan(5);
+    expect(computeEmbeddingRelevance(frontendUser, backendBounty)).toBeCloseTo(0);
+    expect(computeEmbeddingRelevance(frontendUser, frontendUser)).toBeCloseTo(10);
+  });
+
+  test("are null without any embedded, positively weighted tag", () => {
+    expect(bountyVector([{ tagId: 42, weight: 1 }], embeddings)).toBeNull();
+    expect(userVector([{ tagId: 1, score: 0 }], embeddings)).toBeNull();
+    expect(computeEmbeddingRelevance(null, bountyVector([{ tagId: 1, weight: 1 }], embeddings))).toBe(0);
+  });
+});
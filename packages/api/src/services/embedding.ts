@@ -0,0 +1,303 @@
+/**
+ * Tag Embeddings
+ *
+ * Learns a low-dimensional vector per tag from how tags show up together,
+ * instead of relying only on hand-curated clusters and the tag graph:
+ *
+ *   1. Co-occurrence counts from two sources:
+ *      - bounty tags: tags on the same bounty (product of tag weights)
+ *      - co-engagement: tags of different bounties the same user engaged
+ *        with (each user's tag mix is normalized so heavy users don't dominate)
+ *   2. Positive PMI with context smoothing (alpha = 0.75)
+ *   3. Truncated SVD of the (symmetric) PPMI matrix via power iteration;
+ *      tag vector = eigenvector × sqrt(eigenvalue), L2-normalized
+ *
+ * Bounty vectors are the weight-averaged vectors of their tags, user
+ * vectors the score-weighted vectors of their profile tags. Cosine between
+ * the two measures what kind of work a bounty is relative to what the user
+ * does, not how deep their skills go - so it is blended with the tag match
+ * rather than replacing it (see ScoringStrategy.embeddingBlend).
+ *
+ * Pure functions only; training over the database lives in
+ * embedding-store.ts.
+ */
+
+// ============ TYPES ============
+
+export type TagEmbeddings = Map<number, number[]>; // tagId -> unit vector
+
+export interface EmbeddingTrainingData {
+  bountyTags: { bountyId: number; tagId: number; weight: number }[];
+  interactions: { userId: string; bountyId: number; type: string }[];
+}
+
+export interface EmbeddingOptions {
+  dimensions?: number;
+  coEngagementWeight?: number; // Weight of co-engagement vs. bounty co-occurrence
+}
+
+// ============ CONSTANTS ============
+
+export const DEFAULT_EMBEDDING_DIMENSIONS = 16;
+
+// How much one user's co-engagement counts relative to one bounty's tags
+const DEFAULT_CO_ENGAGEMENT_WEIGHT = 1;
+
+// Signal strength per interaction type for co-engagement
+const INTERACTION_WEIGHTS: Record<string, number> = {
+  view: 1,
+  like: 2,
+  submit: 3,
+  complete: 5,
+};
+
+// Context distribution smoothing for PMI (dampens rare-tag inflation)
+const PMI_ALPHA = 0.75;
+
+const POWER_ITERATIONS = 200;
+const POWER_TOLERANCE = 1e-9;
+
+// ============ TRAINING ============
+
+/**
+ * Learn tag embeddings from bounty tags and interactions
+ * Tags that never co-occur with anything get no vector
+ */
+export function trainTagEmbeddings(
+  data: EmbeddingTrainingData,
+  options: EmbeddingOptions = {}
+): TagEmbeddings {
+  const dimensions = options.dimensions ?? DEFAULT_EMBEDDING_DIMENSIONS;
+  const coEngagementWeight = options.coEngagementWeight ?? DEFAULT_CO_ENGAGEMENT_WEIGHT;
+
+  const { tagIds, counts } = buildCooccurrence(data, coEngagementWeight);
+  if (tagIds.length === 0) return new Map();
+
+  const ppmi = computePPMI(counts);
+  const components = topEigenpairs(ppmi, Math.min(dimensions, tagIds.length));
+
+  const embeddings: TagEmbeddings = new Map();
+  tagIds.forEach((tagId, i) => {
+    const vector = normalize(components.map((c) => c.vector[i]! * Math.sqrt(c.value)));
+    if (vector.some((v) => v !== 0)) {
+      embeddings.set(tagId, vector);
+    }
+  });
+
+  return embeddings;
+}
+
+// ============ VECTORS ============
+
+/**
+ * Bounty vector: weight-averaged tag vectors, L2-normalized
+ */
+export function bountyVector(
+  tags: { tagId: number; weight: number }[],
+  embeddings: TagEmbeddings
+): number[] | null {
+  return weightedSum(tags.map((t) => ({ tagId: t.tagId, weight: t.weight })), embeddings);
+}
+
+/**
+ * User vector: profile tag vectors weighted by score, L2-normalized
+ */
+export function userVector(
+  tags: { tagId: number; score: number }[],
+  embeddings: TagEmbeddings
+): number[] | null {
+  return weightedSum(tags.map((t) => ({ tagId: t.tagId, weight: t.score })), embeddings);
+}
+
+/**
+ * Embedding relevance on the same 0-10 scale as the tag match
+ * (negative similarity counts as no match)
+ */
+export function computeEmbeddingRelevance(user: number[] | null, bounty: number[] | null): number {
+  if (!user || !bounty) return 0;
+  return Math.max(0, dot(user, bounty)) * 10;
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Symmetric tag x tag co-occurrence matrix over every tag seen in the data
+ */
+function buildCooccurrence(
+  data: EmbeddingTrainingData,
+  coEngagementWeight: number
+): { tagIds: number[]; counts: number[][] } {
+  const tagsByBounty = new Map<number, { tagId: number; weight: number }[]>();
+  for (const bt of data.bountyTags) {
+    if (!tagsByBounty.has(bt.bountyId)) {
+      tagsByBounty.set(bt.bountyId, []);
+    }
+    tagsByBounty.get(bt.bountyId)!.push(bt);
+  }
+
+  const tagIds = Array.from(new Set(data.bountyTags.map((bt) => bt.tagId))).sort((a, b) => a - b);
+  const index = new Map(tagIds.map((id, i) => [id, i]));
+  const counts = tagIds.map(() => new Array<number>(tagIds.length).fill(0));
+
+  const addPairs = (mix: Map<number, number>, scale: number) => {
+    const entries = Array.from(mix);
+    for (let a = 0; a < entries.length; a++) {
+      for (let b = a + 1; b < entries.length; b++) {
+        const [tagA, weightA] = entries[a]!;
+        const [tagB, weightB] = entries[b]!;
+        const i = index.get(tagA)!;
+        const j = index.get(tagB)!;
+        const value = weightA * weightB * scale;
+        counts[i]![j]! += value;
+        counts[j]![i]! += value;
+      }
+    }
+  };
+
+  // Bounty co-occurrence
+  for (const tags of tagsByBounty.values()) {
+    addPairs(new Map(tags.map((t) => [t.tagId, t.weight])), 1);
+  }
+
+  // Co-engagement: each user's interaction-weighted tag mix, normalized to sum 1
+  const mixByUser = new Map<string, Map<number, number>>();
+  for (const interaction of data.interactions) {
+    const weight = INTERACTION_WEIGHTS[interaction.type] ?? 0;
+    if (weight === 0) continue;
+
+    if (!mixByUser.has(interaction.userId)) {
+      mixByUser.set(interaction.userId, new Map());
+    }
+    const mix = mixByUser.get(interaction.userId)!;
+    for (const t of tagsByBounty.get(interaction.bountyId) ?? []) {
+      mix.set(t.tagId, (mix.get(t.tagId) ?? 0) + weight * t.weight);
+    }
+  }
+
+  for (const mix of mixByUser.values()) {
+    const total = Array.from(mix.values()).reduce((sum, v) => sum + v, 0);
+    if (total === 0 || mix.size < 2) continue;
+    for (const [tagId, value] of mix) {
+      mix.set(tagId, value / total);
+    }
+    // Pairs of a normalized mix sum to < 0.5; scale so a user ~ one bounty
+    addPairs(mix, coEngagementWeight * 2);
+  }
+
+  return { tagIds, counts };
+}
+
+/**
+ * Positive pointwise mutual information with smoothed context probabilities
+ * Smoothing only the context side makes PMI slightly asymmetric, so the
+ * result is averaged with its transpose
+ */
+function computePPMI(counts: number[][]): number[][] {
+  const rowSums = counts.map((row) => row.reduce((sum, v) => sum + v, 0));
+  const total = rowSums.reduce((sum, v) => sum + v, 0);
+  if (total === 0) return counts.map((row) => row.map(() => 0));
+
+  const smoothed = rowSums.map((s) => Math.pow(s, PMI_ALPHA));
+  const smoothedTotal = smoothed.reduce((sum, v) => sum + v, 0);
+
+  const pmi = counts.map((row, i) =>
+    row.map((count, j) => {
+      if (count <= 0) return 0;
+      const pJoint = count / total;
+      const pRow = rowSums[i]! / total;
+      const pContext = smoothed[j]! / smoothedTotal;
+      return Math.max(0, Math.log(pJoint / (pRow * pContext)));
+    })
+  );
+
+  return pmi.map((row, i) => row.map((value, j) => (value + pmi[j]![i]!) / 2));
+}
+
+/**
+ * Top-k positive eigenpairs of a symmetric matrix (power iteration with
+ * deflation). For a symmetric PSD-ish matrix this is its truncated SVD.
+ * Power iteration finds the eigenvalue of largest magnitude, and PPMI
+ * matrices can have negative ones as large as their positive ones (ring-like
+ * co-occurrence gives ±λ pairs), so the matrix is shifted by a bound on its
+ * spectral radius first: every eigenvalue becomes non-negative, in the same
+ * order.
+ */
+function topEigenpairs(matrix: number[][], k: number): { value: number; vector: number[] }[] {
+  const n = matrix.length;
+  const shift = Math.max(0, ...matrix.map((row) => row.reduce((sum, v) => sum + Math.abs(v), 0)));
+  // Tags without any co-occurrence keep their empty row, so they stay exactly 0
+  const a = matrix.map((row, i) =>
+    row.map((v, j) => (i === j && row.some((x) => x !== 0) ? v + shift : v))
+  );
+  const pairs: { value: number; vector: number[] }[] = [];
+
+  for (let round = 0; round < k; round++) {
+    // Deterministic, non-uniform start so runs are reproducible; it differs
+    // per round, or a repeated eigenvalue would only be found once
+    let vector = normalize(
+      Array.from({ length: n }, (_, i) => 1 + ((i * 7919 + round * 104729) % 13) / 13)
+    );
+    let value = 0;
+
+    for (let iter = 0; iter < POWER_ITERATIONS; iter++) {
+      const next = multiply(a, vector);
+      const nextValue = dot(vector, next);
+      const normalized = normalize(next);
+      if (normalized.every((v) => v === 0)) break;
+
+      const converged = Math.abs(nextValue - value) < POWER_TOLERANCE;
+      vector = normalized;
+      value = nextValue;
+      if (converged) break;
+    }
+
+    // Eigenvalues come out largest first, so the rest aren't positive either
+    if (value - shift < POWER_TOLERANCE) break;
+
+    // Deflate: A -= value * v v^T
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        a[i]![j]! -= value * vector[i]! * vector[j]!;
+      }
+    }
+
+    pairs.push({ value: value - shift, vector });
+  }
+
+  return pairs;
+}
+
+function weightedSum(
+  items: { tagId: number; weight: number }[],
+  embeddings: TagEmbeddings
+): number[] | null {
+  let sum: number[] | null = null;
+
+  for (const item of items) {
+    const vector = embeddings.get(item.tagId);
+    if (!vector || item.weight <= 0) continue;
+    sum ??= new Array<number>(vector.length).fill(0);
+    for (let i = 0; i < vector.length; i++) {
+      sum[i]! += vector[i]! * item.weight;
+    }
+  }
+
+  return sum ? normalize(sum) : null;
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => dot(row, vector));
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * (b[i] ?? 0);
+  }
+  return sum;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm > 0 ? vector.map((v) => v / norm) : vector.map(() => 0);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import type { ExperimentVariant } from "@algorithim-test/db/schema/experiment";
+import { bucketUser, hashToUnitInterval } from "./experiment-bucketing";
+
+function variant(id: string, allocation: number): ExperimentVariant {
+  return { id, allocation, strategyId: "default" };
+}
+
+const userIds = Array.from({ length: 10_000 }, (_, i) => `user-${i}`);
+
+function shares(experimentKey: string, variants: ExperimentVariant[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const userId of userIds) {
+    const id = bucketUser(experimentKey, userId, variants)?.id ?? "none";
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return new Map([...counts].map(([id, count]) => [id, count / userIds.length]));
+}
+
+describe("hashToUnitInterval", () => {
+  test("matches the FNV-1a reference values", () => {
+    expect(hashToUnitInterval("")).toBe(0x811c9dc5 / 0x100000000);
+    expect(hashToUnitInterval("a")).toBe(0xe40c292c / 0x100000000);
+    expect(hashToUnitInterval("foobar")).toBe(0xbf9cf968 / 0x100000000);
+  });
+
+  test("stays in [0, 1)", () => {
+    for (const userId of userIds.slice(0, 1000)) {
+      const point = hashToUnitInterval(userId);
+      expect(point).toBeGreaterThanOrEqual(0);
+      expect(point).toBeLessThan(1);
+    }
+  });
+});
+
+describe("bucketUser", () => {
+  const variants = [variant("control", 1), variant("treatment", 3)];
+
+  test("always puts a user in the same variant", () => {
+    for (const userId of userIds.slice(0, 100)) {
+      expect(bucketUser("exp", userId, variants)).toBe(bucketUser("exp", userId, [...variants]));
+    }
+  });
+
+  test("splits traffic in proportion to allocation", () => {
+    const split = shares("exp", variants);
+    expect(split.get("control")).toBeCloseTo(0.25, 1);
+    expect(split.get("treatment")).toBeCloseTo(0.75, 1);
+  });
+
+  test("buckets each experiment independently", () => {
+    const even = [variant("a", 1), variant("b", 1)];
+    const moved = userIds.filter(
+      (userId) => bucketUser("first", userId, even)?.id !== bucketUser("second", userId, even)?.id
+    );
+    expect(moved.length / userIds.length).toBeCloseTo(0.5, 1);
+  });
+
+  test("skips variants without a positive allocation", () => {
+    const split = shares("exp", [variant("off", 0), variant("on", 2), variant("negative", -1)]);
+    expect([...split.keys()]).toEqual(["on"]);
+  });
+
+  test("returns undefined when nothing has a positive allocation", () => {
+    expect(bucketUser("exp", "user-1", [variant("a", 0), variant("b", -1)])).toBeUndefined();
+    expect(bucketUser("exp", "user-1", [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Experiment Bucketing
+ *
+ * Deterministic variant assignment: hash `${experiment.key}:${userId}` to a
+ * point in [0, 1) and walk the variants' cumulative allocations (see
+ * experiment.ts for how assignments are persisted).
+ *
+ * Pure functions only.
+ */
+
+import type { ExperimentVariant } from "@algorithim-test/db/schema/experiment";
+
+// ============ BUCKETING ============
+
+/**
+ * 32-bit FNV-1a hash, mapped to [0, 1)
+ */
+export function hashToUnitInterval(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick a variant for a user, proportional to each variant's allocation
+ */
+export function bucketUser(
+  experimentKey: string,
+  userId: string,
+  variants: ExperimentVariant[]
+): ExperimentVariant | undefined {
+  const total = variants.reduce((sum, v) => sum + Math.max(v.allocation, 0), 0);
+  if (total <= 0) return undefined;
+
+  const point = hashToUnitInterval(`${experimentKey}:${userId}`) * total;
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += Math.max(variant.allocation, 0);
+    if (point < cumulative) {
+      return variant;
+    }
+  }
+
+  return variants[variants.length - 1];
+}
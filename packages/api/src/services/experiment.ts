@@ -0,0 +1,172 @@
+/**
+ * Experiment Service
+ *
+ * A/B tests for scoring configs. Users are bucketed deterministically by
+ * hashing `${experiment.key}:${userId}`, so the same user always lands in
+ * the same variant for a given experiment without any coordination
+ * (see experiment-bucketing.ts).
+ * Assignments are still persisted so results can be analyzed in SQL.
+ *
+ * Only one experiment drives scoring at a time: if several are running,
+ * the most recently started one wins.
+ */
+
+import { eq, and, desc } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import {
+  experiment,
+  experimentAssignment,
+  type ExperimentVariant,
+} from "@algorithim-test/db/schema/experiment";
+import {
+  createWeightedStrategy,
+  getScoringStrategy,
+  hasScoringStrategy,
+  registerScoringStrategy,
+  type ScoringStrategy,
+} from "./scoring";
+import { bucketUser } from "./experiment-bucketing";
+
+// ============ TYPES ============
+
+export interface ExperimentAssignment {
+  experimentId: number;
+  experimentKey: string;
+  variantId: string;
+  strategyId: string;
+}
+
+// ============ VALIDATION ============
+
+/**
+ * Validate a variant list, returning an error message or null if valid
+ */
+export function validateVariants(variants: ExperimentVariant[]): string | null {
+  if (variants.length < 2) {
+    return "An experiment needs at least two variants";
+  }
+
+  const ids = new Set(variants.map((v) => v.id));
+  if (ids.size !== variants.length) {
+    return "Variant ids must be unique";
+  }
+
+  if (!variants.some((v) => v.allocation > 0)) {
+    return "At least one variant needs a positive allocation";
+  }
+
+  const unknown = variants.find((v) => !hasScoringStrategy(v.strategyId));
+  if (unknown) {
+    return `Unknown scoring strategy: ${unknown.strategyId}`;
+  }
+
+  return null;
+}
+
+// ============ STRATEGY RESOLUTION ============
+
+/**
+ * Resolve the scoring strategy id for a variant.
+ * Variants with weight overrides get their own strategy, `<experiment key>/<variant id>`
+ * (see loadScoringStrategy).
+ */
+export function resolveVariantStrategy(
+  experimentKey: string,
+  variant: ExperimentVariant
+): string {
+  return variant.weights ? `${experimentKey}/${variant.id}` : variant.strategyId;
+}
+
+/**
+ * Resolve a strategy id, including experiment variant strategies, which are
+ * rebuilt from the experiment table and registered in this process on first
+ * use. Everything that scores with an assigned strategy (API requests, the
+ * score-caches job) goes through here, so any process can resolve them.
+ */
+export async function loadScoringStrategy(id?: string): Promise<ScoringStrategy> {
+  if (id === undefined || hasScoringStrategy(id)) {
+    return getScoringStrategy(id);
+  }
+
+  // Experiment keys have no "/", so the first one ends the key
+  const separator = id.indexOf("/");
+  const experimentKey = separator === -1 ? undefined : id.slice(0, separator);
+  const variantId = id.slice(separator + 1);
+  const found = experimentKey
+    ? await db.query.experiment.findFirst({ where: eq(experiment.key, experimentKey) })
+    : undefined;
+  const variant = found?.variants.find((v) => v.id === variantId);
+
+  if (!found || !variant?.weights) {
+    throw new Error(`Unknown scoring strategy: ${id}`);
+  }
+
+  const base = getScoringStrategy(variant.strategyId);
+  const strategy = createWeightedStrategy({
+    id,
+    version: base.version,
+    label: `${base.label} [${id}]`,
+    description: `${base.description} (experiment weights)`,
+    weights: { freshness: 0, preference: 0, collaborative: 0, ...variant.weights },
+    freshness: base.freshness,
+    embeddingBlend: base.embeddingBlend,
+  });
+
+  // Variants can't change once running, so the registered copy stays valid
+  registerScoringStrategy(strategy);
+  return strategy;
+}
+
+// ============ ASSIGNMENT ============
+
+/**
+ * Get the user's assignment in the active experiment, creating it if needed.
+ * Returns null when no experiment is running.
+ */
+export async function getExperimentAssignment(
+  userId: string
+): Promise<ExperimentAssignment | null> {
+  const active = await db.query.experiment.findFirst({
+    where: eq(experiment.status, "running"),
+    orderBy: [desc(experiment.startedAt)],
+  });
+
+  if (!active) return null;
+
+  const existing = await db.query.experimentAssignment.findFirst({
+    where: and(
+      eq(experimentAssignment.experimentId, active.id),
+      eq(experimentAssignment.userId, userId)
+    ),
+  });
+
+  // Variants can't change once running, but fall back to re-bucketing
+  // if a stored variant somehow no longer exists
+  let variant = existing
+    ? active.variants.find((v) => v.id === existing.variantId)
+    : undefined;
+
+  if (!variant) {
+    variant = bucketUser(active.key, userId, active.variants);
+    if (!variant) return null;
+
+    await db
+      .insert(experimentAssignment)
+      .values({
+        experimentId: active.id,
+        userId,
+        variantId: variant.id,
+      })
+      .onConflictDoUpdate({
+        target: [experimentAssignment.experimentId, experimentAssignment.userId],
+        set: { variantId: variant.id, assignedAt: new Date() },
+      });
+  }
+
+  return {
+    experimentId: active.id,
+    experimentKey: active.key,
+    variantId: variant.id,
+    strategyId: resolveVariantStrategy(active.key, variant),
+  };
+}
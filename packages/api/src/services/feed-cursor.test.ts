@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { decodeFeedCursor, encodeFeedCursor } from "./feed-cursor";
+
+describe("feed cursors", () => {
+  test("round-trip the snapshot id and position", () => {
+    const cursor = { snapshotId: 42, position: 120 };
+    const encoded = encodeFeedCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeFeedCursor(encoded)).toEqual(cursor);
+  });
+
+  test("reject anything that isn't an encoded cursor", () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+    expect(() => decodeFeedCursor("")).toThrow("Invalid feed cursor");
+    expect(() => decodeFeedCursor("not a cursor")).toThrow("Invalid feed cursor");
+    expect(() => decodeFeedCursor(encode({ snapshotId: 1, position: 0 }))).toThrow("Invalid feed cursor");
+    expect(() => decodeFeedCursor(encode([1]))).toThrow("Invalid feed cursor");
+    expect(() => decodeFeedCursor(encode([1, -20]))).toThrow("Invalid feed cursor");
+    expect(() => decodeFeedCursor(encode([1.5, 20]))).toThrow("Invalid feed cursor");
+    expect(() => decodeFeedCursor(encode(["1", 20]))).toThrow("Invalid feed cursor");
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Feed Cursors
+ *
+ * Opaque base64url strings holding a feed snapshot id and the position of
+ * the next page (see feed-snapshot.ts).
+ *
+ * Pure functions only.
+ */
+
+// ============ TYPES ============
+
+export interface FeedCursor {
+  snapshotId: number;
+  position: number; // 0-based index of the next entry to return
+}
+
+// ============ CURSORS ============
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify([cursor.snapshotId, cursor.position])).toString("base64url");
+}
+
+export function decodeFeedCursor(value: string): FeedCursor {
+  try {
+    const [snapshotId, position] = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (Number.isInteger(snapshotId) && Number.isInteger(position) && position >= 0) {
+      return { snapshotId, position };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid feed cursor");
+}
@@ -0,0 +1,171 @@
+/**
+ * Feed Snapshots
+ *
+ * Pins the top FEED_SNAPSHOT_SIZE bounties of a feed ranking for
+ * FEED_SNAPSHOT_TTL_MINUTES so cursor pagination walks one fixed order
+ * where people actually scroll: a like or a score cache refresh between
+ * page loads can't duplicate or skip bounties. Only the order is stored
+ * (bounty ids and their pre-diversity positions); scores and bounty fields
+ * are read fresh from the score cache per page, and bounties that stopped
+ * being open (or left the cache) since the snapshot are left out. Positions
+ * past the pinned window are read straight from the score cache with
+ * LIMIT/OFFSET, in raw order. Expired snapshots are pruned by the
+ * prune-snapshots job.
+ *
+ * Pages are addressed by cursors (feed-cursor.ts) holding the snapshot id
+ * and the position of the next page.
+ */
+
+import { and, eq, inArray, lt } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import { buildBountyFilter } from "@algorithim-test/db/bounty-filter";
+import { bounty } from "@algorithim-test/db/schema/bounty";
+import { feedSnapshot, userBountyScore } from "@algorithim-test/db/schema/recommendation";
+import type { RerankedBounty } from "./diversity";
+import type { FeedCursor } from "./feed-cursor";
+import { fromCachedScore, readCachedScores, type CachedScoreQuery } from "./score-cache";
+
+// ============ TYPES ============
+
+export type FeedSnapshot = typeof feedSnapshot.$inferSelect;
+
+// ============ CONSTANTS ============
+
+export const FEED_SNAPSHOT_TTL_MINUTES = 30;
+
+// Bounties pinned per snapshot (the top of the ranking)
+export const FEED_SNAPSHOT_SIZE = 200;
+
+// ============ SNAPSHOTS ============
+
+/**
+ * Pin the top of a ranking (in display order, at most FEED_SNAPSHOT_SIZE
+ * bounties). `total` is the size of the whole feed.
+ */
+export async function createFeedSnapshot(
+  userId: string,
+  strategyId: string,
+  queryKey: string,
+  ranked: RerankedBounty[],
+  total: number,
+  now: Date = new Date()
+): Promise<FeedSnapshot> {
+  const [snapshot] = await db
+    .insert(feedSnapshot)
+    .values({
+      userId,
+      strategyId,
+      queryKey,
+      entries: ranked
+        .slice(0, FEED_SNAPSHOT_SIZE)
+        .map(({ scored, rawPosition }) => ({ bountyId: scored.bounty.id, rawPosition })),
+      total,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + FEED_SNAPSHOT_TTL_MINUTES * 60 * 1000),
+    })
+    .returning();
+
+  return snapshot!;
+}
+
+/**
+ * Load the snapshot a cursor points into. Throws when it has expired or was
+ * made for another user or another feed query.
+ */
+export async function getFeedSnapshot(
+  userId: string,
+  cursor: FeedCursor,
+  queryKey: string,
+  now: Date = new Date()
+): Promise<FeedSnapshot> {
+  const snapshot = await db.query.feedSnapshot.findFirst({
+    where: and(eq(feedSnapshot.id, cursor.snapshotId), eq(feedSnapshot.userId, userId)),
+  });
+
+  if (!snapshot || snapshot.expiresAt.getTime() <= now.getTime()) {
+    throw new Error("This feed page has expired, please refresh");
+  }
+  if (snapshot.queryKey !== queryKey) {
+    throw new Error("Feed cursor does not match the current sort and filters");
+  }
+
+  return snapshot;
+}
+
+/**
+ * Delete every user's expired snapshots (run by the prune-snapshots job)
+ */
+export async function pruneFeedSnapshots(now: Date = new Date()): Promise<number> {
+  const deleted = await db
+    .delete(feedSnapshot)
+    .where(lt(feedSnapshot.expiresAt, now))
+    .returning({ id: feedSnapshot.id });
+
+  return deleted.length;
+}
+
+/**
+ * One page of a feed: positions inside the snapshot come from it, later
+ * ones from the score cache in raw order. `query` is the sort and filters
+ * the snapshot was made for.
+ */
+export async function readFeedPage(
+  snapshot: FeedSnapshot,
+  query: CachedScoreQuery,
+  position: number,
+  limit: number,
+  now: Date = new Date()
+): Promise<RerankedBounty[]> {
+  const pinned = await readSnapshotPage(snapshot, position, limit, now);
+
+  const start = Math.max(position, snapshot.entries.length);
+  const end = Math.min(position + limit, snapshot.total);
+  if (start >= end) return pinned;
+
+  const rest = await readCachedScores(
+    snapshot.userId,
+    snapshot.strategyId,
+    { ...query, limit: end - start, offset: start },
+    now
+  );
+
+  return [...pinned, ...rest.map((scored, i) => ({ scored, rawPosition: start + i }))];
+}
+
+/**
+ * One page of a snapshot, with current bounty rows and cached scores
+ */
+export async function readSnapshotPage(
+  snapshot: FeedSnapshot,
+  position: number,
+  limit: number,
+  now: Date = new Date()
+): Promise<RerankedBounty[]> {
+  const entries = snapshot.entries.slice(position, position + limit);
+  if (entries.length === 0) return [];
+
+  const rows = await db
+    .select({ bounty, score: userBountyScore })
+    .from(bounty)
+    .innerJoin(
+      userBountyScore,
+      and(
+        eq(userBountyScore.bountyId, bounty.id),
+        eq(userBountyScore.userId, snapshot.userId),
+        eq(userBountyScore.strategyId, snapshot.strategyId)
+      )
+    )
+    .where(
+      and(
+        inArray(bounty.id, entries.map((e) => e.bountyId)),
+        buildBountyFilter({ statuses: ["open"], activeAt: now })
+      )
+    );
+  const rowsById = new Map(rows.map((row) => [row.bounty.id, row]));
+
+  return entries.flatMap((entry) => {
+    const row = rowsById.get(entry.bountyId);
+    if (!row) return [];
+    return [{ scored: fromCachedScore(row.bounty, row.score), rawPosition: entry.rawPosition }];
+  });
+}
@@ -0,0 +1,23 @@
+import { describe, expect, test } from "bun:test";
+
+// Runs against the database in DATABASE_URL (apps/web/.env, seeded with
+// `bun run db:seed`) and is skipped without one. The services are imported
+// inside the test, as importing the db client needs the env.
+describe.skipIf(!process.env.DATABASE_URL)("bounty feed on the seeded database", () => {
+  test(
+    "matches the in-memory path for every sort and filter",
+    async () => {
+      const { compareBountyFeeds } = await import("./feed-verification");
+      const comparisons = await compareBountyFeeds({ users: 2 });
+
+      expect(comparisons.length).toBeGreaterThan(0);
+      for (const { userId, sortBy, filter, expected, actual } of comparisons) {
+        expect({ feed: `${userId} ${sortBy} / ${filter}`, ids: actual }).toEqual({
+          feed: `${userId} ${sortBy} / ${filter}`,
+          ids: expected,
+        });
+      }
+    },
+    5 * 60 * 1000
+  );
+});
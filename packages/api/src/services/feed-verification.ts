@@ -0,0 +1,229 @@
+/**
+ * Feed Verification
+ *
+ * Checks the bounty feed against the original in-memory path on seeded
+ * data. For each user and every sort × filter combination, pages through
+ * the feed the way getBountyFeed does (score cache, SQL filters and sort,
+ * feed snapshot) and records the bounty ids, in order, next to the ones
+ * the original path gives: score every open bounty in memory, drop those
+ * below the relevance threshold, filter with matchesBountyFilter and sort
+ * in JS. Ties break by bounty id and scores compare at the cache's float4
+ * precision, as in SQL.
+ *
+ * Needs more than MIN_OPEN_BOUNTIES open bounties, so feeds run past the
+ * old 500-row cache cap. Used by the verify-filters script and the feed
+ * tests.
+ */
+
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import { matchesBountyFilter, buildBountyFilter } from "@algorithim-test/db/bounty-filter";
+import { bounty, bountyInteraction, bountyTag } from "@algorithim-test/db/schema/bounty";
+import { feedSnapshot } from "@algorithim-test/db/schema/recommendation";
+import { userProfile } from "@algorithim-test/db/schema/user-profile";
+import { loadScoringStrategy } from "./experiment";
+import { createFeedSnapshot, FEED_SNAPSHOT_SIZE, readFeedPage } from "./feed-snapshot";
+import { scoreAllBounties, type BountyTag, type ScoredBounty } from "./recommendation";
+import {
+  countCachedScores,
+  ensureScoreCache,
+  loadRecommendationInput,
+  readCachedScores,
+  type CachedScoreQuery,
+  type FeedSort,
+} from "./score-cache";
+
+// ============ TYPES ============
+
+export interface FeedComparison {
+  userId: string;
+  sortBy: FeedSort;
+  filter: string;       // Name of the filter case
+  relevant: number;     // Relevant bounties for the user before filtering
+  expected: number[];   // Bounty ids from the in-memory path
+  actual: number[];     // Bounty ids from the feed
+}
+
+// ============ CONSTANTS ============
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MIN_OPEN_BOUNTIES = 500;
+const PAGE_SIZE = 100;
+
+const SORTS: FeedSort[] = ["relevance", "price_high", "price_low", "engagement", "newest"];
+
+// ============ VERIFICATION ============
+
+/**
+ * Compare the feed with the in-memory path for the most active users
+ * Throws when there aren't enough open bounties to exercise the feed
+ */
+export async function compareBountyFeeds(
+  options: { users?: number; strategyId?: string; now?: Date } = {}
+): Promise<FeedComparison[]> {
+  const now = options.now ?? new Date();
+  const strategy = await loadScoringStrategy(options.strategyId);
+
+  const open = await db
+    .select()
+    .from(bounty)
+    .where(buildBountyFilter({ statuses: ["open"], activeAt: now }));
+
+  if (open.length <= MIN_OPEN_BOUNTIES) {
+    throw new Error(
+      `Only ${open.length} open bounties; needs more than ${MIN_OPEN_BOUNTIES}. Run the seed first.`
+    );
+  }
+
+  const tags = await db
+    .select({ bountyId: bountyTag.bountyId, tagId: bountyTag.tagId, weight: bountyTag.weight })
+    .from(bountyTag);
+
+  const bountyTagMap = new Map<number, BountyTag[]>();
+  const tagCounts = new Map<number, number>();
+  for (const t of tags) {
+    if (!bountyTagMap.has(t.bountyId)) {
+      bountyTagMap.set(t.bountyId, []);
+    }
+    bountyTagMap.get(t.bountyId)!.push({ tagId: t.tagId, weight: t.weight });
+    tagCounts.set(t.tagId, (tagCounts.get(t.tagId) ?? 0) + 1);
+  }
+
+  // Filter values drawn from the data so every case selects something
+  const commonTags = Array.from(tagCounts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([tagId]) => tagId);
+
+  const users = await db
+    .select({ userId: userProfile.userId })
+    .from(userProfile)
+    .orderBy(desc(userProfile.totalInteractions), userProfile.userId)
+    .limit(options.users ?? 3);
+
+  const comparisons: FeedComparison[] = [];
+
+  for (const { userId } of users) {
+    const input = await loadRecommendationInput(userId);
+    const mutualIds = input.mutuals.map((m) => m.mutualId);
+
+    const mutualInteractions = new Map<string, number[]>();
+    if (mutualIds.length > 0) {
+      const rows = await db
+        .select({ userId: bountyInteraction.userId, bountyId: bountyInteraction.bountyId })
+        .from(bountyInteraction)
+        .where(inArray(bountyInteraction.userId, mutualIds));
+
+      for (const mi of rows) {
+        if (!mutualInteractions.has(mi.userId)) {
+          mutualInteractions.set(mi.userId, []);
+        }
+        mutualInteractions.get(mi.userId)!.push(mi.bountyId);
+      }
+    }
+    const mutualBountyIds = new Set([...mutualInteractions.values()].flat());
+
+    // Original path: score everything in memory, relevant bounties only
+    const scored = scoreAllBounties(input, open, bountyTagMap, mutualInteractions, true, strategy.id, now);
+
+    await ensureScoreCache(userId, strategy.id, now);
+
+    const filterCases: { name: string; query: CachedScoreQuery }[] = [
+      { name: "no filters", query: {} },
+      { name: "tier", query: { tierFilter: ["basic", "middle"] } },
+      { name: "tags", query: { tagFilter: commonTags.slice(0, 3) } },
+      { name: "price range", query: { priceMin: 100, priceMax: 1000 } },
+      { name: "min engagement", query: { minEngagement: 10 } },
+      { name: "created after", query: { createdAfter: new Date(now.getTime() - 30 * DAY_MS) } },
+      { name: "mutual activity", query: { mutualActivity: mutualIds } },
+      {
+        name: "everything",
+        query: {
+          tierFilter: ["middle", "high"],
+          tagFilter: commonTags.slice(0, 5),
+          priceMin: 200,
+          priceMax: 5000,
+          minEngagement: 5,
+          createdAfter: new Date(now.getTime() - 90 * DAY_MS),
+        },
+      },
+    ];
+
+    for (const sortBy of SORTS) {
+      for (const { name, query } of filterCases) {
+        const expected = sortBaseline(
+          scored.filter((sb) =>
+            matchesBountyFilter(sb.bounty, (bountyTagMap.get(sb.bounty.id) ?? []).map((t) => t.tagId), mutualBountyIds, query)
+          ),
+          sortBy
+        ).map((sb) => sb.bounty.id);
+
+        const actual = await readFeed(userId, strategy.id, { ...query, sortBy }, now);
+
+        comparisons.push({ userId, sortBy, filter: name, relevant: scored.length, expected, actual });
+      }
+    }
+  }
+
+  return comparisons;
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Bounty ids of the whole feed, read page by page like getBountyFeed: the
+ * pinned snapshot first, then SQL pages past it
+ */
+async function readFeed(
+  userId: string,
+  strategyId: string,
+  query: CachedScoreQuery,
+  now: Date
+): Promise<number[]> {
+  const total = await countCachedScores(userId, strategyId, query, now);
+  const pool = await readCachedScores(userId, strategyId, { ...query, limit: FEED_SNAPSHOT_SIZE }, now);
+  const snapshot = await createFeedSnapshot(
+    userId,
+    strategyId,
+    JSON.stringify(query),
+    pool.map((scored, rawPosition) => ({ scored, rawPosition })),
+    total,
+    now
+  );
+
+  const ids: number[] = [];
+  try {
+    for (let position = 0; position < snapshot.total; position += PAGE_SIZE) {
+      const page = await readFeedPage(snapshot, query, position, PAGE_SIZE, now);
+      ids.push(...page.map((p) => p.scored.bounty.id));
+    }
+  } finally {
+    await db
+      .delete(feedSnapshot)
+      .where(and(eq(feedSnapshot.id, snapshot.id), eq(feedSnapshot.userId, userId)));
+  }
+
+  return ids;
+}
+
+/**
+ * The original feed sort, with ties broken by id like the SQL ORDER BY
+ */
+function sortBaseline(scored: ScoredBounty[], sortBy: FeedSort): ScoredBounty[] {
+  const key = (sb: ScoredBounty): number => {
+    switch (sortBy) {
+      case "relevance":
+        return -Math.fround(sb.finalScore);
+      case "price_high":
+        return -sb.bounty.price;
+      case "price_low":
+        return sb.bounty.price;
+      case "engagement":
+        return -sb.bounty.engagementScore;
+      case "newest":
+        return -sb.bounty.createdAt.getTime();
+    }
+  };
+
+  return [...scored].sort((a, b) => key(a) - key(b) || a.bounty.id - b.bounty.id);
+}
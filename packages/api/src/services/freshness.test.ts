@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { computeFreshness, isExpired, type FreshnessConfig } from "./freshness";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2026-03-01T12:00:00Z");
+
+function hoursFromNow(hours: number): Date {
+  return new Date(now.getTime() + hours * HOUR_MS);
+}
+
+function config(
+  curve: FreshnessConfig["newBounty"]["curve"],
+  mode: FreshnessConfig["expiry"]["mode"] = "none"
+): FreshnessConfig {
+  return { newBounty: { curve, windowHours: 24 }, expiry: { mode, windowHours: 10 } };
+}
+
+describe("isExpired", () => {
+  test("checks the status and expiresAt", () => {
+    expect(isExpired({ status: "expired", expiresAt: null }, now)).toBe(true);
+    expect(isExpired({ status: "open", expiresAt: null }, now)).toBe(false);
+    expect(isExpired({ status: "open", expiresAt: hoursFromNow(1) }, now)).toBe(false);
+    expect(isExpired({ status: "open", expiresAt: now }, now)).toBe(true);
+    expect(isExpired({ status: "open", expiresAt: hoursFromNow(-1) }, now)).toBe(true);
+  });
+});
+
+describe("computeFreshness", () => {
+  test("fades the new-bounty boost along each curve", () => {
+    const halfWindow = { createdAt: hoursFromNow(-12), expiresAt: null };
+    const pastWindow = { createdAt: hoursFromNow(-30), expiresAt: null };
+
+    expect(computeFreshness(halfWindow, config("none"), now)).toBe(0);
+    expect(computeFreshness(halfWindow, config("step"), now)).toBe(1);
+    expect(computeFreshness(pastWindow, config("step"), now)).toBe(0);
+    expect(computeFreshness(halfWindow, config("linear"), now)).toBeCloseTo(0.5);
+    expect(computeFreshness(pastWindow, config("linear"), now)).toBe(0);
+    expect(computeFreshness(halfWindow, config("exponential"), now)).toBeCloseTo(Math.SQRT1_2);
+    expect(computeFreshness({ createdAt: hoursFromNow(-24), expiresAt: null }, config("exponential"), now)).toBeCloseTo(0.5);
+  });
+
+  test("treats bounties created in the future as brand new", () => {
+    expect(computeFreshness({ createdAt: hoursFromNow(5), expiresAt: null }, config("linear"), now)).toBe(1);
+  });
+
+  test("penalizes or boosts bounties inside the expiry window", () => {
+    const closing = { createdAt: hoursFromNow(-48), expiresAt: hoursFromNow(2) };
+
+    expect(computeFreshness(closing, config("none", "penalty"), now)).toBeCloseTo(-0.8);
+    expect(computeFreshness(closing, config("none", "urgency"), now)).toBeCloseTo(0.8);
+    expect(computeFreshness(closing, config("none", "none"), now)).toBe(0);
+  });
+
+  test("ignores expiry outside the window", () => {
+    const later = { createdAt: hoursFromNow(-48), expiresAt: hoursFromNow(20) };
+
+    expect(computeFreshness(later, config("none", "penalty"), now)).toBe(0);
+  });
+
+  test("clamps to -1..1", () => {
+    const newAndClosing = { createdAt: now, expiresAt: hoursFromNow(-1) };
+
+    expect(computeFreshness(newAndClosing, config("step", "urgency"), now)).toBe(1);
+    expect(computeFreshness({ createdAt: hoursFromNow(-48), expiresAt: hoursFromNow(-1) }, config("none", "penalty"), now)).toBe(-1);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Freshness Scoring
+ *
+ * Turns a bounty's age and time left into a freshness component (-1 to 1):
+ *   - new bounties get a boost (0-1) that fades along a configurable curve
+ *   - bounties close to expiry are either penalized (hard to finish in time)
+ *     or boosted (last chance), depending on the expiry mode
+ *
+ * Already-expired bounties are never scored, whatever their status column
+ * says (see isExpired).
+ */
+
+// ============ TYPES ============
+
+// How the new-bounty boost fades with age (x = age / windowHours):
+//   - none: no boost
+//   - step: 1 until the window ends, then 0
+//   - linear: 1 - x, reaching 0 at the end of the window
+//   - exponential: 0.5^x, i.e. the window is a half-life
+export type NewBountyCurve = "none" | "step" | "linear" | "exponential";
+
+// What happens inside the expiry window (c = how far into the window, 0-1):
+//   - none: nothing
+//   - penalty: -c, pushes bounties that are about to expire down
+//   - urgency: +c, surfaces them before they're gone
+export type ExpiryMode = "none" | "penalty" | "urgency";
+
+export interface FreshnessConfig {
+  newBounty: { curve: NewBountyCurve; windowHours: number };
+  expiry: { mode: ExpiryMode; windowHours: number };
+}
+
+export interface FreshnessTiming {
+  createdAt: Date;
+  expiresAt: Date | null;
+}
+
+// ============ CONSTANTS ============
+
+export const DEFAULT_FRESHNESS_CONFIG: FreshnessConfig = {
+  newBounty: { curve: "exponential", windowHours: 72 },
+  expiry: { mode: "penalty", windowHours: 24 },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============ SCORING ============
+
+/**
+ * Is the bounty expired at `now`? Checks expiresAt as well as status,
+ * since the status column is only updated by a background job.
+ */
+export function isExpired(
+  bounty: { status: string; expiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  if (bounty.status === "expired") return true;
+  return bounty.expiresAt !== null && bounty.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Compute the freshness component for a bounty
+ * Returns -1 to 1
+ */
+export function computeFreshness(
+  bounty: FreshnessTiming,
+  config: FreshnessConfig = DEFAULT_FRESHNESS_CONFIG,
+  now: Date = new Date()
+): number {
+  const ageHours = Math.max(0, (now.getTime() - bounty.createdAt.getTime()) / HOUR_MS);
+  const boost = computeNewBountyBoost(ageHours, config.newBounty);
+
+  let expiryTerm = 0;
+  if (bounty.expiresAt && config.expiry.mode !== "none" && config.expiry.windowHours > 0) {
+    const hoursLeft = (bounty.expiresAt.getTime() - now.getTime()) / HOUR_MS;
+    if (hoursLeft < config.expiry.windowHours) {
+      const closeness = Math.min(1, 1 - Math.max(0, hoursLeft) / config.expiry.windowHours);
+      expiryTerm = config.expiry.mode === "penalty" ? -closeness : closeness;
+    }
+  }
+
+  return Math.max(-1, Math.min(1, boost + expiryTerm));
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * New-bounty boost for a given age
+ * Returns 0-1
+ */
+function computeNewBountyBoost(
+  ageHours: number,
+  config: FreshnessConfig["newBounty"]
+): number {
+  if (config.windowHours <= 0) return 0;
+  const x = ageHours / config.windowHours;
+
+  switch (config.curve) {
+    case "step":
+      return x < 1 ? 1 : 0;
+    case "linear":
+      return Math.max(0, 1 - x);
+    case "exponential":
+      return Math.pow(0.5, x);
+    case "none":
+      return 0;
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Interaction Events
+ *
+ * Consumes the interaction outbox (interactionEvent). Recording an
+ * interaction only appends an event; the worker (src/workers/
+ * interaction-events.ts) applies it with applyBountyInteraction: behavior,
+ * profile engagement and bounty aggregates. Dwell reports ride the same
+ * queue (applyDwellEvent), so they're ordered with the user's interactions.
+ *
+ * Ordering: each user's events are applied in id order. An event waits
+ * while an earlier event of the same user is still pending, including one
+ * backing off before a retry.
+ *
+ * Failures: an event that throws is retried with exponential backoff and
+ * dead-lettered (status "dead", keeping the last error) after
+ * MAX_EVENT_ATTEMPTS, which unblocks the user's later events. Dead events
+ * can be requeued once the cause is fixed.
+ *
+ * Meant for a single worker process; two workers could apply one user's
+ * events out of order.
+ */
+
+import { and, asc, count, eq, gt, lt, lte, notExists } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@algorithim-test/db";
+import { interactionEvent } from "@algorithim-test/db/schema/bounty";
+import { applyBountyInteraction, type InteractionEvent } from "./bounty";
+import { applyDwellEvent, DWELL_EVENT_TYPE } from "./bounty-views";
+
+// ============ TYPES ============
+
+export interface EventBatchResult {
+  applied: number;
+  retried: number; // Failed, scheduled for another attempt
+  dead: number;    // Failed for the last time
+  skipped: number; // Ready, but behind a failure of the same user in this batch
+}
+
+// ============ CONSTANTS ============
+
+export const MAX_EVENT_ATTEMPTS = 5;
+export const EVENT_BATCH_SIZE = 100;
+
+// Retry backoff: 10s, 20s, 40s... capped at an hour
+const RETRY_BASE_SECONDS = 10;
+const RETRY_MAX_SECONDS = 60 * 60;
+
+// ============ PROCESSING ============
+
+/**
+ * Apply up to `batchSize` ready events, oldest first, one user at a time
+ */
+export async function processInteractionEvents(
+  batchSize: number = EVENT_BATCH_SIZE,
+  now: Date = new Date()
+): Promise<EventBatchResult> {
+  const result: EventBatchResult = { applied: 0, retried: 0, dead: 0, skipped: 0 };
+
+  // Ready events with no earlier pending event of the same user still backing off
+  const blocker = alias(interactionEvent, "blocker");
+  const events = await db
+    .select()
+    .from(interactionEvent)
+    .where(
+      and(
+        eq(interactionEvent.status, "pending"),
+        lte(interactionEvent.availableAt, now),
+        notExists(
+          db
+            .select({ id: blocker.id })
+            .from(blocker)
+            .where(
+              and(
+                eq(blocker.userId, interactionEvent.userId),
+                eq(blocker.status, "pending"),
+                gt(blocker.availableAt, now),
+                lt(blocker.id, interactionEvent.id)
+              )
+            )
+        )
+      )
+    )
+    .orderBy(asc(interactionEvent.id))
+    .limit(batchSize);
+
+  const eventsByUser = new Map<string, InteractionEvent[]>();
+  for (const event of events) {
+    if (!eventsByUser.has(event.userId)) {
+      eventsByUser.set(event.userId, []);
+    }
+    eventsByUser.get(event.userId)!.push(event);
+  }
+
+  for (const userEvents of eventsByUser.values()) {
+    for (const [index, event] of userEvents.entries()) {
+      const outcome = await applyEvent(event, now);
+      result[outcome]++;
+
+      // A retry keeps the user's later events waiting behind it
+      if (outcome === "retried") {
+        result.skipped += userEvents.length - index - 1;
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Keep applying batches until no event is ready. Returns the totals.
+ */
+export async function drainInteractionEvents(
+  batchSize: number = EVENT_BATCH_SIZE
+): Promise<EventBatchResult> {
+  const total: EventBatchResult = { applied: 0, retried: 0, dead: 0, skipped: 0 };
+
+  while (true) {
+    const batch = await processInteractionEvents(batchSize);
+    total.applied += batch.applied;
+    total.retried += batch.retried;
+    total.dead += batch.dead;
+    total.skipped += batch.skipped;
+
+    // Only failures left: they're backing off, so stop here
+    if (batch.applied + batch.dead === 0) return total;
+  }
+}
+
+// ============ DEAD LETTERS ============
+
+/**
+ * Put dead events back in the queue with a fresh attempt budget
+ * Returns the number of events requeued
+ */
+export async function requeueDeadInteractionEvents(now: Date = new Date()): Promise<number> {
+  const requeued = await db
+    .update(interactionEvent)
+    .set({ status: "pending", attempts: 0, availableAt: now })
+    .where(eq(interactionEvent.status, "dead"))
+    .returning({ id: interactionEvent.id });
+
+  return requeued.length;
+}
+
+/**
+ * Outbox size by status (for the worker's log)
+ */
+export async function countInteractionEvents(): Promise<Record<InteractionEvent["status"], number>> {
+  const rows = await db
+    .select({ status: interactionEvent.status, count: count() })
+    .from(interactionEvent)
+    .groupBy(interactionEvent.status);
+
+  const counts = { pending: 0, done: 0, dead: 0 };
+  for (const row of rows) {
+    counts[row.status] = row.count;
+  }
+  return counts;
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Apply one event and record the outcome on it
+ */
+async function applyEvent(
+  event: InteractionEvent,
+  now: Date
+): Promise<"applied" | "retried" | "dead"> {
+  const attempts = event.attempts + 1;
+
+  try {
+    if (event.type === DWELL_EVENT_TYPE) {
+      await applyDwellEvent(event);
+    } else {
+      await applyBountyInteraction(event);
+    }
+  } catch (error) {
+    const dead = attempts >= MAX_EVENT_ATTEMPTS;
+    const delaySeconds = Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), RETRY_MAX_SECONDS);
+
+    await db
+      .update(interactionEvent)
+      .set({
+        status: dead ? "dead" : "pending",
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        availableAt: dead ? event.availableAt : new Date(now.getTime() + delaySeconds * 1000),
+      })
+      .where(eq(interactionEvent.id, event.id));
+
+    return dead ? "dead" : "retried";
+  }
+
+  await db
+    .update(interactionEvent)
+    .set({ status: "done", attempts, lastError: null, processedAt: new Date() })
+    .where(eq(interactionEvent.id, event.id));
+
+  return "applied";
+}
@@ -0,0 +1,174 @@
+/**
+ * Preference Fit
+ *
+ * Turns onboarding answers into per-bounty fit scores (each 0-1):
+ *   - type: is this the kind of work the user asked for? (bountyTypes,
+ *     with timeCommitment ruling out full projects for side hustlers)
+ *   - deadline: does the time left match their deadline style?
+ *   - risk: does the bounty's risk profile match their tolerance?
+ *   - price range: is the price inside their blended price range?
+ *
+ * Type, deadline and risk average into the `preference` score component.
+ * Price range feeds the existing price component instead.
+ *
+ * Pure functions only; preferences are loaded by getUserPreferences in
+ * behavior.ts.
+ */
+
+// ============ TYPES ============
+
+export type BountyType = "bug_fix" | "feature" | "full_project" | "code_review" | "docs";
+export type DeadlineStyle = "quick" | "standard" | "long_term";
+export type RiskTolerance = "safe" | "balanced" | "adventurous";
+export type TimeCommitment = "side_hustle" | "part_time" | "full_time";
+
+export interface UserPreferences {
+  priceRange: { min: number; max: number } | null; // Blended explicit + implicit
+  bountyTypes: BountyType[];                        // Empty = no preference
+  deadlineStyle: DeadlineStyle | null;
+  riskTolerance: RiskTolerance | null;
+  timeCommitment: TimeCommitment | null;
+}
+
+export interface PreferenceFit {
+  score: number;           // 0-1, average of the fits below that apply (0.5 if none)
+  type: number | null;
+  deadline: number | null;
+  risk: number | null;
+}
+
+// ============ CONSTANTS ============
+
+// Days left that count as a perfect fit for each deadline style
+const DEADLINE_BANDS: Record<DeadlineStyle, { minDays: number; maxDays: number }> = {
+  quick: { minDays: 0, maxDays: 7 },
+  standard: { minDays: 7, maxDays: 28 },
+  long_term: { minDays: 28, maxDays: Infinity },
+};
+
+// Fit for bounties with no expiry: open-ended suits long-term people best
+const NO_DEADLINE_FIT: Record<DeadlineStyle, number> = {
+  quick: 0.5,
+  standard: 0.8,
+  long_term: 1,
+};
+
+// Fit for a type the user didn't pick (still possible, just less likely)
+const UNPICKED_TYPE_FIT = 0.2;
+
+// Neutral score when there's nothing to compare against
+const NEUTRAL_FIT = 0.5;
+
+// ============ FIT FUNCTIONS ============
+
+/**
+ * Combine type, deadline and risk fit into the preference component
+ */
+export function computePreferenceFit(
+  bounty: { type: BountyType; price: number; description: string; expiresAt: Date | null },
+  preferences: UserPreferences | undefined,
+  now: Date = new Date()
+): PreferenceFit {
+  if (!preferences) {
+    return { score: NEUTRAL_FIT, type: null, deadline: null, risk: null };
+  }
+
+  const type = computeTypeFit(bounty.type, preferences.bountyTypes, preferences.timeCommitment);
+  const deadline = computeDeadlineFit(bounty.expiresAt, preferences.deadlineStyle, now);
+  const risk = computeRiskFit(bounty, preferences.riskTolerance);
+
+  const fits = [type, deadline, risk].filter((f): f is number => f !== null);
+  const score = fits.length > 0 ? fits.reduce((sum, f) => sum + f, 0) / fits.length : NEUTRAL_FIT;
+
+  return { score, type, deadline, risk };
+}
+
+/**
+ * Is the price inside the user's range? Outside, the fit falls off with
+ * the ratio to the nearest edge (half the min -> 0.5, double the max -> 0.5)
+ * Returns 0.1-1
+ */
+export function computePriceRangeFit(
+  price: number,
+  range: { min: number; max: number }
+): number {
+  if (price >= range.min && price <= range.max) return 1;
+  if (price < range.min) return Math.max(0.1, price / Math.max(range.min, 1));
+  return Math.max(0.1, range.max / price);
+}
+
+/**
+ * Bounty type vs. the types picked in onboarding
+ * Returns 0-1, or null when the user didn't pick any types
+ */
+export function computeTypeFit(
+  type: BountyType,
+  preferred: BountyType[],
+  timeCommitment: TimeCommitment | null
+): number | null {
+  if (preferred.length === 0 && !timeCommitment) return null;
+
+  let fit = preferred.length === 0 || preferred.includes(type) ? 1 : UNPICKED_TYPE_FIT;
+
+  // A full project is a lot for under 10 hrs/week
+  if (type === "full_project" && timeCommitment === "side_hustle") {
+    fit *= 0.5;
+  }
+
+  return fit;
+}
+
+/**
+ * Time left before expiry vs. deadline style
+ * Returns 0-1, or null when the user has no deadline style
+ */
+export function computeDeadlineFit(
+  expiresAt: Date | null,
+  deadlineStyle: DeadlineStyle | null,
+  now: Date = new Date()
+): number | null {
+  if (!deadlineStyle) return null;
+  if (!expiresAt) return NO_DEADLINE_FIT[deadlineStyle];
+
+  const daysLeft = Math.max(0, (expiresAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+  const band = DEADLINE_BANDS[deadlineStyle];
+
+  if (daysLeft < band.minDays) return daysLeft / band.minDays;
+  if (daysLeft > band.maxDays) return band.maxDays / daysLeft;
+  return 1;
+}
+
+/**
+ * Risk profile vs. risk tolerance
+ * Returns 0-1, or null when the user has no risk tolerance
+ */
+export function computeRiskFit(
+  bounty: { price: number; description: string },
+  riskTolerance: RiskTolerance | null
+): number | null {
+  if (!riskTolerance) return null;
+
+  const risk = estimateBountyRisk(bounty);
+
+  switch (riskTolerance) {
+    case "safe":
+      return 1 - risk;
+    case "adventurous":
+      return risk;
+    case "balanced":
+      return 1 - Math.abs(risk - 0.5);
+  }
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Rough riskiness of a bounty (0-1): higher pay and thinner specs are
+ * riskier. Price is placed on a log scale from $10 (0) to $10k (1);
+ * descriptions under ~1000 characters count as increasingly vague.
+ */
+function estimateBountyRisk(bounty: { price: number; description: string }): number {
+  const pricePosition = Math.max(0, Math.min(1, Math.log10(Math.max(bounty.price, 1) / 10) / 3));
+  const vagueness = 1 - Math.min(bounty.description.length / 1000, 1);
+  return (pricePosition + vagueness) / 2;
+}
@@ -1,32 +1,64 @@
 /**
  * Recommendation Engine Service
  *
- * Scoring Weights (v3):
- *   - 55% relevance (tag match) - do your skills match?
- *   - 15% social boost (mutuals engaged) - did people you follow engage?
- *   - 20% price affinity (tier-aware) - is the price attractive?
- *   - 10% bounty engagement (popularity) - is it popular?
+ * Each bounty is scored on these components:
+ *   - relevance (tag match, 0-10) - do your skills match?
+ *   - social boost (mutuals engaged, 0-2) - did people you follow engage?
+ *   - price affinity (tier-aware, 0-1) - is the price attractive?
+ *   - bounty engagement (popularity, 0-1) - is it popular?
+ *   - freshness (age and time to expiry, -1 to 1) - is it new, or about to expire?
+ *   - preference (onboarding fit, 0-1) - the kind of work, deadline and risk they asked for?
+ *   - collaborative (item-item, 0-1) - did people who engaged with your bounties engage with it?
+ *
+ * Price affinity also blends in the user's onboarding price range when known.
+ * Relevance gives discounted credit for related tags through the tag graph
+ * (see tag-graph.ts) when one is supplied, and strategies with an
+ * embeddingBlend mix in learned embedding similarity (see embedding.ts).
+ *
+ * The components are combined into a final score by a scoring strategy
+ * (see scoring.ts). The default strategy is v5.
  *
  * Minimum relevance threshold: 3.0 (bounties below this are filtered out)
+ * Expired bounties (by status or expiresAt) are never recommended.
  */
 
-// ============ CONSTANTS ============
+import { computeFreshness, isExpired } from "./freshness";
+import {
+  computePreferenceFit,
+  computePriceRangeFit,
+  type BountyType,
+  type PreferenceFit,
+  type UserPreferences,
+} from "./preferences";
+import { getScoringStrategy, type ScoringStrategy } from "./scoring";
+import { computeCollaborativeScore, type CollaborativeInput, type CollaborativeScore } from "./collaborative";
+import {
+  bountyVector,
+  computeEmbeddingRelevance,
+  userVector,
+  type TagEmbeddings,
+} from "./embedding";
+import {
+  describePartialMatch,
+  findPartialMatch,
+  type PartialTagMatch,
+  type TagGraph,
+} from "./tag-graph";
 
-const WEIGHTS = {
-  RELEVANCE: 0.55,      // 55% - primary filter
-  SOCIAL: 0.15,         // 15% - social proof
-  PRICE: 0.20,          // 20% - the closer, gets users to act
-  ENGAGEMENT: 0.10,     // 10% - popularity
-} as const;
+// ============ CONSTANTS ============
 
-const MIN_RELEVANCE_THRESHOLD = 3.0; // Bounties must have at least this relevance score
+export const MIN_RELEVANCE_THRESHOLD = 3.0; // Bounties must have at least this relevance score
 
 // ============ TYPES ============
 
 export interface UserTagScore {
   tagId: number;
   tagName: string;
-  score: number; // 1-5
+  score: number; // 0-5 (raw explicit scores are 1-5)
+  // When blended (see getEngineTagScores), how much of the score came from
+  // the explicit profile vs. behavior. Raw explicit tags leave these unset.
+  explicitContribution?: number;
+  implicitContribution?: number;
 }
 
 export interface UserProfile {
@@ -46,6 +78,10 @@ export interface RecommendationInput {
   userTags: UserTagScore[];
   userProfile: UserProfile;
   mutuals: MutualConnection[];
+  preferences?: UserPreferences; // Onboarding answers; omitted = neutral
+  tagGraph?: TagGraph;           // Tag hierarchy/similarity; omitted = exact matches only
+  tagEmbeddings?: TagEmbeddings; // Learned tag vectors; omitted = no embedding similarity
+  collaborative?: CollaborativeInput; // History + item neighbors; omitted = no collaborative score
 }
 
 export interface BountyTag {
@@ -59,8 +95,10 @@ export interface BountyData {
   description: string;
   price: number;
   tier: "basic" | "middle" | "high";
-  status: "open" | "claimed" | "completed" | "expired";
+  type: BountyType;
+  status: "open" | "claimed" | "completed" | "expired" | "closed";
   views: number;
+  uniqueViewers: number;
   submissions: number;
   likes: number;
   engagementScore: number;
@@ -74,10 +112,16 @@ export interface BountyData {
 
 export interface ScoredBounty {
   bounty: BountyData;
-  relevanceScore: number;
+  relevanceScore: number;         // Tag match, blended with embeddingScore per strategy
+  tagMatchScore: number;          // 0-10 weighted-average tag match
+  embeddingScore: number | null;  // 0-10 embedding similarity (null when not blended)
   socialBoost: number;
   priceAffinity: number;
+  freshness: number;
+  preference: PreferenceFit;
+  collaborative: CollaborativeScore;
   finalScore: number;
+  strategyId: string;
 }
 
 export interface RecommendationOutput {
@@ -97,50 +141,39 @@ export function getRecommendations(
   input: RecommendationInput,
   allBounties: BountyData[],
   bountyTagMap: Map<number, BountyTag[]>,
-  mutualInteractions: Map<string, number[]> // mutualId -> bountyIds they interacted with
+  mutualInteractions: Map<string, number[]>, // mutualId -> bountyIds they interacted with
+  strategyId?: string,
+  now: Date = new Date()
 ): RecommendationOutput {
-  // Step 1: Filter by access tier
-  const accessibleBounties = filterByAccessTier(allBounties, input.userProfile.accessTier);
+  const strategy = getScoringStrategy(strategyId);
+  const userVec = getUserVector(input, strategy);
+
+  // Step 1: Filter by access tier and drop expired bounties
+  const accessibleBounties = filterByAccessTier(allBounties, input.userProfile.accessTier).filter(
+    (b) => !isExpired(b, now)
+  );
 
   // Step 2: Score all accessible bounties
-  const allScoredBounties: ScoredBounty[] = accessibleBounties.map((bounty) => {
-    const tags = bountyTagMap.get(bounty.id) || [];
-
-    // 2a: Compute relevance score (0-10)
-    const relevanceScore = computeRelevanceScore(input.userTags, tags);
-
-    // 2b: Compute social boost (0-2)
-    const socialBoost = computeSocialBoost(bounty.id, input.mutuals, mutualInteractions);
-
-    // 2c: Compute price affinity (0-1) - now tier-aware
-    const priceAffinity = computePriceAffinityTierAware(
-      bounty.price,
-      bounty.tier,
-      input.userProfile.avgPriceViewed,
-      input.userProfile.accessTier
-    );
-
-    // 2d: Final score (weighted combination)
-    // New weights: 65% relevance, 20% social, 5% price, 10% engagement
-    const normalizedEngagement = Math.min((bounty.engagementScore || 0) / 10, 1); // 0-1
-
-    // All scores normalized to 0-1 range, then weighted
-    const finalScore =
-      (relevanceScore / 10) * WEIGHTS.RELEVANCE * 10 +  // 0-6.5 points
-      (socialBoost / 2) * WEIGHTS.SOCIAL * 10 +          // 0-2 points
-      priceAffinity * WEIGHTS.PRICE * 10 +               // 0-0.5 points
-      normalizedEngagement * WEIGHTS.ENGAGEMENT * 10;    // 0-1 points
-    // Max total: ~10 points
+  const allScoredBounties: ScoredBounty[] = accessibleBounties.map((bounty) =>
+    scoreBounty(input, bounty, bountyTagMap.get(bounty.id) || [], mutualInteractions, strategy, now, userVec)
+  );
 
-    return {
-      bounty,
-      relevanceScore,
-      socialBoost,
-      priceAffinity,
-      finalScore,
-    };
-  });
+  return pickRecommendations(allScoredBounties, allBounties.length);
+}
 
+/**
+ * Pick primary and secondary from already-scored accessible bounties
+ * (fresh from scoreBounty, or the top of the score cache)
+ *
+ * @param totalCandidates - bounties considered before the tier/expiry filter
+ * @param counts - accessible and relevant bounties, when allScoredBounties
+ *   is only the top of them (debug only)
+ */
+export function pickRecommendations(
+  allScoredBounties: ScoredBounty[],
+  totalCandidates: number,
+  counts?: { accessible: number; relevant: number }
+): RecommendationOutput {
   // Step 3: Filter by minimum relevance threshold
   const scoredBounties = allScoredBounties.filter(
     (sb) => sb.relevanceScore >= MIN_RELEVANCE_THRESHOLD
@@ -157,19 +190,19 @@ export function getRecommendations(
 
   // Handle edge cases - if no bounties pass threshold, fall back to best available
   if (!primary) {
-    allScoredBounties.sort((a, b) => b.finalScore - a.finalScore);
-    const fallback = allScoredBounties[0];
+    const ranked = [...allScoredBounties].sort((a, b) => b.finalScore - a.finalScore);
+    const fallback = ranked[0];
     if (!fallback) {
       throw new Error("No bounties available for recommendations");
     }
     return {
       primary: fallback,
-      secondary: allScoredBounties[1] || fallback,
+      secondary: ranked[1] || fallback,
       debug: {
-        totalCandidates: allBounties.length,
-        filteredByTier: accessibleBounties.length,
+        totalCandidates,
+        filteredByTier: counts?.accessible ?? allScoredBounties.length,
         filteredByRelevance: 0,
-        topRelevanceScores: allScoredBounties.slice(0, 5).map((s) => s.relevanceScore),
+        topRelevanceScores: ranked.slice(0, 5).map((s) => s.relevanceScore),
       },
     };
   }
@@ -178,9 +211,9 @@ export function getRecommendations(
     primary,
     secondary: secondary || scoredBounties[1] || primary,
     debug: {
-      totalCandidates: allBounties.length,
-      filteredByTier: accessibleBounties.length,
-      filteredByRelevance: scoredBounties.length,
+      totalCandidates,
+      filteredByTier: counts?.accessible ?? allScoredBounties.length,
+      filteredByRelevance: counts?.relevant ?? scoredBounties.length,
       topRelevanceScores: scoredBounties.slice(0, 5).map((s) => s.relevanceScore),
     },
   };
@@ -188,6 +221,91 @@ export function getRecommendations(
 
 // ============ HELPER FUNCTIONS ============
 
+/**
+ * Score a single bounty for a user with the given strategy
+ * Shared by getRecommendations and scoreAllBounties
+ */
+function scoreBounty(
+  input: RecommendationInput,
+  bounty: BountyData,
+  tags: BountyTag[],
+  mutualInteractions: Map<string, number[]>,
+  strategy: ScoringStrategy,
+  now: Date,
+  userVec: number[] | null
+): ScoredBounty {
+  // Relevance score (0-10) - tag match, blended with embedding similarity
+  const tagMatchScore = computeRelevanceScore(input.userTags, tags, input.tagGraph);
+  const embeddingScore =
+    userVec && input.tagEmbeddings
+      ? computeEmbeddingRelevance(userVec, bountyVector(tags, input.tagEmbeddings))
+      : null;
+  const relevanceScore =
+    embeddingScore === null
+      ? tagMatchScore
+      : tagMatchScore * (1 - strategy.embeddingBlend) + embeddingScore * strategy.embeddingBlend;
+
+  // Social boost (0-2)
+  const socialBoost = computeSocialBoost(bounty.id, input.mutuals, mutualInteractions);
+
+  // Price affinity (0-1) - tier-aware, averaged with the price range fit when known
+  const tierAwarePriceAffinity = computePriceAffinityTierAware(
+    bounty.price,
+    bounty.tier,
+    input.userProfile.avgPriceViewed,
+    input.userProfile.accessTier
+  );
+  const priceRange = input.preferences?.priceRange;
+  const priceAffinity = priceRange
+    ? (tierAwarePriceAffinity + computePriceRangeFit(bounty.price, priceRange)) / 2
+    : tierAwarePriceAffinity;
+
+  // Bounty engagement (0-1)
+  const normalizedEngagement = Math.min((bounty.engagementScore || 0) / 10, 1);
+
+  // Freshness (-1 to 1) - curves come from the strategy
+  const freshness = computeFreshness(bounty, strategy.freshness, now);
+
+  // Onboarding preference fit (0-1)
+  const preference = computePreferenceFit(bounty, input.preferences, now);
+
+  // Item-item collaborative filtering (0-1)
+  const collaborative = computeCollaborativeScore(bounty.id, input.collaborative);
+
+  const finalScore = strategy.computeFinalScore({
+    relevance: relevanceScore,
+    social: socialBoost,
+    price: priceAffinity,
+    engagement: normalizedEngagement,
+    freshness,
+    preference: preference.score,
+    collaborative: collaborative.score,
+  });
+
+  return {
+    bounty,
+    relevanceScore,
+    tagMatchScore,
+    embeddingScore,
+    socialBoost,
+    priceAffinity,
+    freshness,
+    preference,
+    collaborative,
+    finalScore,
+    strategyId: strategy.id,
+  };
+}
+
+/**
+ * User vector for embedding similarity, computed once per request
+ * (null when the strategy doesn't blend embeddings or none are loaded)
+ */
+function getUserVector(input: RecommendationInput, strategy: ScoringStrategy): number[] | null {
+  if (strategy.embeddingBlend <= 0 || !input.tagEmbeddings) return null;
+  return userVector(input.userTags, input.tagEmbeddings);
+}
+
 /**
  * Filter bounties by user's access tier
  * Users can see bounties at or below their tier level
@@ -207,11 +325,13 @@ function filterByAccessTier(
 
 /**
  * Compute relevance score based on tag matching
+ * Tags missing from the profile get discounted credit through the tag graph
  * Returns 0-10 score
  */
 function computeRelevanceScore(
   userTags: UserTagScore[],
-  bountyTags: BountyTag[]
+  bountyTags: BountyTag[],
+  tagGraph?: TagGraph
 ): number {
   if (bountyTags.length === 0) return 0;
 
@@ -222,7 +342,7 @@ function computeRelevanceScore(
   let totalWeight = 0;
 
   for (const bt of bountyTags) {
-    const userScore = userTagMap.get(bt.tagId) || 0;
+    const userScore = matchTagScore(bt.tagId, userTagMap, tagGraph).score;
     totalScore += userScore * bt.weight;
     totalWeight += bt.weight;
   }
@@ -361,46 +481,30 @@ function selectStretchBounty(
  * Returns all bounties with their individual scores
  * 
  * @param applyRelevanceFilter - if true, filters out bounties below MIN_RELEVANCE_THRESHOLD
+ * @param strategyId - scoring strategy to use (defaults to the current default strategy)
+ * @param now - reference time for freshness and expiry (the cutoff when replaying history)
  */
 export function scoreAllBounties(
   input: RecommendationInput,
   allBounties: BountyData[],
   bountyTagMap: Map<number, BountyTag[]>,
   mutualInteractions: Map<string, number[]>,
-  applyRelevanceFilter: boolean = true
+  applyRelevanceFilter: boolean = true,
+  strategyId?: string,
+  now: Date = new Date()
 ): ScoredBounty[] {
-  // Filter by access tier
-  const accessibleBounties = filterByAccessTier(allBounties, input.userProfile.accessTier);
+  const strategy = getScoringStrategy(strategyId);
+  const userVec = getUserVector(input, strategy);
 
-  // Score all accessible bounties
-  const scoredBounties: ScoredBounty[] = accessibleBounties.map((bounty) => {
-    const tags = bountyTagMap.get(bounty.id) || [];
-
-    const relevanceScore = computeRelevanceScore(input.userTags, tags);
-    const socialBoost = computeSocialBoost(bounty.id, input.mutuals, mutualInteractions);
-    const priceAffinity = computePriceAffinityTierAware(
-      bounty.price,
-      bounty.tier,
-      input.userProfile.avgPriceViewed,
-      input.userProfile.accessTier
-    );
-    const normalizedEngagement = Math.min((bounty.engagementScore || 0) / 10, 1);
-
-    // New weights: 65% relevance, 20% social, 5% price, 10% engagement
-    const finalScore =
-      (relevanceScore / 10) * WEIGHTS.RELEVANCE * 10 +
-      (socialBoost / 2) * WEIGHTS.SOCIAL * 10 +
-      priceAffinity * WEIGHTS.PRICE * 10 +
-      normalizedEngagement * WEIGHTS.ENGAGEMENT * 10;
+  // Filter by access tier and drop expired bounties
+  const accessibleBounties = filterByAccessTier(allBounties, input.userProfile.accessTier).filter(
+    (b) => !isExpired(b, now)
+  );
 
-    return {
-      bounty,
-      relevanceScore,
-      socialBoost,
-      priceAffinity,
-      finalScore,
-    };
-  });
+  // Score all accessible bounties
+  const scoredBounties: ScoredBounty[] = accessibleBounties.map((bounty) =>
+    scoreBounty(input, bounty, bountyTagMap.get(bounty.id) || [], mutualInteractions, strategy, now, userVec)
+  );
 
   // Apply relevance filter if requested
   if (applyRelevanceFilter) {
@@ -414,8 +518,12 @@ export interface TagMatchDetail {
   tagId: number;
   tagName: string;
   userScore: number; // User's score for this tag (0 if not in profile)
+  explicitScore: number; // Part of userScore from the explicit profile
+  implicitScore: number; // Part of userScore from behavior
+  matchScore: number; // Score used for relevance: userScore, or partial credit via the tag graph
+  partial: string | null; // e.g. "partial via react → nextjs (0.7)"
   bountyWeight: number; // How much this tag weighs in the bounty
-  contribution: number; // userScore * bountyWeight
+  contribution: number; // matchScore * bountyWeight
 }
 
 /**
@@ -423,19 +531,44 @@ export interface TagMatchDetail {
  */
 export function getTagMatchDetails(
   userTags: UserTagScore[],
-  bountyTags: { tagId: number; tagName: string; weight: number }[]
+  bountyTags: { tagId: number; tagName: string; weight: number }[],
+  tagGraph?: TagGraph
 ): TagMatchDetail[] {
-  const userTagMap = new Map(userTags.map((t) => [t.tagId, { score: t.score, name: t.tagName }]));
+  const userTagMap = new Map(userTags.map((t) => [t.tagId, t]));
+  const userScores = new Map(userTags.map((t) => [t.tagId, t.score]));
 
   return bountyTags.map((bt) => {
     const userTag = userTagMap.get(bt.tagId);
     const userScore = userTag?.score || 0;
+    const match = matchTagScore(bt.tagId, userScores, tagGraph);
     return {
       tagId: bt.tagId,
       tagName: bt.tagName,
       userScore,
+      explicitScore: userTag?.explicitContribution ?? userScore,
+      implicitScore: userTag?.implicitContribution ?? 0,
+      matchScore: match.score,
+      partial: match.partial && tagGraph ? describePartialMatch(match.partial, tagGraph) : null,
       bountyWeight: bt.weight,
-      contribution: userScore * bt.weight,
+      contribution: match.score * bt.weight,
     };
   });
 }
+
+/**
+ * User's score for a bounty tag: the profile score if they have the tag,
+ * otherwise the best discounted score through the tag graph
+ */
+function matchTagScore(
+  tagId: number,
+  userScores: Map<number, number>,
+  tagGraph?: TagGraph
+): { score: number; partial: PartialTagMatch | null } {
+  const direct = userScores.get(tagId) || 0;
+  if (direct > 0 || !tagGraph) return { score: direct, partial: null };
+
+  const partial = findPartialMatch(tagId, userScores, tagGraph);
+  if (!partial) return { score: 0, partial: null };
+
+  return { score: (userScores.get(partial.userTagId) ?? 0) * partial.discount, partial };
+}
@@ -0,0 +1,604 @@
+/**
+ * Score Cache
+ *
+ * Keeps a score for every open bounty each user can access, per strategy,
+ * in user_bounty_score, so feed requests filter, sort and paginate in SQL
+ * over the whole open set instead of loading and scoring every bounty.
+ *
+ * Keeping it fresh:
+ *   - full refresh when the cache is missing, marked stale (tags, profile or
+ *     onboarding answers changed; behavior changes mark it stale after
+ *     BEHAVIOR_STALE_DEBOUNCE_MINUTES) or older than SCORE_CACHE_TTL_HOURS
+ *     (freshness decay, new neighbors/embeddings)
+ *   - otherwise only bounties listed since the last sync (created, reopened
+ *     or edited, see bounty.listedAt) are scored and merged in
+ *   - claimed, closed and expired bounties are dropped at read time by the
+ *     status/expiry filter, and pruned on the next full refresh
+ */
+
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lt, lte, sql, type SQL } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import {
+  buildBountyFilter,
+  filteredBountyIds,
+  type BountyFilters,
+} from "@algorithim-test/db/bounty-filter";
+import { bounty, bountyInteraction, bountyTag } from "@algorithim-test/db/schema/bounty";
+import { tag, tagParent, tagRelation } from "@algorithim-test/db/schema/tag";
+import { mutual, userProfile } from "@algorithim-test/db/schema/user-profile";
+import {
+  userBountyScore,
+  userScoreCache,
+  type CachedScoreDetails,
+} from "@algorithim-test/db/schema/recommendation";
+import {
+  MIN_RELEVANCE_THRESHOLD,
+  scoreAllBounties,
+  type BountyTag,
+  type MutualConnection,
+  type RecommendationInput,
+  type ScoredBounty,
+} from "./recommendation";
+import { getEngineTagScores, getUserPreferences } from "./behavior";
+import { buildTagGraph, type TagGraph } from "./tag-graph";
+import { loadTagEmbeddings } from "./embedding-store";
+import { loadCollaborativeInput } from "./collaborative-store";
+import { loadScoringStrategy } from "./experiment";
+
+// ============ TYPES ============
+
+type BountyRow = typeof bounty.$inferSelect;
+
+export type FeedSort = "relevance" | "price_high" | "price_low" | "engagement" | "newest";
+
+// Bounty filters (see bounty-filter.ts) on top of open and unexpired
+export interface CachedScoreQuery extends Omit<BountyFilters, "statuses" | "activeAt"> {
+  sortBy?: FeedSort;           // Default: relevance (final score)
+  relevantOnly?: boolean;      // Default: true (drop bounties below MIN_RELEVANCE_THRESHOLD)
+  limit?: number;              // Omitted = every match
+  offset?: number;
+}
+
+export interface ScoreCacheStatus {
+  computedAt: Date;            // Last full refresh
+  syncedAt: Date;              // Last incremental sync
+  candidateCount: number;      // Open bounties at the last full refresh
+  refreshed: "full" | "incremental" | "none";
+}
+
+// ============ CONSTANTS ============
+
+export const SCORE_CACHE_TTL_HOURS = 6;
+
+// Behavior changes (views, dwell, interactions) mark caches stale this long
+// after the first one, so a burst of them costs a single refresh
+export const BEHAVIOR_STALE_DEBOUNCE_MINUTES = 10;
+
+// Rows per insert statement
+const INSERT_BATCH_SIZE = 500;
+
+const FEED_ORDER: Record<FeedSort, SQL> = {
+  relevance: desc(userBountyScore.finalScore),
+  price_high: desc(bounty.price),
+  price_low: asc(bounty.price),
+  engagement: desc(bounty.engagementScore),
+  newest: desc(bounty.createdAt),
+};
+
+// ============ CACHE MAINTENANCE ============
+
+/**
+ * Make sure the user's cache for a strategy is usable, refreshing it fully
+ * or syncing newly listed bounties as needed
+ */
+export async function ensureScoreCache(
+  userId: string,
+  strategyId: string,
+  now: Date = new Date()
+): Promise<ScoreCacheStatus> {
+  const state = await db.query.userScoreCache.findFirst({
+    where: and(eq(userScoreCache.userId, userId), eq(userScoreCache.strategyId, strategyId)),
+  });
+
+  if (!state || isStale(state, now) || state.computedAt.getTime() <= ttlCutoff(now).getTime()) {
+    return refreshScoreCache(userId, strategyId, now);
+  }
+
+  const listedFilter = and(
+    buildBountyFilter({ statuses: ["open"], activeAt: now }),
+    gt(bounty.listedAt, state.syncedAt)
+  );
+  const listed = await db.select().from(bounty).where(listedFilter);
+
+  if (listed.length === 0) {
+    return { ...pickStatus(state), refreshed: "none" };
+  }
+
+  const input = await loadRecommendationInput(userId);
+  const scored = await scoreCandidates(
+    input,
+    listed,
+    inArray(bountyTag.bountyId, listed.map((b) => b.id)),
+    strategyId,
+    now
+  );
+
+  // Edited bounties may no longer be accessible (e.g. price moved them up a tier)
+  const scoredIds = new Set(scored.map((sb) => sb.bounty.id));
+  const dropped = listed.filter((b) => !scoredIds.has(b.id)).map((b) => b.id);
+  if (dropped.length > 0) {
+    await db
+      .delete(userBountyScore)
+      .where(
+        and(
+          eq(userBountyScore.userId, userId),
+          eq(userBountyScore.strategyId, strategyId),
+          inArray(userBountyScore.bountyId, dropped)
+        )
+      );
+  }
+
+  await writeScores(userId, strategyId, scored, now);
+  await db.update(userScoreCache).set({ syncedAt: now }).where(eq(userScoreCache.id, state.id));
+
+  return { ...pickStatus(state), syncedAt: now, refreshed: "incremental" };
+}
+
+/**
+ * Rescore every open bounty for the user and replace their cache with the
+ * result. Rows are upserted, then rows from earlier runs are removed, so
+ * readers never see an empty cache mid-refresh.
+ */
+export async function refreshScoreCache(
+  userId: string,
+  strategyId: string,
+  now: Date = new Date()
+): Promise<ScoreCacheStatus> {
+  const input = await loadRecommendationInput(userId);
+  const openFilters: BountyFilters = { statuses: ["open"], activeAt: now };
+  const candidates = await db.select().from(bounty).where(buildBountyFilter(openFilters));
+
+  const scored = await scoreCandidates(
+    input,
+    candidates,
+    inArray(bountyTag.bountyId, filteredBountyIds(openFilters)),
+    strategyId,
+    now
+  );
+
+  await writeScores(userId, strategyId, scored, now);
+  await db
+    .delete(userBountyScore)
+    .where(
+      and(
+        eq(userBountyScore.userId, userId),
+        eq(userBountyScore.strategyId, strategyId),
+        lt(userBountyScore.computedAt, now)
+      )
+    );
+
+  const counts = { candidateCount: candidates.length, cachedCount: scored.length };
+  await db
+    .insert(userScoreCache)
+    .values({ userId, strategyId, computedAt: now, syncedAt: now, ...counts })
+    .onConflictDoUpdate({
+      target: [userScoreCache.userId, userScoreCache.strategyId],
+      set: { computedAt: now, syncedAt: now, ...counts },
+    });
+
+  // Only clear staleness that predates this refresh; a change made while
+  // it ran needs another one
+  await db
+    .update(userScoreCache)
+    .set({ staleAt: null, staleReason: null })
+    .where(
+      and(
+        eq(userScoreCache.userId, userId),
+        eq(userScoreCache.strategyId, strategyId),
+        lte(userScoreCache.staleAt, now)
+      )
+    );
+
+  return { computedAt: now, syncedAt: now, candidateCount: candidates.length, refreshed: "full" };
+}
+
+/**
+ * Flag all of a user's caches for a full refresh on their next read
+ * (call after changing anything that feeds into their scores)
+ *
+ * With `debounceMinutes`, caches go stale that many minutes from now, and
+ * caches already flagged are left as they are
+ */
+export async function markScoreCacheStale(
+  userId: string,
+  reason: string,
+  options: { debounceMinutes?: number; now?: Date } = {}
+): Promise<void> {
+  const { debounceMinutes, now = new Date() } = options;
+
+  if (debounceMinutes === undefined) {
+    await db
+      .update(userScoreCache)
+      .set({ staleAt: now, staleReason: reason })
+      .where(eq(userScoreCache.userId, userId));
+    return;
+  }
+
+  await db
+    .update(userScoreCache)
+    .set({ staleAt: new Date(now.getTime() + debounceMinutes * 60 * 1000), staleReason: reason })
+    .where(and(eq(userScoreCache.userId, userId), isNull(userScoreCache.staleAt)));
+}
+
+/**
+ * Refresh caches flagged stale, oldest first, so the next request doesn't
+ * pay for it. Caches that merely aged past the TTL are left to the next read.
+ */
+export async function refreshStaleScoreCaches(
+  limit: number,
+  now: Date = new Date()
+): Promise<{ refreshed: number; failed: number }> {
+  const stale = await db
+    .select({ userId: userScoreCache.userId, strategyId: userScoreCache.strategyId })
+    .from(userScoreCache)
+    .where(lte(userScoreCache.staleAt, now))
+    .orderBy(asc(userScoreCache.staleAt))
+    .limit(limit);
+
+  let refreshed = 0;
+  let failed = 0;
+  for (const cache of stale) {
+    try {
+      await refreshScoreCache(cache.userId, cache.strategyId);
+      refreshed++;
+    } catch (error) {
+      console.error(`Score cache refresh failed for ${cache.userId}/${cache.strategyId}`, error);
+      failed++;
+    }
+  }
+
+  return { refreshed, failed };
+}
+
+// ============ READS ============
+
+/**
+ * Cached scores for open, unexpired bounties, filtered, sorted and
+ * paginated in SQL
+ */
+export async function readCachedScores(
+  userId: string,
+  strategyId: string,
+  query: CachedScoreQuery = {},
+  now: Date = new Date()
+): Promise<ScoredBounty[]> {
+  const base = db
+    .select({ bounty, score: userBountyScore })
+    .from(userBountyScore)
+    .innerJoin(bounty, eq(userBountyScore.bountyId, bounty.id))
+    .where(cachedScoreFilter(userId, strategyId, query, now))
+    .orderBy(FEED_ORDER[query.sortBy ?? "relevance"], asc(bounty.id))
+    .$dynamic();
+
+  const rows =
+    query.limit === undefined
+      ? await base
+      : await base.limit(query.limit).offset(query.offset ?? 0);
+
+  return rows.map((row) => fromCachedScore(row.bounty, row.score));
+}
+
+/**
+ * Number of cached scores readCachedScores would return without a limit
+ */
+export async function countCachedScores(
+  userId: string,
+  strategyId: string,
+  query: CachedScoreQuery = {},
+  now: Date = new Date()
+): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(userBountyScore)
+    .innerJoin(bounty, eq(userBountyScore.bountyId, bounty.id))
+    .where(cachedScoreFilter(userId, strategyId, query, now));
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Score bounties outside the user's cache (e.g. search hits listed after
+ * the last sync). Bounties the user can't access are dropped.
+ */
+export async function scoreUncachedBounties(
+  userId: string,
+  strategyId: string,
+  rows: BountyRow[],
+  now: Date = new Date()
+): Promise<ScoredBounty[]> {
+  if (rows.length === 0) return [];
+
+  const input = await loadRecommendationInput(userId);
+  return scoreCandidates(
+    input,
+    rows,
+    inArray(bountyTag.bountyId, rows.map((b) => b.id)),
+    strategyId,
+    now
+  );
+}
+
+// ============ INPUT LOADING ============
+
+/**
+ * Everything the engine needs to score bounties for one user
+ */
+export async function loadRecommendationInput(userId: string): Promise<RecommendationInput> {
+  const profile = await db.query.userProfile.findFirst({
+    where: eq(userProfile.userId, userId),
+  });
+
+  if (!profile) {
+    throw new Error("User profile not found. Please complete your profile setup.");
+  }
+
+  return {
+    userId,
+    userTags: await getEngineTagScores(userId),
+    userProfile: {
+      avgPriceViewed: profile.avgPriceViewed,
+      engagementScore: profile.engagementScore,
+      accessTier: profile.accessTier,
+    },
+    mutuals: await getMutualsThreeLayers(userId),
+    preferences: await getUserPreferences(userId),
+    tagGraph: await loadTagGraph(),
+    tagEmbeddings: await loadTagEmbeddings(),
+    collaborative: await loadCollaborativeInput(userId),
+  };
+}
+
+/**
+ * Get mutuals up to 3 layers deep
+ * Layer 1: Direct mutuals
+ * Layer 2: Mutuals of mutuals
+ * Layer 3: 3rd degree connections
+ */
+export async function getMutualsThreeLayers(userId: string): Promise<MutualConnection[]> {
+  // Layer 1: Direct mutuals
+  const layer1 = await db.select().from(mutual).where(eq(mutual.userId, userId));
+
+  if (layer1.length === 0) {
+    return [];
+  }
+
+  const layer1Ids = layer1.map((m) => m.mutualId);
+  const result: MutualConnection[] = layer1.map((m) => ({
+    mutualId: m.mutualId,
+    layer: 1 as const,
+    strength: m.strength,
+  }));
+
+  // Layer 2: Mutuals of mutuals
+  const layer2Raw = await db
+    .select()
+    .from(mutual)
+    .where(
+      and(
+        inArray(mutual.userId, layer1Ids),
+        sql`${mutual.mutualId} != ${userId}`
+      )
+    );
+
+  const layer2Ids = new Set<string>();
+  for (const m of layer2Raw) {
+    // Skip if already in layer 1
+    if (!layer1Ids.includes(m.mutualId) && m.mutualId !== userId) {
+      layer2Ids.add(m.mutualId);
+      result.push({
+        mutualId: m.mutualId,
+        layer: 2 as const,
+        strength: m.strength * 0.5, // Decay strength for layer 2
+      });
+    }
+  }
+
+  // Layer 3: Mutuals of layer 2
+  if (layer2Ids.size > 0) {
+    const layer3Raw = await db
+      .select()
+      .from(mutual)
+      .where(
+        and(
+          inArray(mutual.userId, Array.from(layer2Ids)),
+          sql`${mutual.mutualId} != ${userId}`
+        )
+      );
+
+    for (const m of layer3Raw) {
+      // Skip if already in layer 1 or 2
+      if (!layer1Ids.includes(m.mutualId) && !layer2Ids.has(m.mutualId) && m.mutualId !== userId) {
+        result.push({
+          mutualId: m.mutualId,
+          layer: 3 as const,
+          strength: m.strength * 0.25, // Decay strength for layer 3
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Load the tag hierarchy/similarity graph used for partial relevance credit
+ */
+export async function loadTagGraph(): Promise<TagGraph> {
+  const tags = await db.select({ id: tag.id, name: tag.name }).from(tag);
+  const parents = await db.select().from(tagParent);
+  const relations = await db.select().from(tagRelation);
+
+  return buildTagGraph(tags, parents, relations);
+}
+
+// ============ CONVERSION ============
+
+/**
+ * Score components to store alongside a cached score
+ */
+export function toCachedScoreDetails(sb: ScoredBounty): CachedScoreDetails {
+  return {
+    tagMatch: sb.tagMatchScore,
+    embedding: sb.embeddingScore,
+    social: sb.socialBoost,
+    price: sb.priceAffinity,
+    freshness: sb.freshness,
+    preference: sb.preference,
+    collaborative: sb.collaborative,
+  };
+}
+
+/**
+ * Rebuild a ScoredBounty from a stored score and the current bounty row
+ */
+export function fromCachedScore(
+  row: BountyRow,
+  score: { relevanceScore: number; finalScore: number; strategyId: string; details: CachedScoreDetails }
+): ScoredBounty {
+  return {
+    bounty: row,
+    relevanceScore: score.relevanceScore,
+    tagMatchScore: score.details.tagMatch,
+    embeddingScore: score.details.embedding,
+    socialBoost: score.details.social,
+    priceAffinity: score.details.price,
+    freshness: score.details.freshness,
+    preference: score.details.preference,
+    collaborative: score.details.collaborative,
+    finalScore: score.finalScore,
+    strategyId: score.strategyId,
+  };
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Score candidate bounties (all accessible ones, relevant or not)
+ *
+ * @param candidateTags - bounty_tag condition selecting the candidates' tags
+ */
+async function scoreCandidates(
+  input: RecommendationInput,
+  candidates: BountyRow[],
+  candidateTags: SQL,
+  strategyId: string,
+  now: Date
+): Promise<ScoredBounty[]> {
+  if (candidates.length === 0) return [];
+
+  const tagRows = await db
+    .select({ bountyId: bountyTag.bountyId, tagId: bountyTag.tagId, weight: bountyTag.weight })
+    .from(bountyTag)
+    .where(candidateTags);
+
+  const bountyTagMap = new Map<number, BountyTag[]>();
+  for (const bt of tagRows) {
+    if (!bountyTagMap.has(bt.bountyId)) {
+      bountyTagMap.set(bt.bountyId, []);
+    }
+    bountyTagMap.get(bt.bountyId)!.push({ tagId: bt.tagId, weight: bt.weight });
+  }
+
+  const mutualIds = input.mutuals.map((m) => m.mutualId);
+  const mutualInteractions = new Map<string, number[]>();
+
+  if (mutualIds.length > 0) {
+    const interactions = await db
+      .select({ userId: bountyInteraction.userId, bountyId: bountyInteraction.bountyId })
+      .from(bountyInteraction)
+      .where(inArray(bountyInteraction.userId, mutualIds));
+
+    for (const mi of interactions) {
+      if (!mutualInteractions.has(mi.userId)) {
+        mutualInteractions.set(mi.userId, []);
+      }
+      mutualInteractions.get(mi.userId)!.push(mi.bountyId);
+    }
+  }
+
+  // Makes experiment variant strategies available to the scoring loop
+  await loadScoringStrategy(strategyId);
+
+  return scoreAllBounties(input, candidates, bountyTagMap, mutualInteractions, false, strategyId, now);
+}
+
+/**
+ * Upsert scores into the cache, stamped with `now`
+ */
+async function writeScores(
+  userId: string,
+  strategyId: string,
+  scored: ScoredBounty[],
+  now: Date
+): Promise<void> {
+  const rows = scored.map((sb) => ({
+    userId,
+    bountyId: sb.bounty.id,
+    strategyId,
+    relevanceScore: sb.relevanceScore,
+    finalScore: sb.finalScore,
+    details: toCachedScoreDetails(sb),
+    computedAt: now,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(userBountyScore)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [userBountyScore.userId, userBountyScore.strategyId, userBountyScore.bountyId],
+        set: {
+          relevanceScore: sql`excluded.relevance_score`,
+          finalScore: sql`excluded.final_score`,
+          details: sql`excluded.details`,
+          computedAt: sql`excluded.computed_at`,
+        },
+      });
+  }
+}
+
+/**
+ * WHERE clause for readCachedScores and countCachedScores
+ */
+function cachedScoreFilter(
+  userId: string,
+  strategyId: string,
+  query: CachedScoreQuery,
+  now: Date
+): SQL | undefined {
+  const { sortBy, relevantOnly = true, limit, offset, ...filters } = query;
+
+  return and(
+    eq(userBountyScore.userId, userId),
+    eq(userBountyScore.strategyId, strategyId),
+    relevantOnly ? gte(userBountyScore.relevanceScore, MIN_RELEVANCE_THRESHOLD) : undefined,
+    buildBountyFilter({ ...filters, statuses: ["open"], activeAt: now })
+  );
+}
+
+// Debounced staleness (see markScoreCacheStale) only counts once it's due
+function isStale(state: typeof userScoreCache.$inferSelect, now: Date): boolean {
+  return state.staleAt !== null && state.staleAt.getTime() <= now.getTime();
+}
+
+function pickStatus(state: typeof userScoreCache.$inferSelect): Omit<ScoreCacheStatus, "refreshed"> {
+  return {
+    computedAt: state.computedAt,
+    syncedAt: state.syncedAt,
+    candidateCount: state.candidateCount,
+  };
+}
+
+function ttlCutoff(now: Date): Date {
+  return new Date(now.getTime() - SCORE_CACHE_TTL_HOURS * 60 * 60 * 1000);
+}
@@ -0,0 +1,191 @@
+/**
+ * Scoring Strategy Registry
+ *
+ * A strategy turns the per-bounty score components (relevance, social,
+ * price, engagement, freshness, preference, collaborative) into a single
+ * final score.
+ * Strategies are named and versioned so the formula can be picked per
+ * request and new ones can ship without touching the scoring loop in recommendation.ts.
+ */
+
+import { DEFAULT_FRESHNESS_CONFIG, type FreshnessConfig } from "./freshness";
+
+// ============ TYPES ============
+
+export interface ScoreComponents {
+  relevance: number;  // 0-10
+  social: number;     // 0-2
+  price: number;      // 0-1
+  engagement: number; // 0-1 (normalized bounty engagement)
+  freshness: number;  // -1 to 1 (new-bounty boost, expiry penalty/urgency)
+  preference: number; // 0-1 (onboarding type/deadline/risk fit)
+  collaborative: number; // 0-1 (item-item co-interaction with the user's history)
+}
+
+export interface ScoringWeights {
+  relevance: number;
+  social: number;
+  price: number;
+  engagement: number;
+  freshness: number;
+  preference: number;
+  collaborative: number;
+}
+
+export interface ScoringStrategy {
+  id: string;
+  version: number;
+  label: string;
+  description: string;
+  weights: ScoringWeights;
+  freshness: FreshnessConfig; // How the freshness component is computed
+  embeddingBlend: number;     // 0-1 share of relevance from embedding similarity (0 = tag match only)
+  computeFinalScore: (components: ScoreComponents) => number;
+}
+
+// ============ CONSTANTS ============
+
+export const DEFAULT_SCORING_STRATEGY_ID = "v5";
+
+// Max value of each raw component, used to normalize to 0-1 before weighting
+const COMPONENT_MAX: ScoreComponents = {
+  relevance: 10,
+  social: 2,
+  price: 1,
+  engagement: 1,
+  freshness: 1,
+  preference: 1,
+  collaborative: 1,
+};
+
+// ============ BUILT-IN STRATEGIES ============
+
+/**
+ * Build a strategy that normalizes each component to its max and takes a
+ * weighted sum, scaled so a perfect bounty scores 10. Freshness can be
+ * negative, so a near-expiry penalty pulls the score down.
+ */
+export function createWeightedStrategy(
+  definition: Omit<ScoringStrategy, "computeFinalScore" | "freshness" | "embeddingBlend"> & {
+    freshness?: FreshnessConfig;
+    embeddingBlend?: number;
+  }
+): ScoringStrategy {
+  const { weights } = definition;
+
+  return {
+    ...definition,
+    freshness: definition.freshness ?? DEFAULT_FRESHNESS_CONFIG,
+    embeddingBlend: definition.embeddingBlend ?? 0,
+    computeFinalScore: (components) =>
+      (components.relevance / COMPONENT_MAX.relevance) * weights.relevance * 10 +
+      (components.social / COMPONENT_MAX.social) * weights.social * 10 +
+      (components.price / COMPONENT_MAX.price) * weights.price * 10 +
+      (components.engagement / COMPONENT_MAX.engagement) * weights.engagement * 10 +
+      (components.freshness / COMPONENT_MAX.freshness) * weights.freshness * 10 +
+      (components.preference / COMPONENT_MAX.preference) * weights.preference * 10 +
+      (components.collaborative / COMPONENT_MAX.collaborative) * weights.collaborative * 10,
+  };
+}
+
+const BUILT_IN_STRATEGIES: ScoringStrategy[] = [
+  createWeightedStrategy({
+    id: "v5",
+    version: 5,
+    label: "Personal (v5)",
+    description: "v4 plus onboarding preferences: bounty type, deadline and risk fit",
+    weights: { relevance: 0.45, social: 0.15, price: 0.15, engagement: 0.05, freshness: 0.1, preference: 0.1, collaborative: 0 },
+  }),
+  createWeightedStrategy({
+    id: "v5-embed",
+    version: 5,
+    label: "Personal + embeddings (v5)",
+    description: "v5 with 30% of relevance from learned tag embedding similarity",
+    weights: { relevance: 0.45, social: 0.15, price: 0.15, engagement: 0.05, freshness: 0.1, preference: 0.1, collaborative: 0 },
+    embeddingBlend: 0.3,
+  }),
+  createWeightedStrategy({
+    id: "v5-cf",
+    version: 5,
+    label: "Personal + collaborative (v5)",
+    description: "v5 plus item-item collaborative filtering from co-interaction",
+    weights: { relevance: 0.4, social: 0.15, price: 0.15, engagement: 0.05, freshness: 0.1, preference: 0.05, collaborative: 0.1 },
+  }),
+  createWeightedStrategy({
+    id: "v4",
+    version: 4,
+    label: "Fresh (v4)",
+    description: "v3 plus freshness: new bounties get a boost, near-expiry ones sink",
+    weights: { relevance: 0.5, social: 0.15, price: 0.15, engagement: 0.1, freshness: 0.1, preference: 0, collaborative: 0 },
+  }),
+  createWeightedStrategy({
+    id: "v4-urgency",
+    version: 4,
+    label: "Fresh + urgency (v4)",
+    description: "v4, but bounties about to expire are surfaced instead of buried",
+    weights: { relevance: 0.5, social: 0.15, price: 0.15, engagement: 0.1, freshness: 0.1, preference: 0, collaborative: 0 },
+    freshness: {
+      newBounty: DEFAULT_FRESHNESS_CONFIG.newBounty,
+      expiry: { mode: "urgency", windowHours: 48 },
+    },
+  }),
+  createWeightedStrategy({
+    id: "v3",
+    version: 3,
+    label: "Balanced (v3)",
+    description: "Skills first, with price fit as the closer",
+    weights: { relevance: 0.55, social: 0.15, price: 0.2, engagement: 0.1, freshness: 0, preference: 0, collaborative: 0 },
+  }),
+  createWeightedStrategy({
+    id: "v2",
+    version: 2,
+    label: "Social-heavy (v2)",
+    description: "Previous formula: leans on mutuals, barely looks at price",
+    weights: { relevance: 0.65, social: 0.2, price: 0.05, engagement: 0.1, freshness: 0, preference: 0, collaborative: 0 },
+  }),
+  createWeightedStrategy({
+    id: "relevance-only",
+    version: 1,
+    label: "Relevance only",
+    description: "Pure tag match, useful as a baseline",
+    weights: { relevance: 1, social: 0, price: 0, engagement: 0, freshness: 0, preference: 0, collaborative: 0 },
+  }),
+];
+
+// ============ REGISTRY ============
+
+const registry = new Map<string, ScoringStrategy>(
+  BUILT_IN_STRATEGIES.map((s) => [s.id, s])
+);
+
+/**
+ * Register a scoring strategy (replaces any existing strategy with the same id)
+ */
+export function registerScoringStrategy(strategy: ScoringStrategy): void {
+  registry.set(strategy.id, strategy);
+}
+
+/**
+ * Check whether a strategy id is registered
+ */
+export function hasScoringStrategy(id: string): boolean {
+  return registry.has(id);
+}
+
+/**
+ * Resolve a strategy by id, falling back to the default when omitted
+ */
+export function getScoringStrategy(id?: string): ScoringStrategy {
+  const strategy = registry.get(id ?? DEFAULT_SCORING_STRATEGY_ID);
+  if (!strategy) {
+    throw new Error(`Unknown scoring strategy: ${id}`);
+  }
+  return strategy;
+}
+
+/**
+ * List all registered strategies
+ */
+export function listScoringStrategies(): ScoringStrategy[] {
+  return [...registry.values()];
+}
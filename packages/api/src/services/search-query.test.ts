@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { blendSearchScore, parseSearchQuery } from "./search-query";
+
+describe("parseSearchQuery", () => {
+  test("keeps free text as typed", () => {
+    expect(parseSearchQuery('  rust "web server"  -php ')).toEqual({
+      text: 'rust "web server" -php',
+      tags: [],
+      tiers: [],
+    });
+  });
+
+  test("pulls out tag and tier operators, lowercased and deduplicated", () => {
+    const parsed = parseSearchQuery("Tag:Rust tier:HIGH parser tag:rust tag:wasm tier:high");
+
+    expect(parsed.text).toBe("parser");
+    expect(parsed.tags).toEqual(["rust", "wasm"]);
+    expect(parsed.tiers).toEqual(["high"]);
+  });
+
+  test("leaves invalid operators in the free text", () => {
+    const parsed = parseSearchQuery("tier:legendary price:cheap price:500-100 foo:bar");
+
+    expect(parsed.text).toBe("tier:legendary price:cheap price:500-100 foo:bar");
+    expect(parsed.tiers).toEqual([]);
+    expect(parsed.priceMin).toBeUndefined();
+    expect(parsed.priceMax).toBeUndefined();
+  });
+
+  test("parses price ranges and bounds as inclusive whole dollars", () => {
+    expect(parseSearchQuery("price:100-500")).toMatchObject({ priceMin: 100, priceMax: 500 });
+    expect(parseSearchQuery("price:$100-$500")).toMatchObject({ priceMin: 100, priceMax: 500 });
+    expect(parseSearchQuery("price:>200")).toMatchObject({ priceMin: 201 });
+    expect(parseSearchQuery("price:>=200")).toMatchObject({ priceMin: 200 });
+    expect(parseSearchQuery("price:<1000")).toMatchObject({ priceMax: 999 });
+    expect(parseSearchQuery("price:<=1000")).toMatchObject({ priceMax: 1000 });
+  });
+
+  test("narrows the range across several price operators", () => {
+    expect(parseSearchQuery("price:100-500 price:>=200 price:<1000")).toMatchObject({
+      text: "",
+      priceMin: 200,
+      priceMax: 500,
+    });
+  });
+});
+
+describe("blendSearchScore", () => {
+  const max = { textRank: 0.8, finalScore: 4 };
+
+  test("normalizes both parts by the best candidate", () => {
+    expect(blendSearchScore({ textRank: 0.8, finalScore: 4 }, max)).toBeCloseTo(1);
+    expect(blendSearchScore({ textRank: 0.4, finalScore: 1 }, max)).toBeCloseTo(0.5 * 0.5 + 0.5 * 0.25);
+  });
+
+  test("weights text rank by textWeight", () => {
+    const result = { textRank: 0.8, finalScore: 0 };
+
+    expect(blendSearchScore(result, max, 1)).toBeCloseTo(1);
+    expect(blendSearchScore(result, max, 0)).toBeCloseTo(0);
+    expect(blendSearchScore(result, max, 0.25)).toBeCloseTo(0.25);
+  });
+
+  test("treats negative scores and empty maxima as 0", () => {
+    expect(blendSearchScore({ textRank: 0.8, finalScore: -2 }, max)).toBeCloseTo(0.5);
+    expect(blendSearchScore({ textRank: 0, finalScore: 0 }, { textRank: 0, finalScore: 0 })).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Bounty Search Queries
+ *
+ * Parses the search box syntax and blends text rank with the user's
+ * personalized score. Free text goes to Postgres full-text search
+ * (websearch syntax: "quoted phrases", OR, -exclusions); operators narrow
+ * the results:
+ *
+ *   tag:rust         tagged rust (repeat for any of several tags)
+ *   tier:high        bounty tier: basic, middle or high (repeatable)
+ *   price:100-500    price range, inclusive
+ *   price:>200       more than 200 (also <, >= and <=)
+ *
+ * Tokens that aren't a valid operator stay in the free text.
+ *
+ * Pure functions only.
+ */
+
+// ============ TYPES ============
+
+export type SearchTier = "basic" | "middle" | "high";
+
+export interface ParsedSearchQuery {
+  text: string;      // Free text for full-text search ("" = operators only)
+  tags: string[];    // Lowercased tag names
+  tiers: SearchTier[];
+  priceMin?: number; // Inclusive
+  priceMax?: number; // Inclusive
+}
+
+// ============ CONSTANTS ============
+
+// Share of the search score that comes from text rank (the rest is finalScore)
+export const DEFAULT_TEXT_WEIGHT = 0.5;
+
+const TIERS: SearchTier[] = ["basic", "middle", "high"];
+const OPERATOR_PATTERN = /^(tag|tier|price):(\S+)$/i;
+
+// ============ PARSING ============
+
+/**
+ * Split a search box query into free text and operators
+ */
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: "", tags: [], tiers: [] };
+  const text: string[] = [];
+
+  for (const token of raw.trim().split(/\s+/).filter(Boolean)) {
+    const match = OPERATOR_PATTERN.exec(token);
+    if (!match || !applyOperator(parsed, match[1]!.toLowerCase(), match[2]!.toLowerCase())) {
+      text.push(token);
+    }
+  }
+
+  parsed.text = text.join(" ");
+  return parsed;
+}
+
+// ============ RANKING ============
+
+/**
+ * Blend of text rank and personalized score, each normalized by the best
+ * among the candidates (0-1)
+ */
+export function blendSearchScore(
+  result: { textRank: number; finalScore: number },
+  max: { textRank: number; finalScore: number },
+  textWeight: number = DEFAULT_TEXT_WEIGHT
+): number {
+  const text = max.textRank > 0 ? result.textRank / max.textRank : 0;
+  const personal = max.finalScore > 0 ? Math.max(result.finalScore, 0) / max.finalScore : 0;
+
+  return textWeight * text + (1 - textWeight) * personal;
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Apply one operator to the parsed query. Returns false when the value is
+ * invalid, so the token is searched as text instead.
+ */
+function applyOperator(parsed: ParsedSearchQuery, operator: string, value: string): boolean {
+  switch (operator) {
+    case "tag":
+      if (!parsed.tags.includes(value)) parsed.tags.push(value);
+      return true;
+
+    case "tier": {
+      const tier = TIERS.find((t) => t === value);
+      if (!tier) return false;
+      if (!parsed.tiers.includes(tier)) parsed.tiers.push(tier);
+      return true;
+    }
+
+    case "price":
+      return applyPrice(parsed, value.replace(/\$/g, ""));
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * price:100-500, price:>200, price:>=200, price:<1000, price:<=1000
+ * Prices are whole dollars, so > and < become inclusive bounds one apart.
+ * Several price operators narrow each other.
+ */
+function applyPrice(parsed: ParsedSearchQuery, value: string): boolean {
+  let min: number | undefined;
+  let max: number | undefined;
+
+  const range = /^(\d+)-(\d+)$/.exec(value);
+  const bound = /^([<>]=?)(\d+)$/.exec(value);
+
+  if (range) {
+    min = Number(range[1]);
+    max = Number(range[2]);
+    if (min > max) return false;
+  } else if (bound) {
+    const amount = Number(bound[2]);
+    switch (bound[1]) {
+      case ">": min = amount + 1; break;
+      case ">=": min = amount; break;
+      case "<": max = amount - 1; break;
+      case "<=": max = amount; break;
+    }
+  } else {
+    return false;
+  }
+
+  if (min !== undefined) parsed.priceMin = Math.max(parsed.priceMin ?? min, min);
+  if (max !== undefined) parsed.priceMax = Math.min(parsed.priceMax ?? max, max);
+  return true;
+}
@@ -0,0 +1,145 @@
+/**
+ * Bounty Search
+ *
+ * Full-text search over open bounties (see bountySearchVector and its GIN
+ * index), re-ranked per user: the best SEARCH_CANDIDATE_LIMIT text matches
+ * get the user's finalScore (from the score cache, or scored on the spot
+ * when not cached) and are ordered by a blend of the two (see
+ * search-query.ts). Bounties above the user's access tier are dropped.
+ */
+
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import { buildBountyFilter } from "@algorithim-test/db/bounty-filter";
+import { bounty, bountySearchVector } from "@algorithim-test/db/schema/bounty";
+import { userBountyScore } from "@algorithim-test/db/schema/recommendation";
+import { tag } from "@algorithim-test/db/schema/tag";
+import type { ScoredBounty } from "./recommendation";
+import { blendSearchScore, type ParsedSearchQuery } from "./search-query";
+import { ensureScoreCache, fromCachedScore, scoreUncachedBounties } from "./score-cache";
+
+// ============ TYPES ============
+
+export interface SearchResult {
+  scored: ScoredBounty;
+  textRank: number;     // ts_rank_cd of the free text (0 without free text)
+  textPosition: number; // 0-based position in text rank order
+  searchScore: number;  // 0-1 blend of text rank and finalScore
+}
+
+export interface SearchOptions {
+  textWeight?: number;  // Share of text rank in the blend (see DEFAULT_TEXT_WEIGHT)
+  limit: number;
+}
+
+// ============ CONSTANTS ============
+
+// Text matches re-ranked per search
+export const SEARCH_CANDIDATE_LIMIT = 200;
+
+// ============ SEARCH ============
+
+/**
+ * Search open bounties for a user
+ */
+export async function searchBounties(
+  userId: string,
+  strategyId: string,
+  query: ParsedSearchQuery,
+  options: SearchOptions,
+  now: Date = new Date()
+): Promise<{ results: SearchResult[]; unknownTags: string[] }> {
+  // Resolve tag operators to ids; a query whose tags all miss has no results
+  const tagRows =
+    query.tags.length > 0
+      ? await db
+          .select({ id: tag.id, name: tag.name })
+          .from(tag)
+          .where(inArray(sql`lower(${tag.name})`, query.tags))
+      : [];
+  const knownTags = new Set(tagRows.map((t) => t.name.toLowerCase()));
+  const unknownTags = query.tags.filter((name) => !knownTags.has(name));
+
+  if (query.tags.length > 0 && tagRows.length === 0) {
+    return { results: [], unknownTags };
+  }
+
+  await ensureScoreCache(userId, strategyId, now);
+
+  const vector = bountySearchVector(bounty);
+  const tsQuery = sql`websearch_to_tsquery('english', ${query.text})`;
+  const textRank = query.text
+    ? sql<number>`ts_rank_cd(${vector}, ${tsQuery})`.mapWith(Number)
+    : sql<number>`0`.mapWith(Number);
+
+  const candidates = await db
+    .select({
+      bounty,
+      textRank,
+      cached: {
+        relevanceScore: userBountyScore.relevanceScore,
+        finalScore: userBountyScore.finalScore,
+        strategyId: userBountyScore.strategyId,
+        details: userBountyScore.details,
+      },
+    })
+    .from(bounty)
+    .leftJoin(
+      userBountyScore,
+      and(
+        eq(userBountyScore.bountyId, bounty.id),
+        eq(userBountyScore.userId, userId),
+        eq(userBountyScore.strategyId, strategyId)
+      )
+    )
+    .where(
+      and(
+        buildBountyFilter({
+          statuses: ["open"],
+          activeAt: now,
+          tierFilter: query.tiers,
+          tagFilter: tagRows.map((t) => t.id),
+          priceMin: query.priceMin,
+          priceMax: query.priceMax,
+        }),
+        query.text ? sql`${vector} @@ ${tsQuery}` : undefined
+      )
+    )
+    .orderBy(desc(textRank), sql`${userBountyScore.finalScore} desc nulls last`, bounty.id)
+    .limit(SEARCH_CANDIDATE_LIMIT);
+
+  // Personalized scores: cached, or computed now for matches outside the cache
+  const uncached = await scoreUncachedBounties(
+    userId,
+    strategyId,
+    candidates.filter((c) => !c.cached).map((c) => c.bounty),
+    now
+  );
+  const uncachedById = new Map(uncached.map((sb) => [sb.bounty.id, sb]));
+
+  const matches = candidates.flatMap((c, textPosition) => {
+    const scored = c.cached
+      ? fromCachedScore(c.bounty, c.cached)
+      : uncachedById.get(c.bounty.id);
+    return scored ? [{ scored, textRank: c.textRank, textPosition }] : [];
+  });
+
+  const max = {
+    textRank: Math.max(0, ...matches.map((m) => m.textRank)),
+    finalScore: Math.max(0, ...matches.map((m) => m.scored.finalScore)),
+  };
+
+  const results = matches
+    .map((m) => ({
+      ...m,
+      searchScore: blendSearchScore(
+        { textRank: m.textRank, finalScore: m.scored.finalScore },
+        max,
+        options.textWeight
+      ),
+    }))
+    .sort((a, b) => b.searchScore - a.searchScore)
+    .slice(0, options.limit);
+
+  return { results, unknownTags };
+}
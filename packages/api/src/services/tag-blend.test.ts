@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import {
+  computeImplicitTagScores,
+  typeTagScore,
+  TAG_SCORE_HALF_LIFE_DAYS,
+  type TagInteraction,
+} from "./tag-blend";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-03-01T12:00:00Z");
+
+function interaction(
+  type: string,
+  daysAgo: number,
+  tagIds: number[] = [1],
+  dwellSeconds: number | null = null
+): TagInteraction {
+  return { type, createdAt: new Date(now.getTime() - daysAgo * DAY_MS), tagIds, dwellSeconds };
+}
+
+function scoreFor(interactions: TagInteraction[], halfLifeDays?: number): number {
+  return computeImplicitTagScores(interactions, now, halfLifeDays).get(1) ?? 0;
+}
+
+describe("typeTagScore", () => {
+  test("scales the decayed count by the type weight and caps at 10", () => {
+    expect(typeTagScore("view", 1)).toBeCloseTo(0.2);
+    expect(typeTagScore("complete", 1)).toBeCloseTo(0.8);
+    expect(typeTagScore("complete", 100)).toBe(10);
+  });
+});
+
+describe("computeImplicitTagScores", () => {
+  test("halves an interaction's weight every half-life", () => {
+    const fresh = scoreFor([interaction("complete", 0)]);
+
+    expect(fresh).toBeCloseTo(0.32);
+    expect(scoreFor([interaction("complete", TAG_SCORE_HALF_LIFE_DAYS)])).toBeCloseTo(fresh / 2);
+    expect(scoreFor([interaction("complete", TAG_SCORE_HALF_LIFE_DAYS * 2)])).toBeCloseTo(fresh / 4);
+  });
+
+  test("uses the given half-life", () => {
+    const fresh = scoreFor([interaction("like", 0)], 10);
+    expect(scoreFor([interaction("like", 10)], 10)).toBeCloseTo(fresh / 2);
+    expect(scoreFor([interaction("like", 30)], 10)).toBeCloseTo(fresh / 8);
+  });
+
+  test("doesn't boost interactions dated after now", () => {
+    expect(scoreFor([interaction("like", -30)])).toBeCloseTo(scoreFor([interaction("like", 0)]));
+  });
+
+  test("sums decayed interactions before capping", () => {
+    const many = Array.from({ length: 20 }, () => interaction("complete", 0));
+    // 20 completes score 16 before the cap, so the type score is 10 and the tag 10 * 0.4
+    expect(scoreFor(many)).toBeCloseTo(4);
+
+    // Two half-lives leave 5 completes: a type score of 4, back under the cap
+    const old = Array.from({ length: 20 }, () => interaction("complete", TAG_SCORE_HALF_LIFE_DAYS * 2));
+    expect(scoreFor(old)).toBeCloseTo(1.6);
+  });
+
+  test("weights views by dwell, clamped", () => {
+    const plain = scoreFor([interaction("view", 0)]);
+
+    expect(scoreFor([interaction("view", 0, [1], 30)])).toBeCloseTo(plain);
+    expect(scoreFor([interaction("view", 0, [1], 15)])).toBeCloseTo(plain * 0.5);
+    expect(scoreFor([interaction("view", 0, [1], 1)])).toBeCloseTo(plain * 0.2);
+    expect(scoreFor([interaction("view", 0, [1], 600)])).toBeCloseTo(plain * 2);
+    // Dwell only weights views
+    expect(scoreFor([interaction("like", 0, [1], 1)])).toBeCloseTo(scoreFor([interaction("like", 0)]));
+  });
+
+  test("credits every tag on the bounty and skips untracked types", () => {
+    const scores = computeImplicitTagScores(
+      [interaction("complete", 0, [1, 2]), interaction("claim", 0, [3])],
+      now
+    );
+
+    expect(scores.get(1)).toBeCloseTo(0.32);
+    expect(scores.get(2)).toBeCloseTo(0.32);
+    expect(scores.has(3)).toBe(false);
+  });
+});
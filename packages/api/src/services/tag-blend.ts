@@ -0,0 +1,188 @@
+/**
+ * Tag Score Math
+ *
+ * How behavior turns into implicit tag scores (0-10) and how those blend
+ * with explicit profile scores (1-5) on the engine's 0-5 scale. Shared by
+ * the live behavior tracking (behavior.ts, which aggregates in SQL) and the
+ * offline evaluation, which rebuilds scores in memory at its cutoff.
+ *
+ * Pure functions only.
+ */
+
+// ============ TYPES ============
+
+export type InteractionType = "view" | "like" | "submit" | "complete";
+
+export interface TagInteraction {
+  type: string;
+  createdAt: Date;
+  tagIds: number[];            // Tags on the bounty
+  dwellSeconds: number | null; // The user's average dwell on the bounty (weights views)
+}
+
+export interface BlendWeights {
+  explicitWeight: number;
+  implicitWeight: number;
+}
+
+// A tag's share of its engine score (0-5) from each side
+export interface TagBlend {
+  explicitContribution: number;
+  implicitContribution: number;
+}
+
+// ============ CONSTANTS ============
+
+export const BEHAVIOR_WEIGHTS = {
+  view: 0.1,
+  like: 0.2,
+  submit: 0.3,
+  complete: 0.4,
+} as const;
+
+// Interaction types that feed behavior (claims don't)
+export const TRACKED_INTERACTION_TYPES = Object.keys(BEHAVIOR_WEIGHTS) as InteractionType[];
+
+// An interaction's weight halves every N days
+export const TAG_SCORE_HALF_LIFE_DAYS = 90;
+
+// View weight by dwell: seconds / DWELL_FULL_READ_SECONDS, clamped
+export const DWELL_FULL_READ_SECONDS = 30;
+export const DWELL_WEIGHT_MIN = 0.2;
+export const DWELL_WEIGHT_MAX = 2;
+
+// Tag score scales: explicit (onboarding/profile) is 1-5, implicit (behavior) is 0-10
+const EXPLICIT_SCORE_MAX = 5;
+const IMPLICIT_SCORE_MAX = 10;
+
+// How many interactions before we start trusting implicit data more
+const INTERACTION_THRESHOLDS = {
+  START_BLENDING: 10,      // Start considering implicit at 10 interactions
+  EQUAL_WEIGHT: 50,        // 50/50 blend at 50 interactions
+  TRUST_IMPLICIT: 100,     // 70% implicit at 100+ interactions
+} as const;
+
+// ============ IMPLICIT SCORES ============
+
+/**
+ * In-memory equivalent of recomputeTagBehavior (behavior.ts): implicit score per tag from
+ * a user's interactions, decayed as of `now`. Used where there's no
+ * userBehaviorTag state to read, e.g. the offline evaluation rebuilding
+ * scores at its cutoff.
+ */
+export function computeImplicitTagScores(
+  interactions: TagInteraction[],
+  now: Date,
+  halfLifeDays: number = TAG_SCORE_HALF_LIFE_DAYS
+): Map<number, number> {
+  const halfLifeMs = halfLifeDays * 24 * 60 * 60 * 1000;
+  const decayed = new Map<number, Record<InteractionType, number>>();
+
+  for (const interaction of interactions) {
+    if (!(interaction.type in BEHAVIOR_WEIGHTS)) continue;
+    const type = interaction.type as InteractionType;
+
+    const age = Math.max(now.getTime() - interaction.createdAt.getTime(), 0);
+    const dwell = type === "view" ? dwellWeight(interaction.dwellSeconds) : 1;
+    const weight = dwell * 0.5 ** (age / halfLifeMs);
+
+    for (const tagId of interaction.tagIds) {
+      const counts = decayed.get(tagId) ?? { view: 0, like: 0, submit: 0, complete: 0 };
+      counts[type] += weight;
+      decayed.set(tagId, counts);
+    }
+  }
+
+  return new Map(
+    [...decayed].map(([tagId, counts]) => [
+      tagId,
+      computeImplicitTagScore({
+        viewScore: typeTagScore("view", counts.view),
+        likeScore: typeTagScore("like", counts.like),
+        submitScore: typeTagScore("submit", counts.submit),
+        completeScore: typeTagScore("complete", counts.complete),
+      }),
+    ])
+  );
+}
+
+/**
+ * A tag's score from one interaction type, given its decayed (and, for
+ * views, dwell-weighted) interaction count
+ */
+export function typeTagScore(type: InteractionType, decayedCount: number): number {
+  return Math.min(10, decayedCount * BEHAVIOR_WEIGHTS[type] * 2);
+}
+
+/**
+ * View weight from dwell (same clamp as the SQL in recomputeTagBehavior)
+ */
+function dwellWeight(seconds: number | null): number {
+  if (seconds === null) return 1;
+  return Math.min(Math.max(seconds / DWELL_FULL_READ_SECONDS, DWELL_WEIGHT_MIN), DWELL_WEIGHT_MAX);
+}
+
+/**
+ * Compute implicit tag score from behavior counts
+ */
+export function computeImplicitTagScore(behavior: {
+  viewScore: number;
+  likeScore: number;
+  submitScore: number;
+  completeScore: number;
+}): number {
+  // Weighted combination, capped at 10
+  const raw =
+    behavior.viewScore * 0.1 +
+    behavior.likeScore * 0.2 +
+    behavior.submitScore * 0.3 +
+    behavior.completeScore * 0.4;
+
+  return Math.min(10, raw);
+}
+
+// ============ BLENDING ============
+
+/**
+ * Explicit/implicit blend weights for a number of tracked interactions
+ */
+export function computeBlendWeights(total: number): BlendWeights {
+  if (total >= INTERACTION_THRESHOLDS.TRUST_IMPLICIT) {
+    return { explicitWeight: 0.3, implicitWeight: 0.7 };
+  }
+  if (total >= INTERACTION_THRESHOLDS.EQUAL_WEIGHT) {
+    return { explicitWeight: 0.5, implicitWeight: 0.5 };
+  }
+  if (total >= INTERACTION_THRESHOLDS.START_BLENDING) {
+    // Linear interpolation between 80/20 and 50/50
+    const progress =
+      (total - INTERACTION_THRESHOLDS.START_BLENDING) /
+      (INTERACTION_THRESHOLDS.EQUAL_WEIGHT - INTERACTION_THRESHOLDS.START_BLENDING);
+    return { explicitWeight: 0.8 - progress * 0.3, implicitWeight: 0.2 + progress * 0.3 };
+  }
+  return { explicitWeight: 0.8, implicitWeight: 0.2 };
+}
+
+/**
+ * Blend one tag for the engine: normalize each side to 0-1 (explicit is
+ * 1-5, implicit 0-10), weight them and map back to the explicit 0-5 scale.
+ * Below the blending threshold, behavior is too thin to move the engine.
+ */
+export function blendTagScore(
+  explicitScore: number,
+  implicitScore: number,
+  weights: BlendWeights,
+  totalInteractions: number
+): TagBlend {
+  const trustImplicit = totalInteractions >= INTERACTION_THRESHOLDS.START_BLENDING;
+  const explicitWeight = trustImplicit ? weights.explicitWeight : 1;
+  const implicitWeight = trustImplicit ? weights.implicitWeight : 0;
+
+  return {
+    explicitContribution: (explicitScore / EXPLICIT_SCORE_MAX) * explicitWeight * EXPLICIT_SCORE_MAX,
+    implicitContribution:
+      (Math.min(implicitScore, IMPLICIT_SCORE_MAX) / IMPLICIT_SCORE_MAX) *
+      implicitWeight *
+      EXPLICIT_SCORE_MAX,
+  };
+}
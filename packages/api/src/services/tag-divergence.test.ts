@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import {
+  selectTagDivergence,
+  UNUSED_SKILL_MIN_EXPLICIT,
+  UNUSED_SKILL_MIN_EXPOSURE,
+  UNUSED_SKILL_MIN_INTERACTIONS,
+  type TagDivergenceInput,
+} from "./tag-divergence";
+
+function input(overrides: Partial<TagDivergenceInput>): TagDivergenceInput {
+  return {
+    explicit: [],
+    implicit: [],
+    exposure: new Map(),
+    threshold: 3,
+    interactions: UNUSED_SKILL_MIN_INTERACTIONS,
+    ...overrides,
+  };
+}
+
+describe("selectTagDivergence", () => {
+  test("flags tags outside the profile scored at or above the threshold", () => {
+    const candidates = selectTagDivergence(
+      input({
+        explicit: [{ tagId: 1, score: 3 }],
+        implicit: [
+          { tagId: 1, implicitScore: 8 }, // In the profile
+          { tagId: 2, implicitScore: 3 },
+          { tagId: 3, implicitScore: 2.9 },
+        ],
+        exposure: new Map([[2, 7]]),
+      })
+    );
+
+    expect(candidates).toEqual([
+      {
+        type: "new_interest",
+        tagId: 2,
+        details: { explicitScore: 0, implicitScore: 3, exposure: 7, threshold: 3 },
+      },
+    ]);
+  });
+
+  test("flags highly rated profile tags the user keeps passing over", () => {
+    const candidates = selectTagDivergence(
+      input({
+        explicit: [
+          { tagId: 1, score: UNUSED_SKILL_MIN_EXPLICIT },
+          { tagId: 2, score: UNUSED_SKILL_MIN_EXPLICIT - 1 }, // Not rated high enough
+          { tagId: 3, score: 5 },                             // Engaged with
+          { tagId: 4, score: 5 },                             // Barely shown
+        ],
+        implicit: [{ tagId: 3, implicitScore: 1 }],
+        exposure: new Map([
+          [1, UNUSED_SKILL_MIN_EXPOSURE],
+          [2, 50],
+          [3, 50],
+          [4, UNUSED_SKILL_MIN_EXPOSURE - 1],
+        ]),
+      })
+    );
+
+    expect(candidates).toEqual([
+      {
+        type: "unused_skill",
+        tagId: 1,
+        details: {
+          explicitScore: UNUSED_SKILL_MIN_EXPLICIT,
+          implicitScore: 0,
+          exposure: UNUSED_SKILL_MIN_EXPOSURE,
+          threshold: 3,
+        },
+      },
+    ]);
+  });
+
+  test("waits for enough interactions before flagging unused skills", () => {
+    const tags = {
+      explicit: [{ tagId: 1, score: 5 }],
+      implicit: [{ tagId: 2, implicitScore: 6 }],
+      exposure: new Map([[1, 100]]),
+    };
+
+    expect(
+      selectTagDivergence(input({ ...tags, interactions: UNUSED_SKILL_MIN_INTERACTIONS - 1 })).map((c) => c.type)
+    ).toEqual(["new_interest"]);
+    expect(selectTagDivergence(input(tags)).map((c) => c.type)).toEqual(["new_interest", "unused_skill"]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tag Divergence
+ *
+ * Which of a user's tags diverge between profile and behavior (see
+ * divergence.ts for the prompts they turn into):
+ *
+ *   new_interest   a tag outside the profile with an implicit score of at
+ *                  least the user's divergenceThreshold
+ *   unused_skill   a profile tag scored UNUSED_SKILL_MIN_EXPLICIT or more,
+ *                  shown to the user on UNUSED_SKILL_MIN_EXPOSURE bounties
+ *                  since it was added to the profile, with an implicit
+ *                  score below threshold * UNUSED_SKILL_ENGAGEMENT_RATIO
+ *                  (after UNUSED_SKILL_MIN_INTERACTIONS). Tags without any
+ *                  behavior count as 0, so skills the user never touched
+ *                  are caught too.
+ *
+ * Pure functions only.
+ */
+
+import type { DivergenceDetails } from "@algorithim-test/db/schema/onboarding";
+import type { DivergenceType } from "./divergence";
+
+// ============ TYPES ============
+
+export interface DivergenceCandidate {
+  type: DivergenceType;
+  tagId: number | null;
+  details: DivergenceDetails;
+}
+
+// Inputs to tag divergence (see selectTagDivergence)
+export interface TagDivergenceInput {
+  explicit: { tagId: number; score: number }[];
+  implicit: { tagId: number; implicitScore: number }[];
+  exposure: Map<number, number>; // Bounties shown per tag (profile tags: since they were added)
+  threshold: number;             // The user's divergenceThreshold
+  interactions: number;          // Tracked interactions so far
+}
+
+// ============ CONSTANTS ============
+
+export const UNUSED_SKILL_MIN_EXPLICIT = 4;
+export const UNUSED_SKILL_MIN_EXPOSURE = 20;
+export const UNUSED_SKILL_ENGAGEMENT_RATIO = 1 / 3;
+export const UNUSED_SKILL_MIN_INTERACTIONS = 10;
+
+// ============ SELECTION ============
+
+/**
+ * new_interest and unused_skill candidates from a user's tag scores and
+ * exposure
+ */
+export function selectTagDivergence(input: TagDivergenceInput): DivergenceCandidate[] {
+  const { explicit, implicit, exposure, threshold, interactions } = input;
+
+  const explicitMap = new Map(explicit.map((t) => [t.tagId, t.score]));
+  const implicitMap = new Map(implicit.map((t) => [t.tagId, t.implicitScore]));
+
+  const candidates: DivergenceCandidate[] = [];
+
+  // User engaging with tags they didn't claim
+  for (const t of implicit) {
+    if (explicitMap.has(t.tagId) || t.implicitScore < threshold) continue;
+
+    candidates.push({
+      type: "new_interest",
+      tagId: t.tagId,
+      details: {
+        explicitScore: 0,
+        implicitScore: t.implicitScore,
+        exposure: exposure.get(t.tagId) ?? 0,
+        threshold,
+      },
+    });
+  }
+
+  // User passing over tags they claimed to know well (too early to tell
+  // before UNUSED_SKILL_MIN_INTERACTIONS)
+  if (interactions < UNUSED_SKILL_MIN_INTERACTIONS) return candidates;
+
+  for (const t of explicit) {
+    if (t.score < UNUSED_SKILL_MIN_EXPLICIT) continue;
+
+    const implicitScore = implicitMap.get(t.tagId) ?? 0;
+    const shown = exposure.get(t.tagId) ?? 0;
+
+    if (shown >= UNUSED_SKILL_MIN_EXPOSURE && implicitScore < threshold * UNUSED_SKILL_ENGAGEMENT_RATIO) {
+      candidates.push({
+        type: "unused_skill",
+        tagId: t.tagId,
+        details: { explicitScore: t.score, implicitScore, exposure: shown, threshold },
+      });
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { buildTagGraph, describePartialMatch, findPartialMatch } from "./tag-graph";
+
+const JAVASCRIPT = 1;
+const REACT = 2;
+const NEXTJS = 3;
+const REMIX = 4;
+const VUE = 5;
+const SVELTE = 6;
+const TYPESCRIPT = 7;
+
+const graph = buildTagGraph(
+  [
+    { id: JAVASCRIPT, name: "javascript" },
+    { id: REACT, name: "react" },
+    { id: NEXTJS, name: "nextjs" },
+    { id: REMIX, name: "remix" },
+    { id: VUE, name: "vue" },
+    { id: SVELTE, name: "svelte" },
+    { id: TYPESCRIPT, name: "typescript" },
+  ],
+  [
+    { childId: REACT, parentId: JAVASCRIPT },
+    { childId: NEXTJS, parentId: REACT },
+    { childId: REMIX, parentId: REACT },
+  ],
+  [
+    { tagId: VUE, relatedTagId: SVELTE, weight: 0.8 },
+    { tagId: REACT, relatedTagId: VUE, weight: 0.4 },
+    { tagId: JAVASCRIPT, relatedTagId: TYPESCRIPT, weight: 1.5 },
+  ]
+);
+
+function scores(entries: [number, number][]): Map<number, number> {
+  return new Map(entries);
+}
+
+describe("findPartialMatch", () => {
+  test("discounts a known child less than a known parent", () => {
+    expect(findPartialMatch(REACT, scores([[NEXTJS, 4]]), graph)).toEqual({
+      userTagId: NEXTJS,
+      path: [REACT, NEXTJS],
+      discount: 0.7,
+    });
+    expect(findPartialMatch(NEXTJS, scores([[REACT, 4]]), graph)).toEqual({
+      userTagId: REACT,
+      path: [NEXTJS, REACT],
+      discount: 0.5,
+    });
+  });
+
+  test("uses related edges in both directions at their weight", () => {
+    expect(findPartialMatch(VUE, scores([[SVELTE, 3]]), graph)?.discount).toBeCloseTo(0.8);
+    expect(findPartialMatch(SVELTE, scores([[VUE, 3]]), graph)?.discount).toBeCloseTo(0.8);
+  });
+
+  test("walks two hops and multiplies the discounts", () => {
+    const match = findPartialMatch(NEXTJS, scores([[REMIX, 4]]), graph);
+    expect(match?.path).toEqual([NEXTJS, REACT, REMIX]);
+    expect(match?.discount).toBeCloseTo(0.35);
+  });
+
+  test("prefers the highest credit over the shortest path", () => {
+    // react: 1 × 0.5 = 0.5, remix: 5 × 0.35 = 1.75
+    const match = findPartialMatch(NEXTJS, scores([[REACT, 1], [REMIX, 5]]), graph);
+    expect(match?.userTagId).toBe(REMIX);
+  });
+
+  test("drops paths below the minimum discount or past the hop limit", () => {
+    // nextjs → react → vue is 0.5 × 0.4 = 0.2
+    expect(findPartialMatch(NEXTJS, scores([[VUE, 5]]), graph)).toBeNull();
+    // nextjs → react → javascript → typescript is three hops
+    expect(findPartialMatch(NEXTJS, scores([[TYPESCRIPT, 5]]), graph)).toBeNull();
+  });
+
+  test("clamps related weights to 1", () => {
+    expect(findPartialMatch(JAVASCRIPT, scores([[TYPESCRIPT, 2]]), graph)?.discount).toBe(1);
+  });
+
+  test("returns null without a scored tag in reach", () => {
+    expect(findPartialMatch(REACT, scores([]), graph)).toBeNull();
+    expect(findPartialMatch(REACT, scores([[NEXTJS, 0]]), graph)).toBeNull();
+    expect(findPartialMatch(99, scores([[REACT, 5]]), graph)).toBeNull();
+  });
+});
+
+describe("describePartialMatch", () => {
+  test("names the path and rounds the discount", () => {
+    const match = findPartialMatch(NEXTJS, scores([[REMIX, 4]]), graph)!;
+    expect(describePartialMatch(match, graph)).toBe("partial via nextjs → react → remix (0.35)");
+    expect(describePartialMatch({ userTagId: 99, path: [REACT, 99], discount: 0.5 }, graph)).toBe(
+      "partial via react → #99 (0.5)"
+    );
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tag Graph
+ *
+ * Tags are linked by parent/child edges ("nextjs" is a child of "react") and
+ * weighted "related-to" edges ("vue" ~ "svelte"). When a bounty tag isn't in
+ * the user's profile, relevance scoring walks this graph from the bounty tag
+ * to the nearest tag the user does know and grants discounted credit:
+ *
+ *   credit = user's score for the known tag × product of edge discounts
+ *
+ * Edge discounts:
+ *   - child -> parent: knowing a child says a lot about the parent
+ *     (nextjs implies react)
+ *   - parent -> child: knowing a parent says less about a child
+ *     (react doesn't imply nextjs)
+ *   - related: the edge's own weight
+ *
+ * Pure functions only; routers and the eval load the edges and call
+ * buildTagGraph.
+ */
+
+// ============ TYPES ============
+
+export type TagEdgeKind = "parent" | "child" | "related";
+
+export interface TagEdge {
+  tagId: number;      // Neighbor
+  kind: TagEdgeKind;  // What the neighbor is to this tag
+  discount: number;   // 0-1 credit multiplier for crossing this edge
+}
+
+export interface TagGraph {
+  edges: Map<number, TagEdge[]>;
+  names: Map<number, string>;
+}
+
+export interface PartialTagMatch {
+  userTagId: number; // The profile tag the credit comes from
+  path: number[];    // Bounty tag first, user tag last
+  discount: number;  // Product of edge discounts along the path
+}
+
+// ============ CONSTANTS ============
+
+// Credit multiplier when the user knows a child of the bounty tag
+// (bounty tagged react, user knows nextjs)
+const CHILD_TO_PARENT_DISCOUNT = 0.7;
+
+// Credit multiplier when the user knows a parent of the bounty tag
+// (bounty tagged nextjs, user knows react)
+const PARENT_TO_CHILD_DISCOUNT = 0.5;
+
+// Hops to search from a bounty tag, and the weakest credit worth keeping
+const MAX_HOPS = 2;
+const MIN_DISCOUNT = 0.25;
+
+// ============ GRAPH ============
+
+/**
+ * Build the in-memory graph from tag rows and edge rows
+ */
+export function buildTagGraph(
+  tags: { id: number; name: string }[],
+  parents: { childId: number; parentId: number }[],
+  relations: { tagId: number; relatedTagId: number; weight: number }[]
+): TagGraph {
+  const edges = new Map<number, TagEdge[]>();
+  const addEdge = (from: number, edge: TagEdge) => {
+    if (!edges.has(from)) {
+      edges.set(from, []);
+    }
+    edges.get(from)!.push(edge);
+  };
+
+  // Walking from a bounty tag toward a user tag: moving from a parent down
+  // to its child means the user knows the child, and vice versa
+  for (const p of parents) {
+    addEdge(p.parentId, { tagId: p.childId, kind: "child", discount: CHILD_TO_PARENT_DISCOUNT });
+    addEdge(p.childId, { tagId: p.parentId, kind: "parent", discount: PARENT_TO_CHILD_DISCOUNT });
+  }
+
+  for (const r of relations) {
+    const discount = Math.max(0, Math.min(1, r.weight));
+    addEdge(r.tagId, { tagId: r.relatedTagId, kind: "related", discount });
+    addEdge(r.relatedTagId, { tagId: r.tagId, kind: "related", discount });
+  }
+
+  return { edges, names: new Map(tags.map((t) => [t.id, t.name])) };
+}
+
+/**
+ * Best discounted match for a bounty tag the user doesn't have directly.
+ * Picks the path with the highest credit (user score × discount), so a
+ * strong skill two hops away can beat a weak one next door.
+ */
+export function findPartialMatch(
+  bountyTagId: number,
+  userScores: Map<number, number>,
+  graph: TagGraph
+): PartialTagMatch | null {
+  let best: PartialTagMatch | null = null;
+  let bestCredit = 0;
+
+  // Breadth-first, keeping the best discount seen for each tag
+  let frontier: PartialTagMatch[] = [{ userTagId: bountyTagId, path: [bountyTagId], discount: 1 }];
+  const bestDiscount = new Map<number, number>([[bountyTagId, 1]]);
+
+  for (let hop = 0; hop < MAX_HOPS; hop++) {
+    const next: PartialTagMatch[] = [];
+
+    for (const current of frontier) {
+      for (const edge of graph.edges.get(current.userTagId) ?? []) {
+        const discount = current.discount * edge.discount;
+        if (discount < MIN_DISCOUNT) continue;
+        if ((bestDiscount.get(edge.tagId) ?? 0) >= discount) continue;
+
+        bestDiscount.set(edge.tagId, discount);
+        const candidate = { userTagId: edge.tagId, path: [...current.path, edge.tagId], discount };
+        next.push(candidate);
+
+        const credit = (userScores.get(edge.tagId) ?? 0) * discount;
+        if (credit > bestCredit) {
+          best = candidate;
+          bestCredit = credit;
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return best;
+}
+
+/**
+ * Human-readable path, e.g. "partial via react → nextjs (0.7)"
+ */
+export function describePartialMatch(match: PartialTagMatch, graph: TagGraph): string {
+  const names = match.path.map((id) => graph.names.get(id) ?? `#${id}`);
+  return `partial via ${names.join(" → ")} (${Number(match.discount.toFixed(2))})`;
+}
@@ -0,0 +1,208 @@
+/**
+ * Tech Stack → Tags
+ *
+ * Onboarding step 3 stores free-form tech-stack strings ("React",
+ * "PostgreSQL", "k8s") per category. This maps them onto the tag catalog so
+ * they feed the explicit profile like step-1 skills do:
+ *
+ *   - each string is normalized ("Next.js" -> "nextjs") and looked up in
+ *     TECH_ALIASES; the first tag is the direct match, the rest are implied
+ *     ("nextjs" also implies "react")
+ *   - each category with at least one real pick maps to a domain tag
+ *     (frontend -> "frontend", infra -> "devops", ...)
+ *
+ * Resulting tags are stored as userTag rows with source "onboarding_stack".
+ * Scores the user set in step 1 always win over these defaults.
+ */
+
+import { eq, and, ne } from "drizzle-orm";
+import { db } from "@algorithim-test/db";
+import { tag } from "@algorithim-test/db/schema/tag";
+import { userTag } from "@algorithim-test/db/schema/user-profile";
+
+// ============ TYPES ============
+
+export type TechStackCategory = "frontend" | "backend" | "database" | "infra";
+export type TechStack = Partial<Record<TechStackCategory, string[]>>;
+
+export interface StackTag {
+  tagName: string;
+  score: number; // 1-5, same scale as userTag.score
+}
+
+// ============ CONSTANTS ============
+
+export const TECH_STACK_TAG_SOURCE = "onboarding_stack";
+
+// Default scores (1-5) for tags inferred from the stack
+const STACK_SCORES = {
+  direct: 3,   // Picked it by name
+  implied: 2,  // Implied by a pick (Next.js -> react)
+  category: 2, // Picked anything in the category
+} as const;
+
+// Normalized tech-stack string -> tag names (direct match first, then implied)
+const TECH_ALIASES: Record<string, string[]> = {
+  // Frontend
+  react: ["react", "javascript"],
+  reactjs: ["react", "javascript"],
+  vue: ["vue", "javascript"],
+  vuejs: ["vue", "javascript"],
+  nuxt: ["vue", "javascript"],
+  svelte: ["svelte", "javascript"],
+  sveltekit: ["svelte", "javascript"],
+  angular: ["angular", "typescript"],
+  angularjs: ["angular", "javascript"],
+  next: ["nextjs", "react"],
+  nextjs: ["nextjs", "react"],
+  typescript: ["typescript"],
+  ts: ["typescript"],
+  javascript: ["javascript"],
+  js: ["javascript"],
+
+  // Backend
+  node: ["node", "javascript"],
+  nodejs: ["node", "javascript"],
+  express: ["express", "node"],
+  expressjs: ["express", "node"],
+  python: ["python"],
+  django: ["django", "python"],
+  go: ["go"],
+  golang: ["go"],
+  rust: ["rust"],
+  java: ["java"],
+  spring: ["spring", "java"],
+  springboot: ["spring", "java"],
+  ruby: ["ruby"],
+  rails: ["rails", "ruby"],
+  rubyonrails: ["rails", "ruby"],
+  php: ["php"],
+  graphql: ["graphql", "api-design"],
+
+  // Database (no per-engine tags, so every engine means "database")
+  postgresql: ["database"],
+  postgres: ["database"],
+  pg: ["database"],
+  mysql: ["database"],
+  mariadb: ["database"],
+  mongodb: ["database"],
+  mongo: ["database"],
+  redis: ["database", "performance"],
+  sqlite: ["database"],
+
+  // Infra
+  aws: ["aws"],
+  amazonwebservices: ["aws"],
+  gcp: ["gcp"],
+  googlecloud: ["gcp"],
+  azure: ["devops"],
+  vercel: ["ci-cd"],
+  docker: ["docker"],
+  kubernetes: ["kubernetes", "docker"],
+  k8s: ["kubernetes", "docker"],
+  terraform: ["terraform"],
+};
+
+// Category -> domain tag, added when the category has any recognized pick
+const CATEGORY_TAGS: Record<TechStackCategory, string> = {
+  frontend: "frontend",
+  backend: "backend",
+  database: "database",
+  infra: "devops",
+};
+
+// Picks that mean "nothing in this category"
+const NONE_VALUES = new Set(["none", "na", "nothing"]);
+
+// ============ MAPPING ============
+
+/**
+ * Map a tech stack onto tag names with default scores.
+ * Unknown strings are ignored; a tag reached several ways keeps its best score.
+ */
+export function resolveTechStack(techStack: TechStack): StackTag[] {
+  const scores = new Map<string, number>();
+  const keep = (tagName: string, score: number) => {
+    scores.set(tagName, Math.max(scores.get(tagName) ?? 0, score));
+  };
+
+  for (const [category, items] of Object.entries(techStack) as [TechStackCategory, string[] | undefined][]) {
+    let recognized = false;
+
+    for (const item of items ?? []) {
+      const key = normalizeTech(item);
+      if (NONE_VALUES.has(key)) continue;
+
+      const [direct, ...implied] = TECH_ALIASES[key] ?? [];
+      if (!direct) continue;
+
+      recognized = true;
+      keep(direct, STACK_SCORES.direct);
+      for (const tagName of implied) {
+        keep(tagName, STACK_SCORES.implied);
+      }
+    }
+
+    if (recognized) {
+      keep(CATEGORY_TAGS[category], STACK_SCORES.category);
+    }
+  }
+
+  return Array.from(scores, ([tagName, score]) => ({ tagName, score }));
+}
+
+/**
+ * Replace the user's stack-derived tags with the ones implied by `techStack`.
+ * Tags the user already has from another source (step-1 skills, manual
+ * edits) are left untouched.
+ */
+export async function applyTechStackTags(
+  userId: string,
+  techStack: TechStack
+): Promise<StackTag[]> {
+  const resolved = resolveTechStack(techStack);
+
+  await db
+    .delete(userTag)
+    .where(and(eq(userTag.userId, userId), eq(userTag.source, TECH_STACK_TAG_SOURCE)));
+
+  if (resolved.length === 0) return [];
+
+  const [catalog, existing] = await Promise.all([
+    db.select({ id: tag.id, name: tag.name }).from(tag),
+    db
+      .select({ tagId: userTag.tagId })
+      .from(userTag)
+      .where(and(eq(userTag.userId, userId), ne(userTag.source, TECH_STACK_TAG_SOURCE))),
+  ]);
+
+  const tagIdByName = new Map(catalog.map((t) => [t.name, t.id]));
+  const alreadyScored = new Set(existing.map((t) => t.tagId));
+
+  const added = resolved.filter((t) => {
+    const tagId = tagIdByName.get(t.tagName);
+    return tagId !== undefined && !alreadyScored.has(tagId);
+  });
+
+  if (added.length > 0) {
+    await db.insert(userTag).values(
+      added.map((t) => ({
+        userId,
+        tagId: tagIdByName.get(t.tagName)!,
+        score: t.score,
+        source: TECH_STACK_TAG_SOURCE,
+      }))
+    );
+  }
+
+  return added;
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * "Next.js" -> "nextjs", "Ruby on Rails" -> "rubyonrails"
+ */
+function normalizeTech(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
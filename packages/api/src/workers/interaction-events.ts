@@ -0,0 +1,85 @@
+// Interaction worker: applies the interaction outbox (see services/interaction-events.ts)
+//
+// Usage: bun run src/workers/interaction-events.ts [options]
+//   --once             Apply every ready event, then exit
+//   --requeue-dead     Requeue dead-lettered events before starting
+//   --batch-size <n>   Events per batch (default: 100)
+//   --poll-ms <n>      Wait between polls when the outbox is empty (default: 1000)
+//
+// Run a single worker: a user's events are applied in order only within one process.
+
+import {
+  countInteractionEvents,
+  drainInteractionEvents,
+  EVENT_BATCH_SIZE,
+  processInteractionEvents,
+  requeueDeadInteractionEvents,
+  type EventBatchResult,
+} from "../services/interaction-events";
+import { getNumberArg } from "../jobs/job";
+
+const args = process.argv.slice(2);
+const batchSize = Math.round(getNumberArg(args, "batch-size", EVENT_BATCH_SIZE));
+const pollMs = getNumberArg(args, "poll-ms", 1000);
+
+let stopping = false;
+
+function log(message: string): void {
+  console.log(`[${new Date().toISOString()}] interaction-events: ${message}`);
+}
+
+function summarize(result: EventBatchResult): string {
+  return `${result.applied} applied, ${result.retried} retried, ${result.dead} dead-lettered, ${result.skipped} waiting`;
+}
+
+/**
+ * Poll the outbox until stopped. A batch that applied something is followed
+ * by the next one right away; otherwise wait pollMs.
+ */
+async function run(): Promise<void> {
+  while (!stopping) {
+    let busy = false;
+
+    try {
+      const result = await processInteractionEvents(batchSize);
+      busy = result.applied + result.dead > 0;
+      if (busy || result.retried > 0) log(summarize(result));
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] interaction-events: batch failed`, error);
+    }
+
+    if (!busy && !stopping) {
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (args.includes("--requeue-dead")) {
+    log(`${await requeueDeadInteractionEvents()} dead events requeued`);
+  }
+
+  const counts = await countInteractionEvents();
+  log(`${counts.pending} pending, ${counts.dead} dead`);
+
+  if (args.includes("--once")) {
+    log(summarize(await drainInteractionEvents(batchSize)));
+    process.exit(0);
+  }
+
+  // Finish the current batch before exiting, so no event is left half-applied
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      log("stopping after the current batch");
+      stopping = true;
+    });
+  }
+
+  await run();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
@@ -15,5 +15,11 @@ export const auth = betterAuth({
   emailAndPassword: {
     enabled: true,
   },
+  user: {
+    additionalFields: {
+      // Set in the database only; users can't pick it at sign-up
+      role: { type: "string", defaultValue: "user", input: false },
+    },
+  },
   plugins: [nextCookies()],
 });
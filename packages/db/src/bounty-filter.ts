@@ -0,0 +1,112 @@
+/**
+ * Bounty Filters
+ *
+ * One description of "which bounties" shared by the API and the seed
+ * scripts: buildBountyFilter turns it into a Postgres WHERE clause, and
+ * matchesBountyFilter is the same predicate in memory (the reference the
+ * SQL version is checked against, see the api package's
+ * scripts/verify-bounty-filters.ts).
+ *
+ * Unset fields and empty arrays don't filter. Predicates combine with AND;
+ * tierFilter, tagFilter and statuses match any of their values.
+ */
+
+import { and, gt, gte, inArray, isNull, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import { bounty, bountyInteraction, bountyTag } from "./schema/bounty";
+
+// ============ TYPES ============
+
+type BountyRow = typeof bounty.$inferSelect;
+
+export interface BountyFilters {
+  statuses?: BountyRow["status"][];
+  activeAt?: Date;             // Drop bounties expired at this time (by status or expiresAt)
+  tierFilter?: BountyRow["tier"][];
+  tagFilter?: number[];        // Bounties with any of these tags
+  priceMin?: number;           // Inclusive
+  priceMax?: number;           // Inclusive
+  minEngagement?: number;      // engagementScore at least this (0-100)
+  createdAfter?: Date;         // Inclusive
+  mutualActivity?: string[];   // Bounties any of these users interacted with
+}
+
+// ============ SQL ============
+
+/**
+ * WHERE clause for the filters (undefined when nothing filters)
+ */
+export function buildBountyFilter(filters: BountyFilters): SQL | undefined {
+  const { statuses, activeAt, tierFilter, tagFilter, mutualActivity } = filters;
+
+  return and(
+    statuses && statuses.length > 0 ? inArray(bounty.status, statuses) : undefined,
+    activeAt
+      ? and(
+          ne(bounty.status, "expired"),
+          or(isNull(bounty.expiresAt), gt(bounty.expiresAt, activeAt))
+        )
+      : undefined,
+    tierFilter && tierFilter.length > 0 ? inArray(bounty.tier, tierFilter) : undefined,
+    tagFilter && tagFilter.length > 0
+      ? inArray(
+          bounty.id,
+          sql`(select ${bountyTag.bountyId} from ${bountyTag} where ${inArray(bountyTag.tagId, tagFilter)})`
+        )
+      : undefined,
+    filters.priceMin !== undefined ? gte(bounty.price, filters.priceMin) : undefined,
+    filters.priceMax !== undefined ? lte(bounty.price, filters.priceMax) : undefined,
+    filters.minEngagement !== undefined ? gte(bounty.engagementScore, filters.minEngagement) : undefined,
+    filters.createdAfter ? gte(bounty.createdAt, filters.createdAfter) : undefined,
+    mutualActivity !== undefined
+      ? mutualActivity.length > 0
+        ? inArray(
+            bounty.id,
+            sql`(select ${bountyInteraction.bountyId} from ${bountyInteraction} where ${inArray(bountyInteraction.userId, mutualActivity)})`
+          )
+        : sql`false`
+      : undefined
+  );
+}
+
+/**
+ * Subquery selecting the ids of matching bounties, for scoping related
+ * tables (tags, interactions) to the candidates instead of loading them whole
+ */
+export function filteredBountyIds(filters: BountyFilters): SQL {
+  const where = buildBountyFilter(filters);
+  return where
+    ? sql`(select ${bounty.id} from ${bounty} where ${where})`
+    : sql`(select ${bounty.id} from ${bounty})`;
+}
+
+// ============ IN MEMORY ============
+
+/**
+ * In-memory equivalent of buildBountyFilter
+ *
+ * @param tagIds - the bounty's tag ids
+ * @param mutualBountyIds - bounties the users in `mutualActivity` interacted with
+ */
+export function matchesBountyFilter(
+  row: Pick<BountyRow, "status" | "expiresAt" | "tier" | "price" | "engagementScore" | "createdAt" | "id">,
+  tagIds: number[],
+  mutualBountyIds: Set<number>,
+  filters: BountyFilters
+): boolean {
+  const { statuses, activeAt, tierFilter, tagFilter } = filters;
+
+  if (statuses && statuses.length > 0 && !statuses.includes(row.status)) return false;
+  if (activeAt) {
+    if (row.status === "expired") return false;
+    if (row.expiresAt !== null && row.expiresAt.getTime() <= activeAt.getTime()) return false;
+  }
+  if (tierFilter && tierFilter.length > 0 && !tierFilter.includes(row.tier)) return false;
+  if (tagFilter && tagFilter.length > 0 && !tagIds.some((id) => tagFilter.includes(id))) return false;
+  if (filters.priceMin !== undefined && row.price < filters.priceMin) return false;
+  if (filters.priceMax !== undefined && row.price > filters.priceMax) return false;
+  if (filters.minEngagement !== undefined && row.engagementScore < filters.minEngagement) return false;
+  if (filters.createdAfter && row.createdAt.getTime() < filters.createdAfter.getTime()) return false;
+  if (filters.mutualActivity !== undefined && !mutualBountyIds.has(row.id)) return false;
+
+  return true;
+}
@@ -0,0 +1,69 @@
+/**
+ * Bounty Engagement Score
+ *
+ * Shared by the seed and the API so `bounty.engagementScore` (0-100) means
+ * the same thing everywhere.
+ *
+ * Lifetime score (0-100):
+ *   - views: 1 point per 100, max 30
+ *   - submissions: 2 points each, max 40
+ *   - likes: 0.5 points each, max 30
+ *
+ * With velocity, recent activity (from bountyInteraction, inside a time
+ * window) is projected to a 30-day rate, scored with the same formula and
+ * blended in, so bounties that stopped getting attention fade over time.
+ */
+
+// ============ TYPES ============
+
+export interface EngagementCounts {
+  views: number;
+  submissions: number;
+  likes: number;
+}
+
+// ============ CONSTANTS ============
+
+// Recent activity window used for velocity
+export const ENGAGEMENT_VELOCITY_WINDOW_DAYS = 7;
+
+// Share of the final score that comes from recent activity
+const VELOCITY_WEIGHT = 0.4;
+
+// Recent counts are projected to this many days before scoring
+const VELOCITY_REFERENCE_DAYS = 30;
+
+// ============ SCORING ============
+
+/**
+ * Lifetime engagement score from raw counters
+ * Returns 0-100
+ */
+export function calculateEngagementScore(views: number, submissions: number, likes: number): number {
+  const viewScore = Math.min(views / 100, 30);
+  const submissionScore = Math.min(submissions * 2, 40);
+  const likeScore = Math.min(likes * 0.5, 30);
+  return Math.min(viewScore + submissionScore + likeScore, 100);
+}
+
+/**
+ * Engagement score blending lifetime counters with recent velocity
+ * Returns 0-100
+ */
+export function calculateEngagementScoreWithVelocity(
+  lifetime: EngagementCounts,
+  recent: EngagementCounts,
+  windowDays: number = ENGAGEMENT_VELOCITY_WINDOW_DAYS
+): number {
+  const lifetimeScore = calculateEngagementScore(lifetime.views, lifetime.submissions, lifetime.likes);
+  if (windowDays <= 0) return lifetimeScore;
+
+  const scale = VELOCITY_REFERENCE_DAYS / windowDays;
+  const velocityScore = calculateEngagementScore(
+    recent.views * scale,
+    recent.submissions * scale,
+    recent.likes * scale
+  );
+
+  return lifetimeScore * (1 - VELOCITY_WEIGHT) + velocityScore * VELOCITY_WEIGHT;
+}
@@ -1,6 +1,6 @@
 import { env } from "@algorithim-test/env/server";
-import { neon, neonConfig } from "@neondatabase/serverless";
-import { drizzle } from "drizzle-orm/neon-http";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
 import ws from "ws";
 
 import * as schema from "./schema";
@@ -10,5 +10,13 @@ neonConfig.webSocketConstructor = ws;
 // To work in edge environments (Cloudflare Workers, Vercel Edge, etc.), enable querying over fetch
 // neonConfig.poolQueryViaFetch = true
 
-const sql = neon(env.DATABASE_URL);
-export const db = drizzle(sql, { schema });
+// WebSocket pool rather than HTTP, for interactive transactions (db.transaction)
+const pool = new Pool({ connectionString: env.DATABASE_URL });
+export const db = drizzle(pool, { schema });
+
+export type Database = typeof db;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Either the pool or an open transaction: functions that take one join the
+// caller's transaction when given one
+export type Executor = Database | Transaction;
@@ -0,0 +1,37 @@
+CREATE TYPE "public"."experiment_status" AS ENUM('draft', 'running', 'paused', 'concluded');--> statement-breakpoint
+CREATE TABLE "experiment" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"status" "experiment_status" DEFAULT 'draft' NOT NULL,
+	"variants" jsonb NOT NULL,
+	"winner_variant_id" text,
+	"created_by_id" text,
+	"started_at" timestamp,
+	"concluded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "experiment_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "experiment_assignment" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"experiment_id" integer NOT NULL,
+	"user_id" text NOT NULL,
+	"variant_id" text NOT NULL,
+	"assigned_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "recommendation_log" ADD COLUMN "strategy_id" text;--> statement-breakpoint
+ALTER TABLE "recommendation_log" ADD COLUMN "experiment_id" integer;--> statement-breakpoint
+ALTER TABLE "recommendation_log" ADD COLUMN "variant_id" text;--> statement-breakpoint
+ALTER TABLE "experiment" ADD CONSTRAINT "experiment_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "experiment_assignment" ADD CONSTRAINT "experiment_assignment_experiment_id_experiment_id_fk" FOREIGN KEY ("experiment_id") REFERENCES "public"."experiment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "experiment_assignment" ADD CONSTRAINT "experiment_assignment_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "experiment_status_idx" ON "experiment" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "experiment_assignment_unique_idx" ON "experiment_assignment" USING btree ("experiment_id","user_id");--> statement-breakpoint
+CREATE INDEX "experiment_assignment_user_idx" ON "experiment_assignment" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "experiment_assignment_variant_idx" ON "experiment_assignment" USING btree ("experiment_id","variant_id");--> statement-breakpoint
+ALTER TABLE "recommendation_log" ADD CONSTRAINT "recommendation_log_experiment_id_experiment_id_fk" FOREIGN KEY ("experiment_id") REFERENCES "public"."experiment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recommendation_log_variant_idx" ON "recommendation_log" USING btree ("experiment_id","variant_id");
\ No newline at end of file
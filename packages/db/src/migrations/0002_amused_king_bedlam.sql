@@ -0,0 +1,18 @@
+CREATE TYPE "public"."recommendation_slot" AS ENUM('primary', 'secondary');--> statement-breakpoint
+CREATE TABLE "recommendation_attribution" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"log_id" integer NOT NULL,
+	"slot" "recommendation_slot" NOT NULL,
+	"bounty_id" integer NOT NULL,
+	"interaction_id" integer NOT NULL,
+	"interaction_type" text NOT NULL,
+	"delay_seconds" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "recommendation_attribution" ADD CONSTRAINT "recommendation_attribution_log_id_recommendation_log_id_fk" FOREIGN KEY ("log_id") REFERENCES "public"."recommendation_log"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recommendation_attribution" ADD CONSTRAINT "recommendation_attribution_bounty_id_bounty_id_fk" FOREIGN KEY ("bounty_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recommendation_attribution" ADD CONSTRAINT "recommendation_attribution_interaction_id_bounty_interaction_id_fk" FOREIGN KEY ("interaction_id") REFERENCES "public"."bounty_interaction"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "recommendation_attribution_unique_idx" ON "recommendation_attribution" USING btree ("log_id","slot","interaction_id");--> statement-breakpoint
+CREATE INDEX "recommendation_attribution_log_idx" ON "recommendation_attribution" USING btree ("log_id");--> statement-breakpoint
+CREATE INDEX "recommendation_attribution_type_idx" ON "recommendation_attribution" USING btree ("interaction_type");
\ No newline at end of file
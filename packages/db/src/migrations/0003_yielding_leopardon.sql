@@ -0,0 +1,3 @@
+ALTER TABLE "user_behavior_tag" ADD COLUMN "last_interaction_at" timestamp;--> statement-breakpoint
+DELETE FROM "user_behavior_tag" a USING "user_behavior_tag" b WHERE a."user_id" = b."user_id" AND a."tag_id" = b."tag_id" AND a."id" > b."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "user_behavior_tag_user_tag_idx" ON "user_behavior_tag" USING btree ("user_id","tag_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."bounty_status" ADD VALUE 'closed';
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."submission_status" AS ENUM('pending', 'accepted', 'rejected', 'withdrawn');--> statement-breakpoint
+CREATE TABLE "bounty_submission" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"bounty_id" integer NOT NULL,
+	"submitter_id" text NOT NULL,
+	"link" text,
+	"description" text NOT NULL,
+	"status" "submission_status" DEFAULT 'pending' NOT NULL,
+	"reviewer_notes" text,
+	"reviewed_by_id" text,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bounty_submission" ADD CONSTRAINT "bounty_submission_bounty_id_bounty_id_fk" FOREIGN KEY ("bounty_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bounty_submission" ADD CONSTRAINT "bounty_submission_submitter_id_user_id_fk" FOREIGN KEY ("submitter_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bounty_submission" ADD CONSTRAINT "bounty_submission_reviewed_by_id_user_id_fk" FOREIGN KEY ("reviewed_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bounty_submission_bounty_idx" ON "bounty_submission" USING btree ("bounty_id");--> statement-breakpoint
+CREATE INDEX "bounty_submission_submitter_idx" ON "bounty_submission" USING btree ("submitter_id");--> statement-breakpoint
+CREATE INDEX "bounty_submission_status_idx" ON "bounty_submission" USING btree ("status");
\ No newline at end of file
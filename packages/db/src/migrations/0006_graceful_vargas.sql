@@ -0,0 +1,3 @@
+CREATE TYPE "public"."bounty_type" AS ENUM('bug_fix', 'feature', 'full_project', 'code_review', 'docs');--> statement-breakpoint
+ALTER TABLE "bounty" ADD COLUMN "type" "bounty_type" DEFAULT 'feature' NOT NULL;--> statement-breakpoint
+CREATE INDEX "bounty_type_idx" ON "bounty" USING btree ("type");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "tag_parent" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"child_id" integer NOT NULL,
+	"parent_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tag_relation" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tag_id" integer NOT NULL,
+	"related_tag_id" integer NOT NULL,
+	"weight" real NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tag_parent" ADD CONSTRAINT "tag_parent_child_id_tag_id_fk" FOREIGN KEY ("child_id") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tag_parent" ADD CONSTRAINT "tag_parent_parent_id_tag_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tag_relation" ADD CONSTRAINT "tag_relation_tag_id_tag_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tag_relation" ADD CONSTRAINT "tag_relation_related_tag_id_tag_id_fk" FOREIGN KEY ("related_tag_id") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tag_parent_child_parent_idx" ON "tag_parent" USING btree ("child_id","parent_id");--> statement-breakpoint
+CREATE INDEX "tag_parent_parent_idx" ON "tag_parent" USING btree ("parent_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tag_relation_pair_idx" ON "tag_relation" USING btree ("tag_id","related_tag_id");--> statement-breakpoint
+CREATE INDEX "tag_relation_related_idx" ON "tag_relation" USING btree ("related_tag_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "tag_embedding" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tag_id" integer NOT NULL,
+	"vector" jsonb NOT NULL,
+	"dimensions" integer NOT NULL,
+	"trained_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tag_embedding_tag_id_unique" UNIQUE("tag_id")
+);
+--> statement-breakpoint
+ALTER TABLE "tag_embedding" ADD CONSTRAINT "tag_embedding_tag_id_tag_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "bounty_neighbor" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"bounty_id" integer NOT NULL,
+	"neighbor_id" integer NOT NULL,
+	"similarity" real NOT NULL,
+	"co_users" integer NOT NULL,
+	"computed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bounty_neighbor" ADD CONSTRAINT "bounty_neighbor_bounty_id_bounty_id_fk" FOREIGN KEY ("bounty_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bounty_neighbor" ADD CONSTRAINT "bounty_neighbor_neighbor_id_bounty_id_fk" FOREIGN KEY ("neighbor_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "bounty_neighbor_pair_idx" ON "bounty_neighbor" USING btree ("bounty_id","neighbor_id");--> statement-breakpoint
+CREATE INDEX "bounty_neighbor_neighbor_idx" ON "bounty_neighbor" USING btree ("neighbor_id");
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "user_bounty_score" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"bounty_id" integer NOT NULL,
+	"strategy_id" text NOT NULL,
+	"relevance_score" real NOT NULL,
+	"final_score" real NOT NULL,
+	"details" jsonb NOT NULL,
+	"computed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_score_cache" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"strategy_id" text NOT NULL,
+	"computed_at" timestamp NOT NULL,
+	"synced_at" timestamp NOT NULL,
+	"stale_at" timestamp,
+	"stale_reason" text,
+	"candidate_count" integer DEFAULT 0 NOT NULL,
+	"cached_count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bounty" ADD COLUMN "listed_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_bounty_score" ADD CONSTRAINT "user_bounty_score_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_bounty_score" ADD CONSTRAINT "user_bounty_score_bounty_id_bounty_id_fk" FOREIGN KEY ("bounty_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_score_cache" ADD CONSTRAINT "user_score_cache_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "user_bounty_score_unique_idx" ON "user_bounty_score" USING btree ("user_id","strategy_id","bounty_id");--> statement-breakpoint
+CREATE INDEX "user_bounty_score_rank_idx" ON "user_bounty_score" USING btree ("user_id","strategy_id","final_score");--> statement-breakpoint
+CREATE INDEX "user_bounty_score_bounty_idx" ON "user_bounty_score" USING btree ("bounty_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "user_score_cache_unique_idx" ON "user_score_cache" USING btree ("user_id","strategy_id");--> statement-breakpoint
+CREATE INDEX "user_score_cache_stale_idx" ON "user_score_cache" USING btree ("stale_at");--> statement-breakpoint
+CREATE INDEX "bounty_listed_idx" ON "bounty" USING btree ("listed_at");
\ No newline at end of file
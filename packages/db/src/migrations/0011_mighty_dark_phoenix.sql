@@ -0,0 +1,13 @@
+CREATE TABLE "feed_snapshot" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"strategy_id" text NOT NULL,
+	"query_key" text NOT NULL,
+	"entries" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "feed_snapshot" ADD CONSTRAINT "feed_snapshot_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "feed_snapshot_user_idx" ON "feed_snapshot" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "feed_snapshot_expires_idx" ON "feed_snapshot" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "bounty_search_idx" ON "bounty" USING gin ((setweight(to_tsvector('english', "title"), 'A') || setweight(to_tsvector('english', "description"), 'B')));
\ No newline at end of file
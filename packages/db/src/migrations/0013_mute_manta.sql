@@ -0,0 +1,21 @@
+CREATE TYPE "public"."interaction_event_status" AS ENUM('pending', 'done', 'dead');--> statement-breakpoint
+CREATE TABLE "interaction_event" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"bounty_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"status" "interaction_event_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"available_at" timestamp DEFAULT now() NOT NULL,
+	"processed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bounty_interaction" ADD COLUMN "event_id" integer;--> statement-breakpoint
+ALTER TABLE "interaction_event" ADD CONSTRAINT "interaction_event_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "interaction_event" ADD CONSTRAINT "interaction_event_bounty_id_bounty_id_fk" FOREIGN KEY ("bounty_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "interaction_event_status_idx" ON "interaction_event" USING btree ("status","id");--> statement-breakpoint
+CREATE INDEX "interaction_event_user_idx" ON "interaction_event" USING btree ("user_id","id");--> statement-breakpoint
+ALTER TABLE "bounty_interaction" ADD CONSTRAINT "bounty_interaction_event_id_interaction_event_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."interaction_event"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "bounty_interaction_event_idx" ON "bounty_interaction" USING btree ("event_id");
\ No newline at end of file
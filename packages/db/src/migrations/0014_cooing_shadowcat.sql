@@ -0,0 +1,17 @@
+CREATE TABLE "bounty_viewer" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"bounty_id" integer NOT NULL,
+	"first_viewed_at" timestamp DEFAULT now() NOT NULL,
+	"last_counted_at" timestamp DEFAULT now() NOT NULL,
+	"view_count" integer DEFAULT 1 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bounty" ADD COLUMN "unique_viewers" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "bounty_viewer" ADD CONSTRAINT "bounty_viewer_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bounty_viewer" ADD CONSTRAINT "bounty_viewer_bounty_id_bounty_id_fk" FOREIGN KEY ("bounty_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "bounty_viewer_pair_idx" ON "bounty_viewer" USING btree ("user_id","bounty_id");--> statement-breakpoint
+CREATE INDEX "bounty_viewer_bounty_idx" ON "bounty_viewer" USING btree ("bounty_id");--> statement-breakpoint
+INSERT INTO "bounty_viewer" ("user_id", "bounty_id", "first_viewed_at", "last_counted_at", "view_count")
+SELECT "user_id", "bounty_id", min("viewed_at"), max("viewed_at"), count(*)::int FROM "bounty_view" GROUP BY "user_id", "bounty_id";--> statement-breakpoint
+UPDATE "bounty" SET "unique_viewers" = v."viewers" FROM (SELECT "bounty_id", count(*)::int AS "viewers" FROM "bounty_viewer" GROUP BY "bounty_id") v WHERE "bounty"."id" = v."bounty_id";
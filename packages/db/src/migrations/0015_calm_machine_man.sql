@@ -0,0 +1,41 @@
+CREATE TYPE "public"."divergence_status" AS ENUM('open', 'resolved', 'expired');--> statement-breakpoint
+CREATE TYPE "public"."divergence_type" AS ENUM('new_interest', 'unused_skill', 'price_range');--> statement-breakpoint
+CREATE TABLE "bounty_impression" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"bounty_id" integer NOT NULL,
+	"shown_count" integer DEFAULT 1 NOT NULL,
+	"first_shown_at" timestamp DEFAULT now() NOT NULL,
+	"last_shown_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "divergence_prompt" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"type" "divergence_type" NOT NULL,
+	"tag_id" integer,
+	"status" "divergence_status" DEFAULT 'open' NOT NULL,
+	"details" jsonb NOT NULL,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	"shown_at" timestamp,
+	"response" text,
+	"responded_at" timestamp,
+	"snoozed_until" timestamp,
+	"closed_at" timestamp
+);
+--> statement-breakpoint
+DROP INDEX "user_behavior_tag_divergence_idx";--> statement-breakpoint
+ALTER TABLE "bounty_impression" ADD CONSTRAINT "bounty_impression_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bounty_impression" ADD CONSTRAINT "bounty_impression_bounty_id_bounty_id_fk" FOREIGN KEY ("bounty_id") REFERENCES "public"."bounty"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "divergence_prompt" ADD CONSTRAINT "divergence_prompt_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "divergence_prompt" ADD CONSTRAINT "divergence_prompt_tag_id_tag_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "bounty_impression_pair_idx" ON "bounty_impression" USING btree ("user_id","bounty_id");--> statement-breakpoint
+CREATE INDEX "bounty_impression_bounty_idx" ON "bounty_impression" USING btree ("bounty_id");--> statement-breakpoint
+CREATE INDEX "divergence_prompt_user_idx" ON "divergence_prompt" USING btree ("user_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "divergence_prompt_open_idx" ON "divergence_prompt" USING btree ("user_id","type",coalesce("tag_id", 0)) WHERE "divergence_prompt"."status" = 'open';--> statement-breakpoint
+CREATE INDEX "divergence_prompt_tag_idx" ON "divergence_prompt" USING btree ("tag_id");--> statement-breakpoint
+ALTER TABLE "user_behavior_price" DROP COLUMN "last_explicit_min";--> statement-breakpoint
+ALTER TABLE "user_behavior_price" DROP COLUMN "last_explicit_max";--> statement-breakpoint
+ALTER TABLE "user_behavior_price" DROP COLUMN "divergence_detected";--> statement-breakpoint
+ALTER TABLE "user_behavior_tag" DROP COLUMN "last_explicit_score";--> statement-breakpoint
+ALTER TABLE "user_behavior_tag" DROP COLUMN "divergence_detected";
\ No newline at end of file
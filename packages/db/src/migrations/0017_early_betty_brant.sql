@@ -0,0 +1,2 @@
+DELETE FROM "user_tag" a USING "user_tag" b WHERE a."user_id" = b."user_id" AND a."tag_id" = b."tag_id" AND a."id" < b."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "user_tag_user_tag_idx" ON "user_tag" USING btree ("user_id","tag_id");
\ No newline at end of file
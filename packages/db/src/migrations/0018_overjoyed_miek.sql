@@ -0,0 +1,2 @@
+ALTER TABLE "user_tag" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+UPDATE "user_tag" SET "created_at" = "updated_at";
\ No newline at end of file
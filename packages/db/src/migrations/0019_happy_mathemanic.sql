@@ -0,0 +1,10 @@
+CREATE TABLE "access_tier_change" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"from_tier" "bounty_tier" NOT NULL,
+	"to_tier" "bounty_tier" NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "access_tier_change" ADD CONSTRAINT "access_tier_change_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "access_tier_change_user_idx" ON "access_tier_change" USING btree ("user_id","changed_at");
\ No newline at end of file
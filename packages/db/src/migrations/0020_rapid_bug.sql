@@ -0,0 +1 @@
+ALTER TABLE "feed_snapshot" ADD COLUMN "total" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+UPDATE "bounty_submission" a SET "status" = 'withdrawn' FROM "bounty_submission" b WHERE a."bounty_id" = b."bounty_id" AND a."submitter_id" = b."submitter_id" AND a."status" = 'pending' AND b."status" = 'pending' AND a."id" < b."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "bounty_submission_pending_idx" ON "bounty_submission" USING btree ("bounty_id","submitter_id") WHERE "bounty_submission"."status" = 'pending';
\ No newline at end of file
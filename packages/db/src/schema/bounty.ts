@@ -1,5 +1,6 @@
-import { relations } from "drizzle-orm";
+import { relations, sql, type SQL } from "drizzle-orm";
 import {
+  type AnyPgColumn,
   pgTable,
   text,
   serial,
@@ -8,6 +9,7 @@ import {
   real,
   pgEnum,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { user } from "./auth";
 import { tag } from "./tag";
@@ -19,8 +21,38 @@ export const bountyStatusEnum = pgEnum("bounty_status", [
   "claimed",
   "completed",
   "expired",
+  "closed", // Closed by the creator before completion
 ]);
 
+// Kind of work (matches the bounty types offered in onboarding)
+export const bountyTypeEnum = pgEnum("bounty_type", [
+  "bug_fix",
+  "feature",
+  "full_project",
+  "code_review",
+  "docs",
+]);
+
+export const submissionStatusEnum = pgEnum("submission_status", [
+  "pending",
+  "accepted",
+  "rejected",
+  "withdrawn",
+]);
+
+// Delivery state of an interaction outbox event
+export const interactionEventStatusEnum = pgEnum("interaction_event_status", [
+  "pending",
+  "done",
+  "dead", // Gave up after repeated failures (dead letter)
+]);
+
+// Weighted full-text document for bounty search (title ranks above description).
+// The GIN index below and search queries must use this same expression.
+export function bountySearchVector(columns: { title: AnyPgColumn; description: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', ${columns.title}), 'A') || setweight(to_tsvector('english', ${columns.description}), 'B'))`;
+}
+
 // Bounties table
 export const bounty = pgTable(
   "bounty",
@@ -30,10 +62,12 @@ export const bounty = pgTable(
     description: text("description").notNull(),
     price: integer("price").notNull(), // In USD
     tier: bountyTierEnum("tier").notNull(),
+    type: bountyTypeEnum("type").default("feature").notNull(),
     status: bountyStatusEnum("status").default("open").notNull(),
 
     // Engagement metrics
-    views: integer("views").default(0).notNull(),
+    views: integer("views").default(0).notNull(), // Counted views, deduplicated per user (see bountyViewer)
+    uniqueViewers: integer("unique_viewers").default(0).notNull(),
     submissions: integer("submissions").default(0).notNull(),
     likes: integer("likes").default(0).notNull(),
     engagementScore: real("engagement_score").default(0).notNull(), // Computed 0-100
@@ -50,13 +84,17 @@ export const bounty = pgTable(
       .notNull(),
     expiresAt: timestamp("expires_at"),
     completedAt: timestamp("completed_at"),
+    listedAt: timestamp("listed_at").defaultNow().notNull(), // Last (re)opened or edited; score cache sync watermark
   },
   (table) => [
     index("bounty_tier_idx").on(table.tier),
+    index("bounty_type_idx").on(table.type),
     index("bounty_status_idx").on(table.status),
     index("bounty_creator_idx").on(table.creatorId),
     index("bounty_price_idx").on(table.price),
     index("bounty_engagement_idx").on(table.engagementScore),
+    index("bounty_listed_idx").on(table.listedAt),
+    index("bounty_search_idx").using("gin", bountySearchVector(table)),
   ]
 );
 
@@ -100,6 +138,28 @@ export const bountyView = pgTable(
   ]
 );
 
+// One row per user and bounty viewed. Dedups views: a revisit only counts
+// again once the dedup window has passed since lastCountedAt.
+export const bountyViewer = pgTable(
+  "bounty_viewer",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    bountyId: integer("bounty_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    firstViewedAt: timestamp("first_viewed_at").defaultNow().notNull(),
+    lastCountedAt: timestamp("last_counted_at").defaultNow().notNull(),
+    viewCount: integer("view_count").default(1).notNull(), // Counted views by this user
+  },
+  (table) => [
+    uniqueIndex("bounty_viewer_pair_idx").on(table.userId, table.bountyId),
+    index("bounty_viewer_bounty_idx").on(table.bountyId),
+  ]
+);
+
 // User interactions with bounties (for engagement score)
 export const bountyInteraction = pgTable(
   "bounty_interaction",
@@ -112,12 +172,103 @@ export const bountyInteraction = pgTable(
       .references(() => bounty.id, { onDelete: "cascade" })
       .notNull(),
     type: text("type").notNull(), // "view", "like", "submit", "claim", "complete"
+    eventId: integer("event_id").references(() => interactionEvent.id, { onDelete: "set null" }),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
     index("bounty_interaction_user_idx").on(table.userId),
     index("bounty_interaction_bounty_idx").on(table.bountyId),
     index("bounty_interaction_type_idx").on(table.type),
+    uniqueIndex("bounty_interaction_event_idx").on(table.eventId),
+  ]
+);
+
+// Append-only outbox of interactions, applied by the interaction worker
+// (see api services/interaction-events.ts). Each user's events are applied
+// in id order; only the delivery columns change after insert.
+export const interactionEvent = pgTable(
+  "interaction_event",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    bountyId: integer("bounty_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    type: text("type").notNull(), // bountyInteraction.type values, or "dwell" (a dwell report, no interaction)
+
+    // Delivery
+    status: interactionEventStatusEnum("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    lastError: text("last_error"),
+    availableAt: timestamp("available_at").defaultNow().notNull(), // Retry backoff: not applied before this
+    processedAt: timestamp("processed_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the interaction happened
+  },
+  (table) => [
+    index("interaction_event_status_idx").on(table.status, table.id),
+    index("interaction_event_user_idx").on(table.userId, table.id),
+  ]
+);
+
+// Work submitted by hunters, reviewed by the bounty creator
+export const bountySubmission = pgTable(
+  "bounty_submission",
+  {
+    id: serial("id").primaryKey(),
+    bountyId: integer("bounty_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    submitterId: text("submitter_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    link: text("link"), // PR, repo or demo URL
+    description: text("description").notNull(),
+    status: submissionStatusEnum("status").default("pending").notNull(),
+
+    // Review
+    reviewerNotes: text("reviewer_notes"),
+    reviewedById: text("reviewed_by_id").references(() => user.id, { onDelete: "set null" }),
+    reviewedAt: timestamp("reviewed_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("bounty_submission_bounty_idx").on(table.bountyId),
+    index("bounty_submission_submitter_idx").on(table.submitterId),
+    index("bounty_submission_status_idx").on(table.status),
+    // At most one pending submission per submitter and bounty
+    uniqueIndex("bounty_submission_pending_idx")
+      .on(table.bountyId, table.submitterId)
+      .where(sql`${table.status} = 'pending'`),
+  ]
+);
+
+// Item-item collaborative filtering neighbors (top-k per bounty by
+// co-interaction similarity), rebuilt by the bounty-neighbors job
+export const bountyNeighbor = pgTable(
+  "bounty_neighbor",
+  {
+    id: serial("id").primaryKey(),
+    bountyId: integer("bounty_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    neighborId: integer("neighbor_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    similarity: real("similarity").notNull(), // 0-1, shrunk cosine over co-interacting users
+    coUsers: integer("co_users").notNull(),   // Users who interacted with both
+    computedAt: timestamp("computed_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("bounty_neighbor_pair_idx").on(table.bountyId, table.neighborId),
+    index("bounty_neighbor_neighbor_idx").on(table.neighborId),
   ]
 );
 
@@ -135,7 +286,9 @@ export const bountyRelations = relations(bounty, ({ one, many }) => ({
   }),
   tags: many(bountyTag),
   views: many(bountyView),
+  viewers: many(bountyViewer),
   interactions: many(bountyInteraction),
+  submissions: many(bountySubmission),
 }));
 
 export const bountyTagRelations = relations(bountyTag, ({ one }) => ({
@@ -160,6 +313,17 @@ export const bountyViewRelations = relations(bountyView, ({ one }) => ({
   }),
 }));
 
+export const bountyViewerRelations = relations(bountyViewer, ({ one }) => ({
+  user: one(user, {
+    fields: [bountyViewer.userId],
+    references: [user.id],
+  }),
+  bounty: one(bounty, {
+    fields: [bountyViewer.bountyId],
+    references: [bounty.id],
+  }),
+}));
+
 export const bountyInteractionRelations = relations(bountyInteraction, ({ one }) => ({
   user: one(user, {
     fields: [bountyInteraction.userId],
@@ -170,3 +334,31 @@ export const bountyInteractionRelations = relations(bountyInteraction, ({ one })
     references: [bounty.id],
   }),
 }));
+
+export const interactionEventRelations = relations(interactionEvent, ({ one }) => ({
+  user: one(user, {
+    fields: [interactionEvent.userId],
+    references: [user.id],
+  }),
+  bounty: one(bounty, {
+    fields: [interactionEvent.bountyId],
+    references: [bounty.id],
+  }),
+}));
+
+export const bountySubmissionRelations = relations(bountySubmission, ({ one }) => ({
+  bounty: one(bounty, {
+    fields: [bountySubmission.bountyId],
+    references: [bounty.id],
+  }),
+  submitter: one(user, {
+    fields: [bountySubmission.submitterId],
+    references: [user.id],
+    relationName: "submissions",
+  }),
+  reviewedBy: one(user, {
+    fields: [bountySubmission.reviewedById],
+    references: [user.id],
+    relationName: "reviewedSubmissions",
+  }),
+}));
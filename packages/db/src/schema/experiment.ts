@@ -0,0 +1,109 @@
+import { relations } from "drizzle-orm";
+import {
+  pgTable,
+  text,
+  serial,
+  integer,
+  timestamp,
+  pgEnum,
+  index,
+  jsonb,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { user } from "./auth";
+
+// ============ ENUMS ============
+
+export const experimentStatusEnum = pgEnum("experiment_status", [
+  "draft",
+  "running",
+  "paused",
+  "concluded",
+]);
+
+// ============ TYPES ============
+
+// A variant maps a bucket of users to a scoring config
+export interface ExperimentVariant {
+  id: string;                 // e.g. "control", "treatment"
+  allocation: number;         // Relative share of traffic (normalized across variants)
+  strategyId: string;         // Registered scoring strategy to use
+  weights?: {                 // Optional weight overrides on top of the strategy
+    relevance: number;
+    social: number;
+    price: number;
+    engagement: number;
+    freshness?: number;       // Defaults to 0 (no freshness component)
+    preference?: number;      // Defaults to 0 (no preference component)
+    collaborative?: number;   // Defaults to 0 (no collaborative component)
+  };
+}
+
+// ============ EXPERIMENTS ============
+
+export const experiment = pgTable(
+  "experiment",
+  {
+    id: serial("id").primaryKey(),
+    key: text("key").notNull().unique(), // Stable key, also used as the bucketing salt
+    name: text("name").notNull(),
+    description: text("description"),
+    status: experimentStatusEnum("status").default("draft").notNull(),
+    variants: jsonb("variants").$type<ExperimentVariant[]>().notNull(),
+    winnerVariantId: text("winner_variant_id"),
+
+    createdById: text("created_by_id").references(() => user.id, { onDelete: "set null" }),
+    startedAt: timestamp("started_at"),
+    concludedAt: timestamp("concluded_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("experiment_status_idx").on(table.status),
+  ]
+);
+
+// Which variant each user landed in (deterministic, but stored for analysis)
+export const experimentAssignment = pgTable(
+  "experiment_assignment",
+  {
+    id: serial("id").primaryKey(),
+    experimentId: integer("experiment_id")
+      .references(() => experiment.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    variantId: text("variant_id").notNull(),
+    assignedAt: timestamp("assigned_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("experiment_assignment_unique_idx").on(table.experimentId, table.userId),
+    index("experiment_assignment_user_idx").on(table.userId),
+    index("experiment_assignment_variant_idx").on(table.experimentId, table.variantId),
+  ]
+);
+
+// ============ RELATIONS ============
+
+export const experimentRelations = relations(experiment, ({ one, many }) => ({
+  createdBy: one(user, {
+    fields: [experiment.createdById],
+    references: [user.id],
+  }),
+  assignments: many(experimentAssignment),
+}));
+
+export const experimentAssignmentRelations = relations(experimentAssignment, ({ one }) => ({
+  experiment: one(experiment, {
+    fields: [experimentAssignment.experimentId],
+    references: [experiment.id],
+  }),
+  user: one(user, {
+    fields: [experimentAssignment.userId],
+    references: [user.id],
+  }),
+}));
@@ -8,3 +8,4 @@ export * from "./bounty";
 export * from "./user-profile";
 export * from "./recommendation";
 export * from "./onboarding";
+export * from "./experiment";
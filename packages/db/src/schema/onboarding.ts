@@ -1,4 +1,4 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
   pgTable,
   text,
@@ -6,12 +6,13 @@ import {
   integer,
   timestamp,
   real,
-  boolean,
   pgEnum,
   index,
+  uniqueIndex,
   jsonb,
 } from "drizzle-orm/pg-core";
 import { user } from "./auth";
+import { tag } from "./tag";
 
 // ============ ENUMS ============
 
@@ -39,6 +40,18 @@ export const riskToleranceEnum = pgEnum("risk_tolerance", [
   "adventurous",    // new clients, vague specs, higher pay
 ]);
 
+export const divergenceTypeEnum = pgEnum("divergence_type", [
+  "new_interest",   // engaging with a tag not in the profile
+  "unused_skill",   // strong profile tag the user keeps passing over
+  "price_range",    // engaging outside the onboarding price range
+]);
+
+export const divergenceStatusEnum = pgEnum("divergence_status", [
+  "open",           // detected, waiting for the user
+  "resolved",       // the user responded
+  "expired",        // behavior moved back in line before a response
+]);
+
 // ============ ONBOARDING (Explicit Profile) ============
 
 export const userOnboarding = pgTable(
@@ -101,7 +114,8 @@ export const userBehaviorTag = pgTable(
       .notNull(),
     tagId: integer("tag_id").notNull(),
 
-    // Behavior signals (each 0-100, weighted differently)
+    // Behavior signals. Counts are lifetime totals; scores are time-decayed
+    // (see TAG_SCORE_HALF_LIFE_DAYS in tag-blend.ts) and recomputed from bountyInteraction
     viewCount: integer("view_count").default(0).notNull(),
     viewScore: real("view_score").default(0).notNull(),        // Normalized 0-10
 
@@ -118,9 +132,8 @@ export const userBehaviorTag = pgTable(
     // Formula: views*0.1 + likes*0.2 + submits*0.3 + completes*0.4
     implicitScore: real("implicit_score").default(0).notNull(), // 0-10
 
-    // For divergence detection
-    lastExplicitScore: real("last_explicit_score"),  // What user said they were
-    divergenceDetected: boolean("divergence_detected").default(false),
+    // Most recent interaction with this tag (decay is measured from each interaction)
+    lastInteractionAt: timestamp("last_interaction_at"),
 
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -130,8 +143,8 @@ export const userBehaviorTag = pgTable(
   (table) => [
     index("user_behavior_tag_user_idx").on(table.userId),
     index("user_behavior_tag_tag_idx").on(table.tagId),
+    uniqueIndex("user_behavior_tag_user_tag_idx").on(table.userId, table.tagId),
     index("user_behavior_tag_implicit_idx").on(table.implicitScore),
-    index("user_behavior_tag_divergence_idx").on(table.divergenceDetected),
   ]
 );
 
@@ -155,11 +168,6 @@ export const userBehaviorPrice = pgTable(
     implicitPriceMin: real("implicit_price_min"),
     implicitPriceMax: real("implicit_price_max"),
 
-    // For divergence detection
-    lastExplicitMin: real("last_explicit_min"),
-    lastExplicitMax: real("last_explicit_max"),
-    divergenceDetected: boolean("divergence_detected").default(false),
-
     updatedAt: timestamp("updated_at")
       .defaultNow()
       .$onUpdate(() => new Date())
@@ -192,7 +200,7 @@ export const userBlendConfig = pgTable(
     totalInteractions: integer("total_interactions").default(0).notNull(),
 
     // Thresholds for "are you sure?" prompts
-    divergenceThreshold: real("divergence_threshold").default(3.0).notNull(), // Score difference to trigger
+    divergenceThreshold: real("divergence_threshold").default(3.0).notNull(), // Implicit score (0-10) that counts as real engagement
     lastDivergencePrompt: timestamp("last_divergence_prompt"),
     divergencePromptCount: integer("divergence_prompt_count").default(0).notNull(),
 
@@ -206,6 +214,64 @@ export const userBlendConfig = pgTable(
   ]
 );
 
+// ============ DIVERGENCE ============
+
+// Divergence prompts ("are you sure?") and the user's responses. One open
+// prompt per user, type and tag at a time; resolved and expired prompts stay
+// as history, and a snoozed or "never ask again" response holds back new
+// prompts for the same type and tag.
+export const divergencePrompt = pgTable(
+  "divergence_prompt",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    type: divergenceTypeEnum("type").notNull(),
+    tagId: integer("tag_id").references(() => tag.id, { onDelete: "cascade" }), // Null for price_range
+    status: divergenceStatusEnum("status").default("open").notNull(),
+
+    // What the detector saw (refreshed while open)
+    details: jsonb("details").$type<DivergenceDetails>().notNull(),
+
+    detectedAt: timestamp("detected_at").defaultNow().notNull(),
+    shownAt: timestamp("shown_at"), // First time it was served to the user
+
+    // Response
+    response: text("response"), // "add_skill", "remove_skill", "update_range", "keep", "dismiss", "snooze", "never"
+    respondedAt: timestamp("responded_at"),
+    snoozedUntil: timestamp("snoozed_until"), // No new prompt for this type and tag before this
+    closedAt: timestamp("closed_at"),
+  },
+  (table) => [
+    index("divergence_prompt_user_idx").on(table.userId, table.status),
+    // At most one open prompt per user, type and tag (price prompts have no tag)
+    uniqueIndex("divergence_prompt_open_idx")
+      .on(table.userId, table.type, sql`coalesce(${table.tagId}, 0)`)
+      .where(sql`${table.status} = 'open'`),
+    index("divergence_prompt_tag_idx").on(table.tagId),
+  ]
+);
+
+export type DivergenceDetails = TagDivergenceDetails | PriceDivergenceDetails;
+
+// new_interest and unused_skill
+export interface TagDivergenceDetails {
+  explicitScore: number; // 0-5, 0 when not in the profile
+  implicitScore: number; // 0-10
+  exposure: number;      // Bounties with the tag the user was shown
+  threshold: number;     // The user's divergenceThreshold at detection
+}
+
+// price_range
+export interface PriceDivergenceDetails {
+  explicitMin: number;   // Onboarding range
+  explicitMax: number;
+  implicitMin: number;   // Range from behavior
+  implicitMax: number;
+  typicalPrice: number;  // Average price of bounties engaged with
+}
+
 // ============ RELATIONS ============
 
 export const userOnboardingRelations = relations(userOnboarding, ({ one }) => ({
@@ -235,3 +301,14 @@ export const userBlendConfigRelations = relations(userBlendConfig, ({ one }) =>
     references: [user.id],
   }),
 }));
+
+export const divergencePromptRelations = relations(divergencePrompt, ({ one }) => ({
+  user: one(user, {
+    fields: [divergencePrompt.userId],
+    references: [user.id],
+  }),
+  tag: one(tag, {
+    fields: [divergencePrompt.tagId],
+    references: [tag.id],
+  }),
+}));
@@ -1,7 +1,19 @@
-import { pgTable, text, serial, integer, timestamp, real, index } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  serial,
+  integer,
+  timestamp,
+  real,
+  pgEnum,
+  index,
+  uniqueIndex,
+  jsonb,
+} from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { user } from "./auth";
-import { bounty } from "./bounty";
+import { bounty, bountyInteraction } from "./bounty";
+import { experiment } from "./experiment";
 
 // Recommendation log for tracking/debugging/analytics
 export const recommendationLog = pgTable(
@@ -27,6 +39,13 @@ export const recommendationLog = pgTable(
     // JSON explanations
     reasonPrimary: text("reason_primary"), // JSON: { relevance, social, price }
     reasonSecondary: text("reason_secondary"),
+
+    // Scoring config that produced this recommendation
+    strategyId: text("strategy_id"),
+    experimentId: integer("experiment_id").references(() => experiment.id, {
+      onDelete: "set null",
+    }),
+    variantId: text("variant_id"), // Experiment variant (null when not in an experiment)
     
     // Metadata
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -36,11 +55,153 @@ export const recommendationLog = pgTable(
     index("recommendation_log_time_idx").on(table.createdAt),
     index("recommendation_log_primary_idx").on(table.primaryBountyId),
     index("recommendation_log_secondary_idx").on(table.secondaryBountyId),
+    index("recommendation_log_variant_idx").on(table.experimentId, table.variantId),
+  ]
+);
+
+export const recommendationSlotEnum = pgEnum("recommendation_slot", ["primary", "secondary"]);
+
+// Links a logged impression to a later interaction with the same bounty
+// (written when the interaction happens, if it falls inside the attribution window)
+export const recommendationAttribution = pgTable(
+  "recommendation_attribution",
+  {
+    id: serial("id").primaryKey(),
+    logId: integer("log_id")
+      .references(() => recommendationLog.id, { onDelete: "cascade" })
+      .notNull(),
+    slot: recommendationSlotEnum("slot").notNull(),
+    bountyId: integer("bounty_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    interactionId: integer("interaction_id")
+      .references(() => bountyInteraction.id, { onDelete: "cascade" })
+      .notNull(),
+    interactionType: text("interaction_type").notNull(), // "view", "like", "submit", "claim", "complete"
+    delaySeconds: integer("delay_seconds").notNull(), // Time from impression to interaction
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("recommendation_attribution_unique_idx").on(
+      table.logId,
+      table.slot,
+      table.interactionId
+    ),
+    index("recommendation_attribution_log_idx").on(table.logId),
+    index("recommendation_attribution_type_idx").on(table.interactionType),
+  ]
+);
+
+// Score components kept alongside a cached score (mirrors ScoredBounty in the engine)
+export interface CachedScoreDetails {
+  tagMatch: number;
+  embedding: number | null;
+  social: number;
+  price: number;
+  freshness: number;
+  preference: { score: number; type: number | null; deadline: number | null; risk: number | null };
+  collaborative: { score: number; sources: number[]; reason: string | null };
+}
+
+// Precomputed per-user scores: the top candidates for one user and strategy,
+// so the feed can sort and paginate in SQL instead of scoring every bounty
+export const userBountyScore = pgTable(
+  "user_bounty_score",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    bountyId: integer("bounty_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    strategyId: text("strategy_id").notNull(),
+    relevanceScore: real("relevance_score").notNull(),
+    finalScore: real("final_score").notNull(),
+    details: jsonb("details").$type<CachedScoreDetails>().notNull(),
+    computedAt: timestamp("computed_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("user_bounty_score_unique_idx").on(table.userId, table.strategyId, table.bountyId),
+    index("user_bounty_score_rank_idx").on(table.userId, table.strategyId, table.finalScore),
+    index("user_bounty_score_bounty_idx").on(table.bountyId),
+  ]
+);
+
+// Cache bookkeeping, one row per user and strategy
+export const userScoreCache = pgTable(
+  "user_score_cache",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    strategyId: text("strategy_id").notNull(),
+    computedAt: timestamp("computed_at").notNull(), // Last full refresh
+    syncedAt: timestamp("synced_at").notNull(),     // Bounties listed after this are not scored yet
+    staleAt: timestamp("stale_at"),                 // Due time of a pending full refresh (tags/profile/behavior changed)
+    staleReason: text("stale_reason"),              // e.g. "tags", "profile", "onboarding", "behavior"
+    candidateCount: integer("candidate_count").default(0).notNull(), // Open bounties at last full refresh
+    cachedCount: integer("cached_count").default(0).notNull(),
+  },
+  (table) => [
+    uniqueIndex("user_score_cache_unique_idx").on(table.userId, table.strategyId),
+    index("user_score_cache_stale_idx").on(table.staleAt),
+  ]
+);
+
+// One bounty in a pinned feed ranking (scores are read from user_bounty_score)
+export interface FeedSnapshotEntry {
+  bountyId: number;
+  rawPosition: number; // Position before diversity re-ranking
+}
+
+// The top of a feed ranking pinned for cursor pagination, so pages don't
+// shift when scores change between loads
+export const feedSnapshot = pgTable(
+  "feed_snapshot",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    strategyId: text("strategy_id").notNull(),
+    queryKey: text("query_key").notNull(), // Sort, filters and diversity the ranking answers
+    entries: jsonb("entries").$type<FeedSnapshotEntry[]>().notNull(),
+    total: integer("total").default(0).notNull(), // Bounties in the whole feed when pinned
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+  },
+  (table) => [
+    index("feed_snapshot_user_idx").on(table.userId),
+    index("feed_snapshot_expires_idx").on(table.expiresAt),
+  ]
+);
+
+// Bounties shown to a user (feed pages, search results, recommendations),
+// one row per user and bounty. Divergence detection reads it as exposure.
+export const bountyImpression = pgTable(
+  "bounty_impression",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    bountyId: integer("bounty_id")
+      .references(() => bounty.id, { onDelete: "cascade" })
+      .notNull(),
+    shownCount: integer("shown_count").default(1).notNull(),
+    firstShownAt: timestamp("first_shown_at").defaultNow().notNull(),
+    lastShownAt: timestamp("last_shown_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("bounty_impression_pair_idx").on(table.userId, table.bountyId),
+    index("bounty_impression_bounty_idx").on(table.bountyId),
   ]
 );
 
 // Relations
-export const recommendationLogRelations = relations(recommendationLog, ({ one }) => ({
+export const recommendationLogRelations = relations(recommendationLog, ({ one, many }) => ({
   user: one(user, {
     fields: [recommendationLog.userId],
     references: [user.id],
@@ -55,4 +216,27 @@ export const recommendationLogRelations = relations(recommendationLog, ({ one })
     references: [bounty.id],
     relationName: "secondaryRecommendations",
   }),
+  experiment: one(experiment, {
+    fields: [recommendationLog.experimentId],
+    references: [experiment.id],
+  }),
+  attributions: many(recommendationAttribution),
 }));
+
+export const recommendationAttributionRelations = relations(
+  recommendationAttribution,
+  ({ one }) => ({
+    log: one(recommendationLog, {
+      fields: [recommendationAttribution.logId],
+      references: [recommendationLog.id],
+    }),
+    bounty: one(bounty, {
+      fields: [recommendationAttribution.bountyId],
+      references: [bounty.id],
+    }),
+    interaction: one(bountyInteraction, {
+      fields: [recommendationAttribution.interactionId],
+      references: [bountyInteraction.id],
+    }),
+  })
+);
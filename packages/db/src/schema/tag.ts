@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, jsonb, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
 
 // Tags table - categories like "typescript", "backend", "ui-design"
 export const tag = pgTable(
@@ -16,4 +16,55 @@ export const tag = pgTable(
   ]
 );
 
+// Tag hierarchy - "nextjs" is a child of "react", "react" of "javascript"
+export const tagParent = pgTable(
+  "tag_parent",
+  {
+    id: serial("id").primaryKey(),
+    childId: integer("child_id")
+      .references(() => tag.id, { onDelete: "cascade" })
+      .notNull(),
+    parentId: integer("parent_id")
+      .references(() => tag.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("tag_parent_child_parent_idx").on(table.childId, table.parentId),
+    index("tag_parent_parent_idx").on(table.parentId),
+  ]
+);
+
+// Weighted "related-to" edges between tags (symmetric, stored once per pair)
+export const tagRelation = pgTable(
+  "tag_relation",
+  {
+    id: serial("id").primaryKey(),
+    tagId: integer("tag_id")
+      .references(() => tag.id, { onDelete: "cascade" })
+      .notNull(),
+    relatedTagId: integer("related_tag_id")
+      .references(() => tag.id, { onDelete: "cascade" })
+      .notNull(),
+    weight: real("weight").notNull(), // 0-1, how much knowing one says about the other
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("tag_relation_pair_idx").on(table.tagId, table.relatedTagId),
+    index("tag_relation_related_idx").on(table.relatedTagId),
+  ]
+);
+
+// Learned tag embeddings (PMI + SVD over co-occurrence), rebuilt by the embed-tags job
+export const tagEmbedding = pgTable("tag_embedding", {
+  id: serial("id").primaryKey(),
+  tagId: integer("tag_id")
+    .references(() => tag.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  vector: jsonb("vector").$type<number[]>().notNull(), // Unit vector
+  dimensions: integer("dimensions").notNull(),
+  trainedAt: timestamp("trained_at").defaultNow().notNull(),
+});
+
 // Note: Tag relations are defined in a separate relations file to avoid circular imports
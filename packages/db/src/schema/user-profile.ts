@@ -7,6 +7,7 @@ import {
   timestamp,
   real,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { user } from "./auth";
 import { tag } from "./tag";
@@ -66,7 +67,8 @@ export const userTag = pgTable(
       .references(() => tag.id, { onDelete: "cascade" })
       .notNull(),
     score: integer("score").notNull(), // 1-5 relevance score
-    source: text("source").default("manual").notNull(), // "manual", "inferred", "github"
+    source: text("source").default("manual").notNull(), // "manual", "onboarding", "onboarding_stack", "divergence_prompt", "inferred", "github"
+    createdAt: timestamp("created_at").defaultNow().notNull(), // When the tag joined the profile (kept across score edits)
     updatedAt: timestamp("updated_at")
       .defaultNow()
       .$onUpdate(() => new Date())
@@ -75,6 +77,7 @@ export const userTag = pgTable(
   (table) => [
     index("user_tag_user_idx").on(table.userId),
     index("user_tag_tag_idx").on(table.tagId),
+    uniqueIndex("user_tag_user_tag_idx").on(table.userId, table.tagId),
     index("user_tag_score_idx").on(table.score),
   ]
 );
@@ -101,6 +104,22 @@ export const mutual = pgTable(
   ]
 );
 
+// Access tier changes (userProfile.accessTier holds only the current tier),
+// so offline evaluation can tell a user's tier at a past cutoff
+export const accessTierChange = pgTable(
+  "access_tier_change",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    fromTier: bountyTierEnum("from_tier").notNull(),
+    toTier: bountyTierEnum("to_tier").notNull(),
+    changedAt: timestamp("changed_at").defaultNow().notNull(),
+  },
+  (table) => [index("access_tier_change_user_idx").on(table.userId, table.changedAt)]
+);
+
 // Relations
 export const userProfileRelations = relations(userProfile, ({ one }) => ({
   user: one(user, {
@@ -98,6 +98,13 @@ export const BOUNTY_DISTRIBUTION = {
   high: 0.15,
 } as const;
 
+// Distribution of bounty types per tier (small tiers skew to fixes, high to projects)
+export const BOUNTY_TYPE_DISTRIBUTION = {
+  basic: { bug_fix: 0.4, feature: 0.3, docs: 0.15, code_review: 0.15 },
+  middle: { feature: 0.5, bug_fix: 0.2, code_review: 0.15, full_project: 0.15 },
+  high: { full_project: 0.5, feature: 0.4, code_review: 0.1 },
+} as const;
+
 // Utility: weighted random selection
 export function weightedRandom<T extends string>(weights: Record<T, number>): T {
   const entries = Object.entries(weights) as [T, number][];
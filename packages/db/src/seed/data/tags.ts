@@ -75,3 +75,62 @@ export function getTagCategory(tagName: string): string | undefined {
   }
   return undefined;
 }
+
+// Tag hierarchy: child -> parents
+export const TAG_PARENTS: Record<string, string[]> = {
+  typescript: ["javascript"],
+  react: ["javascript", "frontend"],
+  nextjs: ["react", "fullstack"],
+  vue: ["javascript", "frontend"],
+  angular: ["typescript", "frontend"],
+  svelte: ["javascript", "frontend"],
+  node: ["javascript", "backend"],
+  express: ["node"],
+  django: ["python", "backend"],
+  rails: ["ruby", "backend"],
+  spring: ["java", "backend"],
+  kubernetes: ["docker", "devops"],
+  terraform: ["devops"],
+  "ci-cd": ["devops"],
+  monitoring: ["devops"],
+  docker: ["devops"],
+  aws: ["devops"],
+  gcp: ["devops"],
+  graphql: ["api-design"],
+  rest: ["api-design"],
+  "machine-learning": ["data-science"],
+  "ux-research": ["ui-design"],
+};
+
+// Related tags with similarity weights (0-1), symmetric
+export const TAG_RELATIONS: [string, string, number][] = [
+  ["frontend", "fullstack", 0.6],
+  ["backend", "fullstack", 0.6],
+  ["backend", "api-design", 0.6],
+  ["backend", "database", 0.5],
+  ["frontend", "ui-design", 0.5],
+  ["frontend", "accessibility", 0.4],
+  ["ui-design", "accessibility", 0.5],
+  ["devops", "monitoring", 0.6],
+  ["aws", "gcp", 0.6],
+  ["docker", "ci-cd", 0.5],
+  ["react", "vue", 0.5],
+  ["react", "svelte", 0.5],
+  ["vue", "svelte", 0.6],
+  ["angular", "react", 0.4],
+  ["express", "rest", 0.5],
+  ["graphql", "rest", 0.4],
+  ["python", "data-science", 0.6],
+  ["python", "machine-learning", 0.5],
+  ["django", "rails", 0.4],
+  ["go", "rust", 0.3],
+  ["rust", "cpp", 0.5],
+  ["rust", "embedded", 0.4],
+  ["cpp", "embedded", 0.6],
+  ["cpp", "game-dev", 0.5],
+  ["swift", "mobile", 0.7],
+  ["java", "mobile", 0.4],
+  ["security", "architecture", 0.3],
+  ["performance", "architecture", 0.4],
+  ["testing", "ci-cd", 0.4],
+];
@@ -2,9 +2,11 @@ import { faker } from "@faker-js/faker";
 import type { InferInsertModel } from "drizzle-orm";
 import { db } from "../db";
 import { bounty, bountyTag } from "../../schema";
+import { calculateEngagementScore } from "../../engagement";
 import {
   TIER_CONFIG,
   BOUNTY_DISTRIBUTION,
+  BOUNTY_TYPE_DISTRIBUTION,
   weightedRandom,
   type BountyTier,
 } from "../data/clusters";
@@ -12,6 +14,7 @@ import type { GeneratedUser } from "./users";
 
 type BountyInsert = InferInsertModel<typeof bounty>;
 type BountyTagInsert = InferInsertModel<typeof bountyTag>;
+type BountyType = NonNullable<BountyInsert["type"]>;
 
 // Bounty title templates per tier
 const BOUNTY_TITLES: Record<BountyTier, string[]> = {
@@ -68,14 +71,6 @@ const BOUNTY_TITLES: Record<BountyTier, string[]> = {
   ],
 };
 
-// Calculate engagement score from metrics
-function calculateEngagementScore(views: number, submissions: number, likes: number): number {
-  const viewScore = Math.min(views / 100, 30);
-  const submissionScore = Math.min(submissions * 2, 40);
-  const likeScore = Math.min(likes * 0.5, 30);
-  return Math.min(viewScore + submissionScore + likeScore, 100);
-}
-
 // Generate bounties
 export async function generateBounties(
   count: number,
@@ -89,10 +84,12 @@ export async function generateBounties(
 
   for (let i = 0; i < count; i++) {
     const tier = weightedRandom(BOUNTY_DISTRIBUTION) as BountyTier;
+    const type = weightedRandom<string>(BOUNTY_TYPE_DISTRIBUTION[tier]) as BountyType;
     const config = TIER_CONFIG[tier];
 
     const price = faker.number.int({ min: config.priceMin, max: config.priceMax });
     const views = faker.number.int({ min: config.viewsMin, max: config.viewsMax });
+    const uniqueViewers = Math.round(views * faker.number.float({ min: 0.5, max: 0.9 }));
     const submissions = faker.number.int({ min: 0, max: config.submissionsMax });
     const likes = faker.number.int({ min: 0, max: config.likesMax });
     const engagementScore = calculateEngagementScore(views, submissions, likes);
@@ -116,8 +113,10 @@ export async function generateBounties(
       description: faker.lorem.paragraphs({ min: 2, max: 4 }),
       price,
       tier,
+      type,
       status,
       views,
+      uniqueViewers,
       submissions,
       likes,
       engagementScore,
@@ -1,10 +1,11 @@
 import { faker } from "@faker-js/faker";
 import type { InferInsertModel } from "drizzle-orm";
 import { db } from "../db";
-import { bountyView, bountyInteraction } from "../../schema";
+import { bountyView, bountyViewer, bountyInteraction } from "../../schema";
 import type { GeneratedUser } from "./users";
 
 type BountyViewInsert = InferInsertModel<typeof bountyView>;
+type BountyViewerInsert = InferInsertModel<typeof bountyViewer>;
 type BountyInteractionInsert = InferInsertModel<typeof bountyInteraction>;
 
 // Generate bounty views (used for avg price calculation)
@@ -15,6 +16,7 @@ export async function generateBountyViews(
   console.log(`Generating bounty views...`);
 
   const views: BountyViewInsert[] = [];
+  const viewers: BountyViewerInsert[] = [];
   const bountyIds = Array.from({ length: bountyCount }, (_, i) => i + 1);
 
   for (const u of users) {
@@ -29,12 +31,14 @@ export async function generateBountyViews(
     const viewedBountyIds = faker.helpers.arrayElements(bountyIds, numViews);
 
     for (const bountyId of viewedBountyIds) {
+      const viewedAt = faker.date.recent({ days: 90 });
       views.push({
         userId: u.id,
         bountyId,
-        viewedAt: faker.date.recent({ days: 90 }),
+        viewedAt,
         duration: faker.number.int({ min: 5, max: 300 }), // 5 seconds to 5 minutes
       });
+      viewers.push({ userId: u.id, bountyId, firstViewedAt: viewedAt, lastCountedAt: viewedAt });
     }
   }
 
@@ -44,6 +48,9 @@ export async function generateBountyViews(
     const batch = views.slice(i, i + BATCH_SIZE);
     await db.insert(bountyView).values(batch);
   }
+  for (let i = 0; i < viewers.length; i += BATCH_SIZE) {
+    await db.insert(bountyViewer).values(viewers.slice(i, i + BATCH_SIZE));
+  }
 
   console.log(`  Created ${views.length} bounty views`);
 }
@@ -1,8 +1,8 @@
 import { faker } from "@faker-js/faker";
 import { sql } from "drizzle-orm";
 import { db } from "./db"; // Use seed-specific db with dotenv loaded
-import { tag } from "../schema";
-import { TAG_DEFINITIONS } from "./data/tags";
+import { tag, tagParent, tagRelation } from "../schema";
+import { TAG_DEFINITIONS, TAG_PARENTS, TAG_RELATIONS } from "./data/tags";
 import { generateUsers, generateUserProfiles, generateUserTags } from "./generators/users";
 import { generateBounties } from "./generators/bounties";
 import { generateMutuals } from "./generators/social";
@@ -48,6 +48,31 @@ async function seedTags(): Promise<{ id: number; name: string }[]> {
   return allTags;
 }
 
+// Seed tag hierarchy and similarity edges
+async function seedTagGraph(allTags: { id: number; name: string }[]): Promise<void> {
+  console.log("Seeding tag graph...");
+
+  const tagIdByName = new Map(allTags.map((t) => [t.name, t.id]));
+
+  const parentData: { childId: number; parentId: number }[] = [];
+  for (const [child, parents] of Object.entries(TAG_PARENTS)) {
+    for (const parent of parents) {
+      parentData.push({ childId: tagIdByName.get(child)!, parentId: tagIdByName.get(parent)! });
+    }
+  }
+
+  const relationData = TAG_RELATIONS.map(([a, b, weight]) => ({
+    tagId: tagIdByName.get(a)!,
+    relatedTagId: tagIdByName.get(b)!,
+    weight,
+  }));
+
+  await db.insert(tagParent).values(parentData).onConflictDoNothing();
+  await db.insert(tagRelation).values(relationData).onConflictDoNothing();
+
+  console.log(`  Seeded ${parentData.length} parent edges, ${relationData.length} related edges`);
+}
+
 // Clear all data (for fresh seed)
 async function clearData(): Promise<void> {
   console.log("Clearing existing data...");
@@ -87,6 +112,7 @@ async function seed(): Promise<void> {
 
     // 1. Seed tags (50 tags)
     const allTags = await seedTags();
+    await seedTagGraph(allTags);
 
     // 2. Generate users
     const users = await generateUsers(config.users);
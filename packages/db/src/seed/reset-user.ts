@@ -4,13 +4,15 @@
 import { db } from "./db";
 import { user } from "../schema/auth";
 import { userProfile, userTag, mutual } from "../schema/user-profile";
-import { bountyView, bountyInteraction } from "../schema/bounty";
+import { bountyView, bountyViewer, bountyInteraction, interactionEvent } from "../schema/bounty";
 import {
   userOnboarding,
   userBehaviorTag,
   userBehaviorPrice,
   userBlendConfig,
+  divergencePrompt,
 } from "../schema/onboarding";
+import { bountyImpression } from "../schema/recommendation";
 import { eq } from "drizzle-orm";
 
 const emailArg = process.argv[2];
@@ -70,6 +72,12 @@ async function resetUser() {
     .returning();
   console.log(`  - Deleted ${deletedBlendConfig.length} blend config record(s)`);
 
+  const deletedPrompts = await db
+    .delete(divergencePrompt)
+    .where(eq(divergencePrompt.userId, foundUser.id))
+    .returning();
+  console.log(`  - Deleted ${deletedPrompts.length} divergence prompt(s)`);
+
   // User tags (skills)
   const deletedTags = await db
     .delete(userTag)
@@ -91,6 +99,18 @@ async function resetUser() {
     .returning();
   console.log(`  - Deleted ${deletedViews.length} bounty view(s)`);
 
+  const deletedViewers = await db
+    .delete(bountyViewer)
+    .where(eq(bountyViewer.userId, foundUser.id))
+    .returning();
+  console.log(`  - Deleted ${deletedViewers.length} bounty viewer record(s)`);
+
+  const deletedImpressions = await db
+    .delete(bountyImpression)
+    .where(eq(bountyImpression.userId, foundUser.id))
+    .returning();
+  console.log(`  - Deleted ${deletedImpressions.length} bounty impression(s)`);
+
   // Bounty interactions
   const deletedInteractions = await db
     .delete(bountyInteraction)
@@ -98,6 +118,13 @@ async function resetUser() {
     .returning();
   console.log(`  - Deleted ${deletedInteractions.length} bounty interaction(s)`);
 
+  // Queued interactions, so the worker doesn't replay them
+  const deletedEvents = await db
+    .delete(interactionEvent)
+    .where(eq(interactionEvent.userId, foundUser.id))
+    .returning();
+  console.log(`  - Deleted ${deletedEvents.length} queued interaction event(s)`);
+
   // Mutuals
   const deletedMutuals = await db
     .delete(mutual)
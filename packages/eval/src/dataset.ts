@@ -0,0 +1,430 @@
+/**
+ * Evaluation dataset
+ *
+ * Splits interaction history at a cutoff. Everything before the cutoff is
+ * used to rebuild each user's state the way the live API would have seen it
+ * (avg price of the last 10 views, engagement from interaction count, mutual
+ * activity, onboarding answers, access tier, profile tags added before the
+ * cutoff blended with implicit tag scores rebuilt from pre-cutoff
+ * interactions). Interactions after the cutoff become graded relevance
+ * labels. Tag embeddings and collaborative filtering neighbors are
+ * retrained from pre-cutoff data only, so they can't leak held-out
+ * co-engagement.
+ *
+ * Profile tags removed since the cutoff, and score edits to kept ones,
+ * aren't recorded, so those use current state.
+ */
+
+import { asc, lt, gte } from "drizzle-orm";
+import { db } from "@algorithim-test/db/seed/db";
+import {
+  bounty,
+  bountyTag,
+  bountyView,
+  bountyInteraction,
+} from "@algorithim-test/db/schema/bounty";
+import { tag, tagParent, tagRelation } from "@algorithim-test/db/schema/tag";
+import {
+  accessTierChange,
+  userProfile,
+  userTag,
+  mutual,
+} from "@algorithim-test/db/schema/user-profile";
+import { userOnboarding } from "@algorithim-test/db/schema/onboarding";
+import type {
+  BountyData,
+  BountyTag,
+  MutualConnection,
+  RecommendationInput,
+  UserTagScore,
+} from "@algorithim-test/api/services/recommendation";
+import type { BountyType, UserPreferences } from "@algorithim-test/api/services/preferences";
+import {
+  blendTagScore,
+  computeBlendWeights,
+  computeImplicitTagScores,
+  TRACKED_INTERACTION_TYPES,
+  type InteractionType,
+} from "@algorithim-test/api/services/tag-blend";
+import { buildTagGraph } from "@algorithim-test/api/services/tag-graph";
+import { trainTagEmbeddings } from "@algorithim-test/api/services/embedding";
+import {
+  buildInteractionHistory,
+  computeBountyNeighbors,
+} from "@algorithim-test/api/services/collaborative";
+
+// ============ CONSTANTS ============
+
+// Relevance grade per held-out interaction type (higher = stronger signal)
+export const INTERACTION_GRADES: Record<string, number> = {
+  view: 1,
+  like: 2,
+  submit: 3,
+  claim: 3,
+  complete: 4,
+};
+
+// ============ TYPES ============
+
+export type CandidateMode = "open-at-cutoff" | "all";
+
+export interface DatasetOptions {
+  cutoff: Date;
+  maxUsers: number;
+  candidates: CandidateMode;
+  includeViews: boolean; // Count held-out views as (weak) relevance labels
+}
+
+export interface EvalUser {
+  input: RecommendationInput;
+  seen: Set<number>;              // Bounties engaged with before the cutoff (excluded from ranking)
+  relevant: Map<number, number>;  // bountyId -> grade, from after the cutoff
+}
+
+export interface EvalDataset {
+  cutoff: Date;
+  bounties: BountyData[];
+  bountyTagMap: Map<number, BountyTag[]>;
+  mutualInteractions: Map<string, number[]>;
+  users: EvalUser[];
+  stats: {
+    candidateBounties: number;
+    trainInteractions: number;
+    testInteractions: number;
+    eligibleUsers: number;
+  };
+}
+
+// ============ LOADING ============
+
+export async function loadDataset(options: DatasetOptions): Promise<EvalDataset> {
+  const { cutoff } = options;
+
+  // 1. Candidate bounties
+  const allBounties = await db.select().from(bounty);
+  const bounties: BountyData[] = allBounties
+    .filter((b) => options.candidates === "all" || isOpenAt(b, cutoff))
+    .map((b) => ({ ...b, status: "open" as const }));
+  const candidateIds = new Set(bounties.map((b) => b.id));
+
+  // 2. Bounty tags
+  const allBountyTags = await db.select().from(bountyTag);
+  const bountyTagMap = new Map<number, BountyTag[]>();
+  for (const bt of allBountyTags) {
+    if (!candidateIds.has(bt.bountyId)) continue;
+    if (!bountyTagMap.has(bt.bountyId)) {
+      bountyTagMap.set(bt.bountyId, []);
+    }
+    bountyTagMap.get(bt.bountyId)!.push({ tagId: bt.tagId, weight: bt.weight });
+  }
+
+  // 3. Interactions, split at the cutoff
+  const train = await db
+    .select()
+    .from(bountyInteraction)
+    .where(lt(bountyInteraction.createdAt, cutoff));
+  const test = await db
+    .select()
+    .from(bountyInteraction)
+    .where(gte(bountyInteraction.createdAt, cutoff));
+
+  const trainByUser = groupBy(train, (i) => i.userId);
+  const mutualInteractions = new Map<string, number[]>(
+    [...trainByUser].map(([userId, rows]) => [userId, rows.map((r) => r.bountyId)])
+  );
+
+  // 4. Pre-cutoff views (for avg price viewed and dwell-weighted tag scores)
+  const views = await db
+    .select({
+      userId: bountyView.userId,
+      bountyId: bountyView.bountyId,
+      viewedAt: bountyView.viewedAt,
+      duration: bountyView.duration,
+    })
+    .from(bountyView)
+    .where(lt(bountyView.viewedAt, cutoff));
+  const viewsByUser = groupBy(views, (v) => v.userId);
+  const priceById = new Map(allBounties.map((b) => [b.id, b.price]));
+
+  // 5. Held-out labels per user
+  const labelsByUser = new Map<string, Map<number, number>>();
+  for (const i of test) {
+    if (!candidateIds.has(i.bountyId)) continue;
+    if (i.type === "view" && !options.includeViews) continue;
+
+    const grade = INTERACTION_GRADES[i.type] ?? 0;
+    if (grade === 0) continue;
+
+    if (!labelsByUser.has(i.userId)) {
+      labelsByUser.set(i.userId, new Map());
+    }
+    const labels = labelsByUser.get(i.userId)!;
+    labels.set(i.bountyId, Math.max(labels.get(i.bountyId) ?? 0, grade));
+  }
+
+  // 6. Profiles, onboarding answers, tags, tag graph, embeddings, item
+  // neighbors and social graph
+  const profiles = await db.select().from(userProfile);
+  const profileByUser = new Map(profiles.map((p) => [p.userId, p]));
+
+  const onboardings = await db.select().from(userOnboarding);
+  const onboardingByUser = new Map(onboardings.map((o) => [o.userId, o]));
+
+  const tierChanges = await db
+    .select()
+    .from(accessTierChange)
+    .where(gte(accessTierChange.changedAt, cutoff))
+    .orderBy(asc(accessTierChange.changedAt));
+  const tierChangesByUser = groupBy(tierChanges, (c) => c.userId);
+
+  const userTags = await db
+    .select({ userId: userTag.userId, tagId: userTag.tagId, score: userTag.score })
+    .from(userTag)
+    .where(lt(userTag.createdAt, cutoff));
+  const tagsByUser = groupBy(userTags, (t) => t.userId);
+
+  const tags = await db.select({ id: tag.id, name: tag.name }).from(tag);
+  const tagNames = new Map(tags.map((t) => [t.id, t.name]));
+  const tagGraph = buildTagGraph(
+    tags,
+    await db.select().from(tagParent),
+    await db.select().from(tagRelation)
+  );
+
+  const tagIdsByBounty = new Map(
+    [...groupBy(allBountyTags, (bt) => bt.bountyId)].map(([bountyId, rows]) => [
+      bountyId,
+      rows.map((bt) => bt.tagId),
+    ])
+  );
+
+  const createdBeforeCutoff = new Set(allBounties.filter((b) => b.createdAt < cutoff).map((b) => b.id));
+  const tagEmbeddings = trainTagEmbeddings({
+    bountyTags: allBountyTags.filter((bt) => createdBeforeCutoff.has(bt.bountyId)),
+    interactions: train,
+  });
+
+  const trainHistory = buildInteractionHistory(train);
+  const bountyNeighbors = computeBountyNeighbors(trainHistory);
+
+  const mutualRows = await db.select().from(mutual);
+  const mutualsByUser = groupBy(mutualRows, (m) => m.userId);
+
+  // 7. Build eval users (most held-out activity first, then by id for stability)
+  const eligible: EvalUser[] = [];
+
+  for (const [userId, labels] of labelsByUser) {
+    const profile = profileByUser.get(userId);
+    if (!profile) continue;
+
+    const seen = new Set((trainByUser.get(userId) ?? []).map((i) => i.bountyId));
+    for (const bountyId of seen) {
+      labels.delete(bountyId);
+    }
+    if (labels.size === 0) continue;
+
+    const recentViews = (viewsByUser.get(userId) ?? [])
+      .sort((a, b) => b.viewedAt.getTime() - a.viewedAt.getTime())
+      .slice(0, 10);
+    const avgPriceViewed =
+      recentViews.length > 0
+        ? recentViews.reduce((sum, v) => sum + (priceById.get(v.bountyId) ?? 0), 0) /
+          recentViews.length
+        : 0;
+
+    const trainCount = trainByUser.get(userId)?.length ?? 0;
+
+    // Tier at the cutoff: the first later change records what it was
+    const tierAtCutoff = tierChangesByUser.get(userId)?.[0]?.fromTier ?? profile.accessTier;
+
+    eligible.push({
+      input: {
+        userId,
+        userTags: getEngineTagScoresAt(
+          tagsByUser.get(userId) ?? [],
+          trainByUser.get(userId) ?? [],
+          viewsByUser.get(userId) ?? [],
+          tagIdsByBounty,
+          tagNames,
+          cutoff
+        ),
+        userProfile: {
+          avgPriceViewed,
+          engagementScore: Math.min(trainCount * 2, 100),
+          accessTier: tierAtCutoff,
+        },
+        mutuals: getMutualsThreeLayers(userId, mutualsByUser),
+        preferences: toPreferences(onboardingByUser.get(userId)),
+        tagGraph,
+        tagEmbeddings,
+        collaborative: {
+          history: trainHistory.get(userId) ?? new Map(),
+          neighbors: bountyNeighbors,
+        },
+      },
+      seen,
+      relevant: labels,
+    });
+  }
+
+  eligible.sort(
+    (a, b) =>
+      b.relevant.size - a.relevant.size || a.input.userId.localeCompare(b.input.userId)
+  );
+
+  return {
+    cutoff,
+    bounties,
+    bountyTagMap,
+    mutualInteractions,
+    users: eligible.slice(0, options.maxUsers),
+    stats: {
+      candidateBounties: bounties.length,
+      trainInteractions: train.length,
+      testInteractions: test.length,
+      eligibleUsers: eligible.length,
+    },
+  };
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Was the bounty available at the cutoff?
+ */
+function isOpenAt(
+  b: { createdAt: Date; completedAt: Date | null; expiresAt: Date | null },
+  cutoff: Date
+): boolean {
+  if (b.createdAt >= cutoff) return false;
+  if (b.completedAt && b.completedAt < cutoff) return false;
+  if (b.expiresAt && b.expiresAt < cutoff) return false;
+  return true;
+}
+
+/**
+ * Same blend as the live API's getEngineTagScores, as of the cutoff:
+ * implicit scores rebuilt from pre-cutoff interactions (dwell-weighted,
+ * decayed to the cutoff) blended with the profile tags held then, using the
+ * blend weights for the pre-cutoff interaction count
+ */
+function getEngineTagScoresAt(
+  explicit: { tagId: number; score: number }[],
+  interactions: { bountyId: number; type: string; createdAt: Date }[],
+  views: { bountyId: number; duration: number | null }[],
+  tagIdsByBounty: Map<number, number[]>,
+  tagNames: Map<number, string>,
+  cutoff: Date
+): UserTagScore[] {
+  const durations = groupBy(
+    views.filter((v) => v.duration !== null),
+    (v) => v.bountyId
+  );
+  const tracked = interactions.filter((i) =>
+    TRACKED_INTERACTION_TYPES.includes(i.type as InteractionType)
+  );
+
+  const implicit = computeImplicitTagScores(
+    tracked.map((i) => {
+      const measured = durations.get(i.bountyId) ?? [];
+      return {
+        type: i.type,
+        createdAt: i.createdAt,
+        tagIds: tagIdsByBounty.get(i.bountyId) ?? [],
+        dwellSeconds:
+          measured.length > 0
+            ? measured.reduce((sum, v) => sum + v.duration!, 0) / measured.length
+            : null,
+      };
+    }),
+    cutoff
+  );
+
+  const explicitMap = new Map(explicit.map((t) => [t.tagId, t.score]));
+  const weights = computeBlendWeights(tracked.length);
+
+  return [...new Set([...explicitMap.keys(), ...implicit.keys()])].flatMap((tagId) => {
+    const blend = blendTagScore(
+      explicitMap.get(tagId) ?? 0,
+      implicit.get(tagId) ?? 0,
+      weights,
+      tracked.length
+    );
+    const score = blend.explicitContribution + blend.implicitContribution;
+    if (score <= 0) return [];
+
+    return [{ tagId, tagName: tagNames.get(tagId) ?? `Tag ${tagId}`, score, ...blend }];
+  });
+}
+
+/**
+ * Onboarding answers as engine preferences. Uses the explicit price range
+ * only: the live API blends in viewing behavior, which would leak
+ * post-cutoff activity here.
+ */
+function toPreferences(
+  onboarding: typeof userOnboarding.$inferSelect | undefined
+): UserPreferences | undefined {
+  if (!onboarding) return undefined;
+
+  return {
+    priceRange:
+      onboarding.priceRangeMin !== null && onboarding.priceRangeMax !== null
+        ? { min: onboarding.priceRangeMin, max: onboarding.priceRangeMax }
+        : null,
+    bountyTypes: (onboarding.bountyTypes ?? []) as BountyType[],
+    deadlineStyle: onboarding.deadlineStyle,
+    riskTolerance: onboarding.riskTolerance,
+    timeCommitment: onboarding.timeCommitment,
+  };
+}
+
+/**
+ * Same layering as the live API: direct mutuals, then 2nd and 3rd degree
+ * with decayed strength
+ */
+function getMutualsThreeLayers(
+  userId: string,
+  mutualsByUser: Map<string, { mutualId: string; strength: number }[]>
+): MutualConnection[] {
+  const layer1 = mutualsByUser.get(userId) ?? [];
+  const result: MutualConnection[] = layer1.map((m) => ({
+    mutualId: m.mutualId,
+    layer: 1 as const,
+    strength: m.strength,
+  }));
+
+  const layer1Ids = new Set(layer1.map((m) => m.mutualId));
+  const layer2Ids = new Set<string>();
+
+  for (const id of layer1Ids) {
+    for (const m of mutualsByUser.get(id) ?? []) {
+      if (!layer1Ids.has(m.mutualId) && m.mutualId !== userId) {
+        layer2Ids.add(m.mutualId);
+        result.push({ mutualId: m.mutualId, layer: 2 as const, strength: m.strength * 0.5 });
+      }
+    }
+  }
+
+  for (const id of layer2Ids) {
+    for (const m of mutualsByUser.get(id) ?? []) {
+      if (!layer1Ids.has(m.mutualId) && !layer2Ids.has(m.mutualId) && m.mutualId !== userId) {
+        result.push({ mutualId: m.mutualId, layer: 3 as const, strength: m.strength * 0.25 });
+      }
+    }
+  }
+
+  return result;
+}
+
+function groupBy<T, K>(rows: T[], key: (row: T) => K): Map<K, T[]> {
+  const map = new Map<K, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    if (!map.has(k)) {
+      map.set(k, []);
+    }
+    map.get(k)!.push(row);
+  }
+  return map;
+}
@@ -0,0 +1,54 @@
+/**
+ * Runs each scoring config over the evaluation dataset and aggregates
+ * ranking metrics
+ */
+
+import { scoreAllBounties } from "@algorithim-test/api/services/recommendation";
+import { getScoringStrategy, type ScoringWeights } from "@algorithim-test/api/services/scoring";
+import type { EvalDataset } from "./dataset";
+import { averageMetrics, computeRankingMetrics, type RankingMetrics } from "./metrics";
+
+export interface EvalConfigResult {
+  strategyId: string;
+  label: string;
+  weights: ScoringWeights;
+  metrics: RankingMetrics;
+  usersEvaluated: number;
+  durationMs: number;
+}
+
+export function evaluateStrategy(
+  dataset: EvalDataset,
+  strategyId: string,
+  k: number,
+  applyRelevanceFilter: boolean
+): EvalConfigResult {
+  const strategy = getScoringStrategy(strategyId);
+  const start = Date.now();
+
+  const perUser: RankingMetrics[] = dataset.users.map((user) => {
+    const ranked = scoreAllBounties(
+      user.input,
+      dataset.bounties,
+      dataset.bountyTagMap,
+      dataset.mutualInteractions,
+      applyRelevanceFilter,
+      strategy.id,
+      dataset.cutoff
+    )
+      .filter((sb) => !user.seen.has(sb.bounty.id))
+      .sort((a, b) => b.finalScore - a.finalScore)
+      .map((sb) => sb.bounty.id);
+
+    return computeRankingMetrics(ranked, user.relevant, k);
+  });
+
+  return {
+    strategyId: strategy.id,
+    label: strategy.label,
+    weights: strategy.weights,
+    metrics: averageMetrics(perUser),
+    usersEvaluated: perUser.length,
+    durationMs: Date.now() - start,
+  };
+}
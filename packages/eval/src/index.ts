@@ -0,0 +1,147 @@
+// Offline evaluation harness
+// Replays interaction history against one or more scoring configs
+//
+// Usage: bun run src/index.ts [options]
+//   --cutoff <date>          Train/test split (default: 14 days before now)
+//   --k <n>                  Cutoff rank for P/R/NDCG (default: 10)
+//   --strategies <a,b,...>   Registered strategy ids (default: all)
+//   --weights <name=r,s,p,e[,f[,pr[,c]]]> Extra ad-hoc config, repeatable
+//                            (f = freshness, pr = preference, c = collaborative, default 0)
+//   --users <n>              Max users to evaluate (default: 200)
+//   --candidates <mode>      "open-at-cutoff" (default) or "all"
+//   --include-views          Treat held-out views as weak relevance labels
+//   --relevance-filter       Drop bounties below the min relevance threshold
+//   --out <path>             Write <path>.json and <path>.md
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  createWeightedStrategy,
+  listScoringStrategies,
+  registerScoringStrategy,
+} from "@algorithim-test/api/services/scoring";
+import { loadDataset, type CandidateMode } from "./dataset";
+import { evaluateStrategy } from "./evaluate";
+import { renderMarkdown, type EvalReport } from "./report";
+
+// Parse command line args
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function getAllArgs(name: string): string[] {
+  return args.flatMap((arg, i) => (arg === `--${name}` && args[i + 1] ? [args[i + 1]!] : []));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const cutoff = getArg("cutoff") ? new Date(getArg("cutoff")!) : new Date(Date.now() - 14 * DAY_MS);
+const k = Number(getArg("k") ?? 10);
+const maxUsers = Number(getArg("users") ?? 200);
+const candidates = (getArg("candidates") ?? "open-at-cutoff") as CandidateMode;
+const includeViews = args.includes("--include-views");
+const relevanceFilter = args.includes("--relevance-filter");
+const outPath = getArg("out");
+
+if (Number.isNaN(cutoff.getTime())) {
+  console.error(`Invalid --cutoff: ${getArg("cutoff")}`);
+  process.exit(1);
+}
+
+if (candidates !== "open-at-cutoff" && candidates !== "all") {
+  console.error(`Invalid --candidates: ${candidates}`);
+  process.exit(1);
+}
+
+// Register ad-hoc weight configs, e.g. --weights heavy-price=0.4,0.1,0.4,0.1[,0.1[,0.1[,0.1]]]
+function registerWeightConfigs(): string[] {
+  return getAllArgs("weights").map((spec) => {
+    const [name, values] = spec.split("=");
+    const parts = (values ?? "").split(",").map(Number);
+
+    if (!name || parts.length < 4 || parts.length > 7 || parts.some((p) => Number.isNaN(p))) {
+      console.error(`Invalid --weights "${spec}" (expected name=relevance,social,price,engagement[,freshness[,preference[,collaborative]]])`);
+      process.exit(1);
+    }
+
+    const [relevance, social, price, engagement, freshness = 0, preference = 0, collaborative = 0] = parts as [
+      number, number, number, number, number?, number?, number?,
+    ];
+    registerScoringStrategy(
+      createWeightedStrategy({
+        id: name,
+        version: 0,
+        label: name,
+        description: "Ad-hoc weights from the command line",
+        weights: { relevance, social, price, engagement, freshness, preference, collaborative },
+      })
+    );
+    return name;
+  });
+}
+
+async function main(): Promise<void> {
+  const adHoc = registerWeightConfigs();
+  const strategyIds = [
+    ...(getArg("strategies")?.split(",") ??
+      listScoringStrategies()
+        .map((s) => s.id)
+        .filter((id) => !adHoc.includes(id))),
+    ...adHoc,
+  ];
+
+  console.log("=".repeat(60));
+  console.log(`Offline evaluation`);
+  console.log(`  Cutoff: ${cutoff.toISOString()}`);
+  console.log(`  Strategies: ${strategyIds.join(", ")}`);
+  console.log("=".repeat(60));
+
+  console.log("Loading dataset...");
+  const dataset = await loadDataset({ cutoff, maxUsers, candidates, includeViews });
+  console.log(`  ${dataset.stats.candidateBounties} candidate bounties`);
+  console.log(`  ${dataset.users.length} users (of ${dataset.stats.eligibleUsers} eligible)`);
+
+  if (dataset.stats.candidateBounties === 0) {
+    console.error(
+      "No candidate bounties at this cutoff. Seeded bounties are created at seed time; try --candidates all."
+    );
+    process.exit(1);
+  }
+
+  const results = strategyIds.map((id) => {
+    console.log(`Evaluating ${id}...`);
+    const result = evaluateStrategy(dataset, id, k, relevanceFilter);
+    console.log(`  NDCG@${k}: ${result.metrics.ndcgAtK.toFixed(4)} (${result.durationMs}ms)`);
+    return result;
+  });
+
+  const report: EvalReport = {
+    generatedAt: new Date().toISOString(),
+    cutoff: cutoff.toISOString(),
+    k,
+    options: { candidates, includeViews, relevanceFilter },
+    dataset: { ...dataset.stats, usersEvaluated: dataset.users.length },
+    results,
+  };
+
+  const markdown = renderMarkdown(report);
+  console.log("");
+  console.log(markdown);
+
+  if (outPath) {
+    await mkdir(dirname(outPath), { recursive: true });
+    await writeFile(`${outPath}.json`, JSON.stringify(report, null, 2));
+    await writeFile(`${outPath}.md`, markdown);
+    console.log(`Report written to ${outPath}.json and ${outPath}.md`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Evaluation failed:", error);
+    process.exit(1);
+  });
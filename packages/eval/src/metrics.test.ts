@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import {
+  averageMetrics,
+  computeRankingMetrics,
+  ndcgAtK,
+  precisionAtK,
+  recallAtK,
+  reciprocalRank,
+} from "./metrics";
+
+// Held-out grades: 10 was completed (3), 20 liked (2), 30 viewed (1)
+const relevant = new Map([
+  [10, 3],
+  [20, 2],
+  [30, 1],
+]);
+
+describe("precisionAtK", () => {
+  test("counts relevant items in the top k", () => {
+    expect(precisionAtK([10, 99, 20, 98], relevant, 2)).toBe(0.5);
+    expect(precisionAtK([10, 99, 20, 98], relevant, 4)).toBe(0.5);
+    expect(precisionAtK([97, 98], relevant, 2)).toBe(0);
+  });
+
+  test("divides by k even when fewer items are ranked", () => {
+    expect(precisionAtK([10], relevant, 4)).toBe(0.25);
+  });
+
+  test("is 0 for k <= 0", () => {
+    expect(precisionAtK([10, 20], relevant, 0)).toBe(0);
+  });
+});
+
+describe("recallAtK", () => {
+  test("counts how many relevant items made the top k", () => {
+    expect(recallAtK([10, 99, 20, 30], relevant, 2)).toBeCloseTo(1 / 3);
+    expect(recallAtK([10, 99, 20, 30], relevant, 4)).toBe(1);
+  });
+
+  test("is 0 without relevant items", () => {
+    expect(recallAtK([10, 20], new Map(), 2)).toBe(0);
+  });
+});
+
+describe("ndcgAtK", () => {
+  test("is 1 for the ideal order", () => {
+    expect(ndcgAtK([10, 20, 30], relevant, 3)).toBeCloseTo(1);
+  });
+
+  test("discounts relevant items ranked lower", () => {
+    // DCG = (2^1 - 1) / log2(2) + (2^3 - 1) / log2(4) = 1 + 3.5
+    // IDCG = 7 / log2(2) + 3 / log2(3) + 1 / log2(4)
+    const ideal = 7 + 3 / Math.log2(3) + 0.5;
+    expect(ndcgAtK([30, 99, 10], relevant, 3)).toBeCloseTo(4.5 / ideal);
+  });
+
+  test("normalizes by the best k grades only", () => {
+    expect(ndcgAtK([10], relevant, 1)).toBeCloseTo(1);
+    expect(ndcgAtK([20], relevant, 1)).toBeCloseTo(3 / 7);
+  });
+
+  test("is 0 when nothing is relevant", () => {
+    expect(ndcgAtK([10, 20], new Map(), 2)).toBe(0);
+    expect(ndcgAtK([97, 98], relevant, 2)).toBe(0);
+  });
+});
+
+describe("reciprocalRank", () => {
+  test("is 1 / rank of the first relevant item", () => {
+    expect(reciprocalRank([10, 20], relevant)).toBe(1);
+    expect(reciprocalRank([97, 98, 30, 10], relevant)).toBeCloseTo(1 / 3);
+  });
+
+  test("is 0 when nothing relevant is ranked", () => {
+    expect(reciprocalRank([97, 98], relevant)).toBe(0);
+    expect(reciprocalRank([], relevant)).toBe(0);
+  });
+});
+
+describe("averageMetrics", () => {
+  test("takes the mean of each metric across users", () => {
+    const perUser = [
+      computeRankingMetrics([10, 20], relevant, 2),
+      computeRankingMetrics([97, 98], relevant, 2),
+    ];
+
+    expect(averageMetrics(perUser)).toEqual({
+      precisionAtK: 0.5,
+      recallAtK: 1 / 3,
+      ndcgAtK: perUser[0]!.ndcgAtK / 2,
+      mrr: 0.5,
+    });
+  });
+
+  test("is all zeros without users", () => {
+    expect(averageMetrics([])).toEqual({ precisionAtK: 0, recallAtK: 0, ndcgAtK: 0, mrr: 0 });
+  });
+});
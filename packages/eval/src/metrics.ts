@@ -0,0 +1,94 @@
+/**
+ * Ranking metrics for offline evaluation
+ *
+ * All functions take a ranked list of bounty ids and the user's held-out
+ * relevance grades (bountyId -> grade > 0). Anything without a grade is
+ * treated as not relevant.
+ */
+
+export interface RankingMetrics {
+  precisionAtK: number;
+  recallAtK: number;
+  ndcgAtK: number;
+  mrr: number;
+}
+
+/**
+ * Fraction of the top k that is relevant
+ */
+export function precisionAtK(ranked: number[], relevant: Map<number, number>, k: number): number {
+  if (k <= 0) return 0;
+  const hits = ranked.slice(0, k).filter((id) => relevant.has(id)).length;
+  return hits / k;
+}
+
+/**
+ * Fraction of relevant items that made it into the top k
+ */
+export function recallAtK(ranked: number[], relevant: Map<number, number>, k: number): number {
+  if (relevant.size === 0) return 0;
+  const hits = ranked.slice(0, k).filter((id) => relevant.has(id)).length;
+  return hits / relevant.size;
+}
+
+/**
+ * Normalized discounted cumulative gain over the top k (graded relevance)
+ */
+export function ndcgAtK(ranked: number[], relevant: Map<number, number>, k: number): number {
+  const dcg = ranked
+    .slice(0, k)
+    .reduce((sum, id, i) => sum + gain(relevant.get(id) ?? 0) / Math.log2(i + 2), 0);
+
+  const ideal = [...relevant.values()]
+    .sort((a, b) => b - a)
+    .slice(0, k)
+    .reduce((sum, grade, i) => sum + gain(grade) / Math.log2(i + 2), 0);
+
+  return ideal > 0 ? dcg / ideal : 0;
+}
+
+/**
+ * Reciprocal rank of the first relevant item (0 if none is ranked)
+ */
+export function reciprocalRank(ranked: number[], relevant: Map<number, number>): number {
+  const index = ranked.findIndex((id) => relevant.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Compute all metrics for one user
+ */
+export function computeRankingMetrics(
+  ranked: number[],
+  relevant: Map<number, number>,
+  k: number
+): RankingMetrics {
+  return {
+    precisionAtK: precisionAtK(ranked, relevant, k),
+    recallAtK: recallAtK(ranked, relevant, k),
+    ndcgAtK: ndcgAtK(ranked, relevant, k),
+    mrr: reciprocalRank(ranked, relevant),
+  };
+}
+
+/**
+ * Mean of each metric across users
+ */
+export function averageMetrics(perUser: RankingMetrics[]): RankingMetrics {
+  const n = perUser.length;
+  if (n === 0) {
+    return { precisionAtK: 0, recallAtK: 0, ndcgAtK: 0, mrr: 0 };
+  }
+
+  return {
+    precisionAtK: perUser.reduce((sum, m) => sum + m.precisionAtK, 0) / n,
+    recallAtK: perUser.reduce((sum, m) => sum + m.recallAtK, 0) / n,
+    ndcgAtK: perUser.reduce((sum, m) => sum + m.ndcgAtK, 0) / n,
+    mrr: perUser.reduce((sum, m) => sum + m.mrr, 0) / n,
+  };
+}
+
+// Exponential gain so a "complete" counts much more than a "view"
+function gain(grade: number): number {
+  return Math.pow(2, grade) - 1;
+}
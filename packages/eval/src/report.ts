@@ -0,0 +1,56 @@
+/**
+ * Evaluation report rendering (JSON + Markdown)
+ */
+
+import type { EvalDataset } from "./dataset";
+import type { EvalConfigResult } from "./evaluate";
+
+export interface EvalReport {
+  generatedAt: string;
+  cutoff: string;
+  k: number;
+  options: {
+    candidates: string;
+    includeViews: boolean;
+    relevanceFilter: boolean;
+  };
+  dataset: EvalDataset["stats"] & { usersEvaluated: number };
+  results: EvalConfigResult[];
+}
+
+export function renderMarkdown(report: EvalReport): string {
+  const k = report.k;
+  const best = (pick: (r: EvalConfigResult) => number) =>
+    Math.max(...report.results.map(pick));
+
+  const bestNdcg = best((r) => r.metrics.ndcgAtK);
+
+  const lines = [
+    `# Offline evaluation report`,
+    ``,
+    `- Generated: ${report.generatedAt}`,
+    `- Cutoff: ${report.cutoff}`,
+    `- Candidates: ${report.options.candidates} (${report.dataset.candidateBounties} bounties)`,
+    `- Interactions: ${report.dataset.trainInteractions} train / ${report.dataset.testInteractions} test`,
+    `- Users evaluated: ${report.dataset.usersEvaluated} of ${report.dataset.eligibleUsers} eligible`,
+    `- Held-out views count as relevant: ${report.options.includeViews ? "yes" : "no"}`,
+    `- Relevance filter applied: ${report.options.relevanceFilter ? "yes" : "no"}`,
+    ``,
+    `| Strategy | Weights (rel/soc/price/eng/fresh/pref/cf) | P@${k} | R@${k} | NDCG@${k} | MRR |`,
+    `| --- | --- | ---: | ---: | ---: | ---: |`,
+    ...report.results.map((r) => {
+      const w = r.weights;
+      const name = r.metrics.ndcgAtK === bestNdcg ? `**${r.label}**` : r.label;
+      return `| ${name} (\`${r.strategyId}\`) | ${w.relevance}/${w.social}/${w.price}/${w.engagement}/${w.freshness}/${w.preference}/${w.collaborative} | ${fmt(r.metrics.precisionAtK)} | ${fmt(r.metrics.recallAtK)} | ${fmt(r.metrics.ndcgAtK)} | ${fmt(r.metrics.mrr)} |`;
+    }),
+    ``,
+    `Best NDCG@${k} in bold.`,
+    ``,
+  ];
+
+  return lines.join("\n");
+}
+
+function fmt(value: number): string {
+  return value.toFixed(4);
+}